@@ -18,9 +18,135 @@ import {
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 
+import {
+  buildHeartRateZones,
+  describeHeartRateZonesForPrompt,
+  HeartRateInputs,
+  HeartRateZoneModel,
+  MAX_HEART_RATE_SOURCE_LABELS,
+  ZONE_METHOD_LABELS,
+} from './health/heartRateZones';
+import { buildIcsCalendar, deviceTimeZone, IcsEvent, icsUid } from './export/icsCalendar';
+import { buildPlanCsv, buildPlanPrintHtml, buildPlanSheetDays, planSheetFileName } from './export/planSheet';
+import {
+  buildWorkoutFile,
+  buildWorkoutKitJson,
+  isExportableSession,
+  WORKOUT_FILE_FORMAT_LABELS,
+  WORKOUT_FILE_FORMATS,
+  WorkoutFileFormat,
+  WorkoutFileSession,
+} from './export/workoutFiles';
+import { predictRaceTimes } from './health/racePredictor';
+import { computeReadiness, describeReadinessComponent, ReadinessLevel } from './health/readiness';
+import {
+  buildDailyLoads,
+  buildLoadSessions,
+  describeTrainingLoadForPrompt,
+  HeartRateProfile,
+  LOAD_RISK_LABELS,
+  LoadCheckin,
+  LoadRisk,
+  TRAINING_LOAD_SETTINGS,
+  trainingLoadSeries,
+  TrainingLoadSnapshot,
+} from './health/trainingLoad';
+import {
+  actualFromHealthWorkout,
+  compareWorkout,
+  describeComplianceComponent,
+  describeWorstDeviations,
+  SessionComparison,
+  weeklyCompliance,
+} from './health/workoutComparison';
+import {
+  buildPlannedSessions,
+  isRunningWorkout,
+  PlannedSession,
+  reconcileWorkouts,
+  SessionMatch,
+  WorkoutReconciliation,
+} from './health/workoutMatching';
 import ExpoAppleIntelligence from './modules/expo-apple-intelligence';
-import type { CalendarWorkoutEvent, HealthSummary } from './modules/expo-apple-intelligence';
-import { buildAdaptiveRunningCoachPrompt, WEEK_PARTS } from './prompts/adaptiveRunningCoachPrompt';
+import type { CalendarWorkoutEvent, HealthSummary, WorkoutRow } from './modules/expo-apple-intelligence';
+import {
+  DAY_INDEX,
+  extractWeekNumber,
+  findWeekTableIndex,
+  isRestLikeWorkout,
+  normalizeDayName,
+  PlanTable,
+  swapDays,
+  tableWeekNumber,
+  WEEKDAY_NAMES,
+  weeklyDistance,
+  workoutForRow,
+} from './plan/planTables';
+import {
+  derivePlanWindow,
+  formatDateInput,
+  parseDateInput,
+  RacePriority,
+  scheduleTuneUpRaces,
+  SeasonRace,
+  TuneUpPriority,
+  weekdayName,
+} from './plan/raceSchedule';
+import { adjustSessionForReadiness, DailyAdjustmentMode, isDowngradableSession } from './plan/dailyAdjustment';
+import { diffPlanWeeks, PlanWeekDiff } from './plan/planDiff';
+import {
+  formatPace,
+  formatPaceBand,
+  GOAL_DISTANCE_KM,
+  PACING_MODES,
+  PacingMode,
+  recentRaceVdot,
+  vdotPaceBand,
+} from './plan/paceGuardrails';
+import { buildPhaseSchedule, phaseLabel } from './plan/trainingPhases';
+import { VDOT_PACE_KEYS, VdotPaceKey, vdotPaceTable } from './plan/vdot';
+import {
+  buildPlanExport,
+  parsePlanExport,
+  planExportFileName,
+  preparePlanImport,
+} from './storage/planTransfer';
+import {
+  describeStorageProblem,
+  describeStorageRejections,
+  isRecord,
+  loadVersioned,
+  saveVersioned,
+  StorageSchema,
+  StorageValidation,
+} from './storage/versionedStorage';
+import { validateStoredWorkout } from './plan/weekSchema';
+import {
+  buildWeeklyPlan,
+  GuardedWeek,
+  PlanInput,
+  regenerateWeek,
+  replanRemainingWeeks,
+  rerunWeekGuardrails,
+  WeekGuardrailInput,
+  WeeklyDebugPrompt,
+} from './plan/weeklyPlanPipeline';
+import {
+  describeWorkoutSegments,
+  DistanceUnit,
+  HeartRateZoneRange,
+  isRunningCategory,
+  StructuredWorkout,
+  workoutDistance,
+  workoutDurationMinutes,
+} from './plan/workoutModel';
+import {
+  COACH_MODEL_PROVIDER_IDS,
+  COACH_MODEL_PROVIDER_LABELS,
+  CoachModelProviderId,
+  createCoachModelProvider,
+  DEFAULT_OPENAI_COMPATIBLE_CONFIG,
+} from './providers/coachModelProvider';
 
 const normalizeSummary = (summary: Partial<HealthSummary>): HealthSummary => ({
   steps: summary.steps ?? [],
@@ -45,37 +171,26 @@ type DistanceUnitOption = (typeof DISTANCE_UNIT_OPTIONS)[number];
 const LOOKBACK_DAY_OPTIONS = [14, 30, 60, 90] as const;
 type LookbackDaysOption = (typeof LOOKBACK_DAY_OPTIONS)[number];
 const PLAN_LENGTH_OPTIONS = [8, 10, 12] as const;
-type PlanLengthOption = (typeof PLAN_LENGTH_OPTIONS)[number];
 const TRAIN_DAYS_OPTIONS = [1, 2, 3, 4, 5, 6, 7] as const;
-type PlanTable = {
-  headers: string[];
-  rows: string[][];
-};
+const TUNE_UP_PRIORITY_OPTIONS: TuneUpPriority[] = ['B', 'C'];
 type DisplayPlanTable = {
   title: string;
   headers: string[];
   rows: string[][];
-};
-type WeeklyDebugPrompt = {
-  week: number;
-  mode: 'full' | 'compact' | 'full-corrective' | 'compact-corrective';
-  prompt: string;
+  workouts?: StructuredWorkout[];
+  paceCorrections?: Array<string | null>;
 };
 type PlanSegment = 'weeks1to4' | 'weeks5to8';
 type AppScreen = 'setup' | 'plan';
 type PlanView = 'overview' | 'today' | 'progress' | 'calendar';
 type BannerType = 'info' | 'success' | 'error';
-type StructuredPlanDay = {
-  day: string;
-  workoutType: string;
-  details: string;
-  rationale: string;
-};
-type StructuredPlanWeek = {
+const PLAN_WEEK_ACTIONS = ['regenerate', 'swap', 'adapt', 'readiness'] as const;
+type PlanWeekAction = (typeof PLAN_WEEK_ACTIONS)[number];
+type PlanWeekVersion = {
   week: number;
-  verdict: string;
-  reasoning: string;
-  days: StructuredPlanDay[];
+  savedAt: string;
+  action: PlanWeekAction;
+  table: PlanTable;
 };
 type SavedPlan = {
   id: string;
@@ -86,8 +201,25 @@ type SavedPlan = {
   longRunDay: LongRunOption;
   distanceUnit: DistanceUnitOption;
   planStartDate: string;
+  raceDate?: string;
+  tuneUpRaces?: SeasonRace[];
   response: string;
   tables: PlanTable[];
+  weekHistory?: PlanWeekVersion[];
+  lastAdaptedWeek?: number;
+  pacing?: PlanPacing;
+};
+type PlanPacing = {
+  mode: PacingMode;
+  recentRaceGoal: GoalOption;
+  recentRaceTime: string;
+};
+type AdaptationProposal = {
+  reviewedWeek: number;
+  fromWeek: number;
+  tables: PlanTable[];
+  diffs: PlanWeekDiff[];
+  notes: string[];
 };
 type WorkoutCheckin = {
   completedAt: string;
@@ -95,13 +227,45 @@ type WorkoutCheckin = {
   soreness: number;
   sleepQuality: number;
   notes: string;
+  actualDistanceKm?: number;
+  actualDurationMinutes?: number;
 };
 type CompletionMap = Record<string, WorkoutCheckin>;
+// Calendar event identifiers by plan id, then by completion key.
+type CalendarEventMap = Record<string, Record<string, string>>;
+type KeyedCalendarEvent = {
+  week: number;
+  day: string;
+  event: CalendarWorkoutEvent;
+};
+type SetupPreferences = {
+  lookbackDays: LookbackDaysOption;
+  runningLevel: RunningLevelOption;
+  selectedGoal: GoalOption;
+  planLengthWeeks: number;
+  targetHours: string;
+  targetMinutes: string;
+  targetSeconds: string;
+  runDaysPerWeek: string;
+  longRunDay: LongRunOption;
+  distanceUnit: DistanceUnitOption;
+  athleteAge: string;
+  fieldTestMaxHr: string;
+  fieldTestThresholdHr: string;
+  recentRaceGoal: GoalOption;
+  recentRaceTime: string;
+  pacingMode: PacingMode;
+  modelProviderId: CoachModelProviderId;
+  modelServerUrl: string;
+  modelServerModel: string;
+};
 type CalendarWeekCell = {
   dayName: string;
   workoutType: string;
   details: string;
   isRest: boolean;
+  isRace: boolean;
+  segmentLines: string[];
 };
 type CalendarWeekRow = {
   title: string;
@@ -112,28 +276,290 @@ type SelectedCalendarCell = {
   dayName: string;
   workoutType: string;
   details: string;
+  isRace: boolean;
+  segmentLines: string[];
 };
 const TABLE_COLUMN_WIDTHS = [80, 110, 130, 220, 220];
-const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
-const STORAGE_PLANS_KEY = 'frunna_saved_plans_v1';
-const STORAGE_COMPLETIONS_KEY = 'frunna_completions_v1';
-const DAY_INDEX: Record<string, number> = {
-  monday: 0,
-  mon: 0,
-  tuesday: 1,
-  tue: 1,
-  tues: 1,
-  wednesday: 2,
-  wed: 2,
-  thursday: 3,
-  thu: 3,
-  thurs: 3,
-  friday: 4,
-  fri: 4,
-  saturday: 5,
-  sat: 5,
-  sunday: 6,
-  sun: 6,
+const PACING_MODE_LABELS: Record<PacingMode, string> = {
+  target: 'Target-based',
+  fitness: 'Fitness-based',
+};
+const VDOT_PACE_LABELS: Record<VdotPaceKey, string> = {
+  easy: 'Easy',
+  marathon: 'Marathon',
+  threshold: 'Threshold',
+  interval: 'Interval',
+  repetition: 'Repetition',
+};
+const isOption = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (options as readonly string[]).includes(value);
+const isTextList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string');
+const planTableProblem = (table: unknown): string | null => {
+  if (!isRecord(table) || !isTextList(table.headers) || !table.headers.length) {
+    return 'table headers must be text';
+  }
+  const width = table.headers.length;
+  if (!Array.isArray(table.rows) || !table.rows.every((row) => isTextList(row) && row.length === width)) {
+    return 'table rows must be text cells matching the headers';
+  }
+  if (table.workouts !== undefined) {
+    if (!Array.isArray(table.workouts) || table.workouts.length !== table.rows.length) {
+      return 'workouts do not line up with the table rows';
+    }
+    const workoutError = table.workouts.flatMap((workout, index) => validateStoredWorkout(workout, `workouts[${index}]`))[0];
+    if (workoutError) {
+      return `${workoutError.path}: ${workoutError.message}`;
+    }
+  }
+  if (
+    table.paceCorrections !== undefined &&
+    !(Array.isArray(table.paceCorrections) && table.paceCorrections.every((entry) => entry === null || typeof entry === 'string'))
+  ) {
+    return 'malformed pace corrections';
+  }
+  return null;
+};
+const seasonRaceProblem = (race: unknown): string | null =>
+  isRecord(race) &&
+  typeof race.id === 'string' &&
+  isOption(GOAL_OPTIONS, race.goal) &&
+  typeof race.date === 'string' &&
+  isOption(TUNE_UP_PRIORITY_OPTIONS, race.priority)
+    ? null
+    : 'malformed tune-up race';
+const weekVersionProblem = (version: unknown): string | null => {
+  if (
+    !isRecord(version) ||
+    typeof version.week !== 'number' ||
+    typeof version.savedAt !== 'string' ||
+    !isOption(PLAN_WEEK_ACTIONS, version.action)
+  ) {
+    return 'malformed week history entry';
+  }
+  const tableProblem = planTableProblem(version.table);
+  return tableProblem ? `week history: ${tableProblem}` : null;
+};
+const savedPlanProblem = (plan: unknown): string | null => {
+  if (!isRecord(plan)) {
+    return 'not an object';
+  }
+  if (typeof plan.id !== 'string' || typeof plan.createdAt !== 'string' || typeof plan.planStartDate !== 'string') {
+    return 'missing id or dates';
+  }
+  if (plan.raceDate !== undefined && typeof plan.raceDate !== 'string') {
+    return 'malformed race date';
+  }
+  if (!isOption(GOAL_OPTIONS, plan.goal) || !isOption(DISTANCE_UNIT_OPTIONS, plan.distanceUnit)) {
+    return 'unknown goal or distance unit';
+  }
+  if (!TRAIN_DAYS_OPTIONS.some((days) => String(days) === plan.runDaysPerWeek) || !isOption(LONG_RUN_OPTIONS, plan.longRunDay)) {
+    return 'unknown run days or long run day';
+  }
+  if (typeof plan.planLengthWeeks !== 'number' || typeof plan.response !== 'string') {
+    return 'missing plan length or response';
+  }
+  if (plan.lastAdaptedWeek !== undefined && typeof plan.lastAdaptedWeek !== 'number') {
+    return 'malformed last adapted week';
+  }
+  if (
+    plan.pacing !== undefined &&
+    !(
+      isRecord(plan.pacing) &&
+      isOption(PACING_MODES, plan.pacing.mode) &&
+      isOption(GOAL_OPTIONS, plan.pacing.recentRaceGoal) &&
+      typeof plan.pacing.recentRaceTime === 'string'
+    )
+  ) {
+    return 'malformed pacing settings';
+  }
+  const tuneUpRaces = plan.tuneUpRaces ?? [];
+  const weekHistory = plan.weekHistory ?? [];
+  if (!Array.isArray(plan.tables) || !Array.isArray(tuneUpRaces) || !Array.isArray(weekHistory)) {
+    return 'missing week tables, tune-up races or week history';
+  }
+  const problems = [
+    ...plan.tables.map(planTableProblem),
+    ...tuneUpRaces.map(seasonRaceProblem),
+    ...weekHistory.map(weekVersionProblem),
+  ];
+  return problems.find(Boolean) ?? null;
+};
+const validateSavedPlans = (data: unknown): StorageValidation<SavedPlan[]> => {
+  if (!Array.isArray(data)) {
+    return { ok: false, error: 'expected a list of plans' };
+  }
+  const checked = data.map((plan) => ({ plan, problem: savedPlanProblem(plan) }));
+  return {
+    ok: true,
+    value: checked.filter((entry) => entry.problem === null).map((entry) => entry.plan as SavedPlan),
+    rejected: checked.flatMap((entry, index) =>
+      entry.problem === null ? [] : [{ reason: `plan ${index + 1}: ${entry.problem}`, data: entry.plan }]
+    ),
+  };
+};
+const checkinProblem = (checkin: unknown): string | null =>
+  isRecord(checkin) &&
+  typeof checkin.completedAt === 'string' &&
+  typeof checkin.rpe === 'number' &&
+  typeof checkin.soreness === 'number' &&
+  typeof checkin.sleepQuality === 'number' &&
+  typeof checkin.notes === 'string'
+    ? null
+    : 'missing date, ratings, or notes';
+const validateCompletions = (data: unknown): StorageValidation<CompletionMap> => {
+  if (!isRecord(data)) {
+    return { ok: false, error: 'expected check-ins keyed by workout' };
+  }
+  const invalidKey = Object.keys(data).find((key) => checkinProblem(data[key]) !== null);
+  return invalidKey === undefined
+    ? { ok: true, value: data as CompletionMap }
+    : { ok: false, error: `check-in ${invalidKey} is malformed` };
+};
+const SAVED_PLANS_SCHEMA: StorageSchema<SavedPlan[]> = {
+  label: 'plans',
+  key: 'frunna_saved_plans',
+  legacyKey: 'frunna_saved_plans_v1',
+  version: 2,
+  migrations: [
+    {
+      // Plans saved before week history and tune-up races existed.
+      fromVersion: 1,
+      migrate: (data) =>
+        Array.isArray(data)
+          ? data.map((plan) =>
+              isRecord(plan) ? { ...plan, tuneUpRaces: plan.tuneUpRaces ?? [], weekHistory: plan.weekHistory ?? [] } : plan
+            )
+          : data,
+    },
+  ],
+  validate: validateSavedPlans,
+};
+const COMPLETIONS_SCHEMA: StorageSchema<CompletionMap> = {
+  label: 'check-ins',
+  key: 'frunna_completions',
+  legacyKey: 'frunna_completions_v1',
+  version: 2,
+  migrations: [
+    {
+      // Early check-ins were written without a notes field.
+      fromVersion: 1,
+      migrate: (data) =>
+        isRecord(data)
+          ? Object.fromEntries(
+              Object.entries(data).map(([key, checkin]) => [
+                key,
+                isRecord(checkin) ? { ...checkin, notes: typeof checkin.notes === 'string' ? checkin.notes : '' } : checkin,
+              ])
+            )
+          : data,
+    },
+  ],
+  validate: validateCompletions,
+};
+const validateCalendarEvents = (data: unknown): StorageValidation<CalendarEventMap> => {
+  if (!isRecord(data)) {
+    return { ok: false, error: 'expected event ids keyed by plan' };
+  }
+  const invalidPlan = Object.keys(data).find((planId) => {
+    const events = data[planId];
+    return !isRecord(events) || !Object.values(events).every((eventId) => typeof eventId === 'string');
+  });
+  return invalidPlan === undefined
+    ? { ok: true, value: data as CalendarEventMap }
+    : { ok: false, error: `calendar events for plan ${invalidPlan} are malformed` };
+};
+const CALENDAR_EVENTS_SCHEMA: StorageSchema<CalendarEventMap> = {
+  label: 'calendar events',
+  key: 'frunna_calendar_events',
+  version: 1,
+  migrations: [],
+  validate: validateCalendarEvents,
+};
+const SETUP_TEXT_FIELDS = [
+  'targetHours',
+  'targetMinutes',
+  'targetSeconds',
+  'runDaysPerWeek',
+  'athleteAge',
+  'fieldTestMaxHr',
+  'fieldTestThresholdHr',
+  'recentRaceTime',
+  'modelServerUrl',
+  'modelServerModel',
+] as const;
+// Fields that fail validation are dropped individually so one bad value doesn't discard the whole form.
+const validateSetupPreferences = (data: unknown): StorageValidation<Partial<SetupPreferences>> => {
+  if (!isRecord(data)) {
+    return { ok: false, error: 'expected a settings object' };
+  }
+  const preferences: Partial<SetupPreferences> = {};
+  SETUP_TEXT_FIELDS.forEach((field) => {
+    const value = data[field];
+    if (typeof value === 'string') {
+      preferences[field] = value;
+    }
+  });
+  if (LOOKBACK_DAY_OPTIONS.some((days) => days === data.lookbackDays)) {
+    preferences.lookbackDays = data.lookbackDays as LookbackDaysOption;
+  }
+  if (typeof data.planLengthWeeks === 'number' && data.planLengthWeeks > 0) {
+    preferences.planLengthWeeks = data.planLengthWeeks;
+  }
+  if (isOption(RUNNING_LEVEL_OPTIONS, data.runningLevel)) {
+    preferences.runningLevel = data.runningLevel;
+  }
+  if (isOption(GOAL_OPTIONS, data.selectedGoal)) {
+    preferences.selectedGoal = data.selectedGoal;
+  }
+  if (isOption(GOAL_OPTIONS, data.recentRaceGoal)) {
+    preferences.recentRaceGoal = data.recentRaceGoal;
+  }
+  if (isOption(LONG_RUN_OPTIONS, data.longRunDay)) {
+    preferences.longRunDay = data.longRunDay;
+  }
+  if (isOption(DISTANCE_UNIT_OPTIONS, data.distanceUnit)) {
+    preferences.distanceUnit = data.distanceUnit;
+  }
+  if (isOption(PACING_MODES, data.pacingMode)) {
+    preferences.pacingMode = data.pacingMode;
+  }
+  if (isOption(COACH_MODEL_PROVIDER_IDS, data.modelProviderId)) {
+    preferences.modelProviderId = data.modelProviderId;
+  }
+  return { ok: true, value: preferences };
+};
+const SETUP_PREFERENCES_SCHEMA: StorageSchema<Partial<SetupPreferences>> = {
+  label: 'setup preferences',
+  key: 'frunna_setup_preferences',
+  version: 1,
+  migrations: [],
+  validate: validateSetupPreferences,
+};
+const MAX_WEEK_HISTORY = 20;
+const MAX_SAVED_PLANS = 12;
+// The storage module methods are iOS-only; elsewhere plans and check-ins live in memory for the session.
+const NATIVE_STORAGE_AVAILABLE = Platform.OS === 'ios';
+const ICS_REMINDER_OPTIONS = [0, 30, 60, 720] as const;
+type IcsReminderOption = (typeof ICS_REMINDER_OPTIONS)[number];
+const ICS_REMINDER_LABELS: Record<IcsReminderOption, string> = {
+  0: 'No reminder',
+  30: '30 min before',
+  60: '1 h before',
+  720: '12 h before',
+};
+const LOAD_CHART_DAYS = 28;
+const LOAD_RISK_COLORS: Record<LoadRisk, string> = {
+  unknown: '#3b5673',
+  low: '#5b7a99',
+  optimal: '#27e4dc',
+  elevated: '#f5a524',
+  high: '#ef4444',
+};
+const READINESS_LEVEL_LABELS: Record<ReadinessLevel, string> = {
+  good: 'Good',
+  fair: 'Fair',
+  low: 'Low',
 };
 
 const average = (values: number[]): number => {
@@ -165,7 +591,33 @@ const trendLine = (label: string, values: number[], unit: string): string => {
   return `${label}: ${recent.toFixed(1)} ${unit} recent avg (${direction} ${Math.abs(deltaPercent).toFixed(1)}% vs prior period)`;
 };
 
-const summarizeWorkouts = (summary: HealthSummary, lookbackDays: number): string[] => {
+const describeWorkoutDetail = (workout: WorkoutRow, distanceUnit: DistanceUnit): string => {
+  const unitLabel = distanceUnit === 'miles' ? 'mi' : 'km';
+  const distance = workout.distanceKm
+    ? distanceUnit === 'miles'
+      ? workout.distanceKm * 0.621371
+      : workout.distanceKm
+    : 0;
+  const splits = distanceUnit === 'miles' ? workout.splitsMiles : workout.splitsKm;
+  const fullSplits = (splits ?? []).filter((split) => split.distance >= 1).slice(0, 12);
+  return [
+    distance ? `${distance.toFixed(2)} ${unitLabel}` : '',
+    workout.averagePaceSecondsPerKm
+      ? `@ ${formatPace(
+          distanceUnit === 'miles' ? workout.averagePaceSecondsPerKm * 1.609344 : workout.averagePaceSecondsPerKm
+        )}/${unitLabel}`
+      : '',
+    workout.averageHeartRateBpm
+      ? `HR ${workout.averageHeartRateBpm}${workout.maxHeartRateBpm ? `/${workout.maxHeartRateBpm}` : ''} bpm`
+      : '',
+    workout.elevationGainMeters ? `+${workout.elevationGainMeters}m` : '',
+    fullSplits.length ? `splits ${fullSplits.map((split) => formatPace(split.durationSeconds)).join(' ')}` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+};
+
+const summarizeWorkouts = (summary: HealthSummary, distanceUnit: DistanceUnit, lookbackDays: number): string[] => {
   if (!summary.workouts.length) {
     return ['No workouts logged in this period.'];
   }
@@ -185,11 +637,25 @@ const summarizeWorkouts = (summary: HealthSummary, lookbackDays: number): string
     .map(([activity, count]) => `${activity} x${count}`)
     .join(', ');
 
+  const runs = summary.workouts.filter((workout) => isRunningWorkout(workout) && (workout.distanceKm ?? 0) > 0);
+  const runKm = runs.reduce((sum, workout) => sum + (workout.distanceKm ?? 0), 0);
+  const runMinutes = runs.reduce((sum, workout) => sum + workout.durationMinutes, 0);
+  const unitLabel = distanceUnit === 'miles' ? 'mi' : 'km';
+  const runDistance = distanceUnit === 'miles' ? runKm * 0.621371 : runKm;
+  const runSummary = runs.length
+    ? `Running: ${runs.length} runs, ${runDistance.toFixed(1)} ${unitLabel} total at an average ${formatPace(
+        (runMinutes * 60) / runDistance
+      )}/${unitLabel}.`
+    : '';
+
   const recentSessions = summary.workouts
     .slice(0, 6)
     .map((workout) => {
       const date = workout.date.slice(0, 10);
-      return `${date}: ${workout.activityType}, ${workout.durationMinutes}min, ${workout.energyKilocalories}kcal`;
+      const detail = describeWorkoutDetail(workout, distanceUnit);
+      return `${date}: ${workout.activityType}, ${workout.durationMinutes}min, ${workout.energyKilocalories}kcal${
+        detail ? `, ${detail}` : ''
+      }`;
     });
 
   return [
@@ -197,198 +663,59 @@ const summarizeWorkouts = (summary: HealthSummary, lookbackDays: number): string
     `Total workout time ${totalMinutes} min (avg ${avgMinutes.toFixed(0)} min per session).`,
     `Total workout energy ${totalKcal} kcal.`,
     `Most frequent sessions: ${topActivities || 'none'}.`,
+    runSummary,
     'Recent sessions:',
     ...recentSessions,
-  ];
-};
-
-const parseCells = (line: string) =>
-  line
-    .slice(1, -1)
-    .split('|')
-    .map((cell) => cell.trim());
-
-const parseMarkdownTables = (text: string): PlanTable[] => {
-  const rawLines = text.split('\n').map((line) => line.trim());
-  const tables: PlanTable[] = [];
-  let index = 0;
-
-  while (index < rawLines.length) {
-    if (!(rawLines[index].startsWith('|') && rawLines[index].endsWith('|'))) {
-      index += 1;
-      continue;
-    }
-
-    const block: string[] = [];
-    while (index < rawLines.length && rawLines[index].startsWith('|') && rawLines[index].endsWith('|')) {
-      block.push(rawLines[index]);
-      index += 1;
-    }
-
-    if (block.length < 3 || !block[1].includes('---')) {
-      continue;
-    }
-
-    const headers = parseCells(block[0]);
-    const rows = block
-      .slice(2)
-      .map(parseCells)
-      .map((row) => {
-        if (row.length === headers.length) {
-          return row;
-        }
-        if (row.length > headers.length) {
-          const normalized = row.slice(0, headers.length - 1);
-          normalized.push(row.slice(headers.length - 1).join(' | '));
-          return normalized;
-        }
-        return [...row, ...Array.from({ length: headers.length - row.length }, () => '')];
-      })
-      .filter((row) => row.length === headers.length);
-
-    if (rows.length) {
-      tables.push({ headers, rows });
-    }
-  }
-
-  return tables;
-};
-
-const normalizeDayName = (value: string): string | null => {
-  const normalized = value.trim().toLowerCase();
-  const index = DAY_INDEX[normalized];
-  return index === undefined ? null : WEEKDAY_NAMES[index];
-};
-
-const parseWeekJsonFromText = (text: string, expectedWeek: number): StructuredPlanWeek | null => {
-  const trimmed = text.trim();
-  if (!trimmed) {
-    return null;
-  }
-
-  const withoutFence = trimmed
-    .replace(/^```json/i, '')
-    .replace(/^```/i, '')
-    .replace(/```$/i, '')
-    .trim();
-
-  const firstBrace = withoutFence.indexOf('{');
-  const lastBrace = withoutFence.lastIndexOf('}');
-  if (firstBrace === -1 || lastBrace === -1 || lastBrace <= firstBrace) {
-    return null;
-  }
-
-  const candidate = withoutFence.slice(firstBrace, lastBrace + 1);
-
-  try {
-    const parsed = JSON.parse(candidate) as {
-      week?: number;
-      verdict?: string;
-      reasoning?: string;
-      days?: Array<{
-        day?: string;
-        workoutType?: string;
-        details?: string;
-        rationale?: string;
-      }>;
-    };
-
-    if (!Array.isArray(parsed.days)) {
-      return null;
-    }
-
-    const byDay = new Map<string, StructuredPlanDay>();
-    parsed.days.forEach((entry) => {
-      const normalizedDay = normalizeDayName(entry.day ?? '');
-      if (!normalizedDay || byDay.has(normalizedDay)) {
-        return;
-      }
-      byDay.set(normalizedDay, {
-        day: normalizedDay,
-        workoutType: (entry.workoutType ?? 'Rest Day').trim() || 'Rest Day',
-        details: (entry.details ?? '').trim() || 'Recovery / mobility',
-        rationale: (entry.rationale ?? '').trim() || 'Load management',
-      });
-    });
-
-    const days: StructuredPlanDay[] = WEEKDAY_NAMES.map((day) => {
-      const existing = byDay.get(day);
-      if (existing) {
-        return existing;
-      }
-      return {
-        day,
-        workoutType: 'Rest Day',
-        details: 'Recovery / mobility',
-        rationale: 'Load management',
-      };
-    });
-
-    return {
-      week: Number.isFinite(parsed.week) ? Number(parsed.week) : expectedWeek,
-      verdict: (parsed.verdict ?? 'Maintenance').trim() || 'Maintenance',
-      reasoning: (parsed.reasoning ?? 'Balanced load and recovery.').trim() || 'Balanced load and recovery.',
-      days,
-    };
-  } catch {
-    return null;
-  }
+  ].filter(Boolean);
 };
 
-const structuredWeekToTable = (weekPlan: StructuredPlanWeek): PlanTable => ({
-  headers: ['Week', 'Day', 'Workout Type', 'Details (Distance/Pace/Zone)', 'Rationale'],
-  rows: weekPlan.days.map((day) => [
-    `Week ${weekPlan.week}`,
-    day.day,
-    day.workoutType,
-    day.details,
-    day.rationale,
-  ]),
+const buildHealthTrends = (summary: HealthSummary, distanceUnit: DistanceUnit, lookbackDays: number) => ({
+  stepTrend: trendLine(
+    'Daily steps',
+    summary.steps.filter((row) => row.steps > 0).map((row) => row.steps),
+    'steps'
+  ),
+  restingHrTrend: trendLine(
+    'Resting HR',
+    summary.restingHeartRate.filter((row) => row.restingBpm > 0).map((row) => row.restingBpm),
+    'bpm'
+  ),
+  sleepTrend: trendLine(
+    'Sleep duration',
+    summary.sleep.filter((row) => row.hoursAsleep > 0).map((row) => row.hoursAsleep),
+    'hours'
+  ),
+  hrvTrend: trendLine(
+    'HRV',
+    summary.hrv.filter((row) => row.hrvMs > 0).map((row) => row.hrvMs),
+    'ms'
+  ),
+  vo2Trend: trendLine(
+    'VO2 max',
+    summary.vo2Max.filter((row) => row.vo2Max > 0).map((row) => row.vo2Max),
+    'ml/kg/min'
+  ),
+  distanceTrend: trendLine(
+    'Walking/running distance',
+    summary.distanceWalkingRunning
+      .filter((row) => row.distanceKm > 0)
+      .map((row) => (distanceUnit === 'miles' ? row.distanceKm * 0.621371 : row.distanceKm)),
+    distanceUnit
+  ),
+  workoutNarrative: summarizeWorkouts(summary, distanceUnit, lookbackDays),
 });
 
-const tableToStructuredWeek = (table: PlanTable, fallbackWeek: number): StructuredPlanWeek => {
-  const weekIndex = table.headers.findIndex((header) => header.toLowerCase() === 'week');
-  const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
-  const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
-  const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
-  const rationaleIndex = table.headers.findIndex((header) => header.toLowerCase().includes('rationale'));
-
-  const parsedWeek =
-    weekIndex === -1
-      ? fallbackWeek
-      : extractWeekNumber(table.rows.find((row) => row[weekIndex])?.[weekIndex] ?? `Week ${fallbackWeek}`, fallbackWeek);
-
-  const byDay = new Map<string, StructuredPlanDay>();
-  table.rows.forEach((row) => {
-    const normalizedDay = normalizeDayName(row[dayIndex] ?? '');
-    if (!normalizedDay || byDay.has(normalizedDay)) {
-      return;
-    }
-    byDay.set(normalizedDay, {
-      day: normalizedDay,
-      workoutType: row[workoutIndex] ?? 'Rest Day',
-      details: row[detailsIndex] ?? '',
-      rationale: row[rationaleIndex] ?? '',
-    });
-  });
-
-  return {
-    week: parsedWeek,
-    verdict: 'Maintenance',
-    reasoning: 'Generated via fallback parsing.',
-    days: WEEKDAY_NAMES.map((day) => {
-      const existing = byDay.get(day);
-      if (existing) {
-        return existing;
-      }
-      return {
-        day,
-        workoutType: 'Rest Day',
-        details: 'Recovery / mobility',
-        rationale: 'Load management',
-      };
-    }),
-  };
+const weekChangeNote = (label: string, change: GuardedWeek & { fallbackReason?: string | null }): string => {
+  const notes = [
+    change.fallbackReason ? 'rule-based fallback' : '',
+    change.loadAdjustments.length
+      ? `${change.loadAdjustments.length} load adjustment${change.loadAdjustments.length === 1 ? '' : 's'}`
+      : '',
+    change.paceCorrections.length
+      ? `${change.paceCorrections.length} pace${change.paceCorrections.length === 1 ? '' : 's'} corrected`
+      : '',
+  ].filter(Boolean);
+  return notes.length ? `${label} (${notes.join(', ')})` : label;
 };
 
 const buildAdaptationContext = (activePlanId: string | null, completions: CompletionMap): string => {
@@ -431,18 +758,133 @@ const buildAdaptationContext = (activePlanId: string | null, completions: Comple
   ].join('\n');
 };
 
+const workoutFileSession = (session: PlannedSession): WorkoutFileSession => ({
+  name: `W${session.week} ${session.day.slice(0, 3)} ${session.workoutType}`,
+  date: session.date,
+  workout: session.workout,
+});
+
 const completionKey = (planId: string, weekNumber: number, dayName: string): string =>
   `${planId}:week-${weekNumber}:${dayName.toLowerCase()}`;
 
-const buildCalendarWeekRows = (tables: DisplayPlanTable[]): CalendarWeekRow[] =>
+const buildCheckinLoads = (
+  tables: PlanTable[],
+  completions: CompletionMap,
+  planId: string | null,
+  distanceUnit: DistanceUnit
+): LoadCheckin[] =>
+  Object.entries(completions).flatMap(([key, checkin]) => {
+    const match = key.match(/^(.+):week-(\d+):(\w+)$/);
+    if (!match || (planId && match[1] !== planId)) {
+      return [];
+    }
+    const table = tables[findWeekTableIndex(tables, Number.parseInt(match[2], 10))];
+    const dayIndex = table?.headers.findIndex((header) => header.toLowerCase() === 'day') ?? -1;
+    const rowIndex = table ? table.rows.findIndex((row) => (row[dayIndex] ?? '').toLowerCase() === match[3]) : -1;
+    const planned = table && rowIndex !== -1 ? workoutDurationMinutes(workoutForRow(table, rowIndex), distanceUnit) : 0;
+    return [
+      {
+        date: checkin.completedAt,
+        rpe: checkin.rpe,
+        plannedDurationMinutes: checkin.actualDurationMinutes || planned || 45,
+      },
+    ];
+  });
+
+const heartRateProfile = (model: HeartRateZoneModel | null): HeartRateProfile | undefined =>
+  model?.restingBpm ? { restingBpm: model.restingBpm, maxBpm: model.maxBpm } : undefined;
+
+const buildSessionComparisons = (
+  reconciliation: WorkoutReconciliation,
+  completions: CompletionMap,
+  planId: string | null,
+  distanceUnit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[]
+): SessionComparison[] =>
+  reconciliation.sessions.flatMap((match) => {
+    if (match.status !== 'completed') {
+      return [];
+    }
+    const checkin = planId ? completions[completionKey(planId, match.session.week, match.session.day)] : undefined;
+    const actual = match.workout
+      ? actualFromHealthWorkout(match.workout)
+      : checkin?.actualDistanceKm || checkin?.actualDurationMinutes
+        ? { source: 'manual' as const, distanceKm: checkin.actualDistanceKm, durationMinutes: checkin.actualDurationMinutes }
+        : null;
+    const comparison = actual ? compareWorkout(match.session.workout, actual, distanceUnit, heartRateZones) : null;
+    return comparison
+      ? [{ week: match.session.week, day: match.session.day, workoutType: match.session.workoutType, comparison }]
+      : [];
+  });
+
+const buildTrainingLoad = (
+  summary: HealthSummary | null,
+  tables: PlanTable[],
+  completions: CompletionMap,
+  planId: string | null,
+  distanceUnit: DistanceUnit,
+  profile?: HeartRateProfile
+): TrainingLoadSnapshot[] => {
+  const sessions = buildLoadSessions(
+    summary?.workouts ?? [],
+    buildCheckinLoads(tables, completions, planId, distanceUnit),
+    profile
+  );
+  if (!sessions.length) {
+    return [];
+  }
+  const today = new Date();
+  const todayKey = new Date(today.getTime() - today.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+  const dailyLoads = buildDailyLoads(sessions, todayKey, LOAD_CHART_DAYS + TRAINING_LOAD_SETTINGS.chronicDays);
+  return trainingLoadSeries(dailyLoads, sessions[0].date).slice(-LOAD_CHART_DAYS);
+};
+
+const formatActualWorkout = (match: SessionMatch, distanceUnit: DistanceUnit): string => {
+  const workout = match.workout;
+  if (!workout) {
+    return '';
+  }
+  const distance = workout.distanceKm ? (distanceUnit === 'miles' ? workout.distanceKm * 0.621371 : workout.distanceKm) : 0;
+  return distance ? `${distance.toFixed(1)} ${distanceUnit} in ${workout.durationMinutes} min` : `${workout.durationMinutes} min`;
+};
+
+const buildAdherenceContext = (
+  reconciliation: WorkoutReconciliation,
+  distanceUnit: DistanceUnit,
+  throughWeek: number
+): string => {
+  const weeks = Array.from(new Set(reconciliation.sessions.map((match) => match.session.week)))
+    .filter((week) => week <= throughWeek)
+    .sort((a, b) => a - b);
+  const lines = weeks.map((week) => {
+    const planned = reconciliation.sessions.filter((match) => match.session.week === week);
+    const missed = planned.filter((match) => match.status === 'missed');
+    const missedText = missed.map((match) => `${match.session.day} ${match.session.workoutType}`).join(', ');
+    const actualText = planned
+      .filter((match) => match.workout?.distanceKm)
+      .map((match) => `${match.session.day} ${formatActualWorkout(match, distanceUnit)}`)
+      .join('; ');
+    return `Week ${week}: completed ${planned.length - missed.length}/${planned.length} planned sessions${
+      missed.length ? ` (missed: ${missedText})` : ''
+    }.${actualText ? ` Actual: ${actualText}.` : ''}`;
+  });
+  const extras = reconciliation.extras.length ? [`Unplanned runs logged: ${reconciliation.extras.length}.`] : [];
+  return lines.length ? ['Planned vs completed so far:', ...lines, ...extras].join('\n') : '';
+};
+
+const buildCalendarWeekRows = (
+  tables: DisplayPlanTable[],
+  distanceUnit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[]
+): CalendarWeekRow[] =>
   tables.map((table) => {
     const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
     const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
     const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
 
-    const dayMap = new Map<string, { workoutType: string; details: string }>();
+    const dayMap = new Map<string, { workoutType: string; details: string; workout: StructuredWorkout }>();
     if (dayIndex !== -1 && workoutIndex !== -1) {
-      table.rows.forEach((row) => {
+      table.rows.forEach((row, rowIndex) => {
         const normalizedDay = normalizeDayName(row[dayIndex] ?? '');
         if (!normalizedDay || dayMap.has(normalizedDay)) {
           return;
@@ -450,6 +892,7 @@ const buildCalendarWeekRows = (tables: DisplayPlanTable[]): CalendarWeekRow[] =>
         dayMap.set(normalizedDay, {
           workoutType: row[workoutIndex] ?? 'Rest Day',
           details: detailsIndex === -1 ? '' : row[detailsIndex] ?? '',
+          workout: workoutForRow(table, rowIndex),
         });
       });
     }
@@ -461,7 +904,9 @@ const buildCalendarWeekRows = (tables: DisplayPlanTable[]): CalendarWeekRow[] =>
         dayName,
         workoutType,
         details: value?.details ?? '',
-        isRest: isRestLikeWorkout(workoutType),
+        isRest: value ? value.workout.category === 'rest' : true,
+        isRace: value ? value.workout.category === 'race' : false,
+        segmentLines: value ? describeWorkoutSegments(value.workout, distanceUnit, heartRateZones) : [],
       };
     });
 
@@ -481,24 +926,28 @@ const buildDisplayTables = (tables: PlanTable[]): DisplayPlanTable[] => {
         title: `Plan ${tableIndex + 1}`,
         headers: table.headers,
         rows: table.rows,
+        workouts: table.workouts,
+        paceCorrections: table.paceCorrections,
       });
       return;
     }
 
-    const groupedRows = table.rows.reduce<Record<string, string[][]>>((acc, row) => {
+    const groupedRows = table.rows.reduce<Record<string, number[]>>((acc, row, rowIndex) => {
       const weekKey = row[weekColumnIndex] || `Week ${tableIndex + 1}`;
       acc[weekKey] = acc[weekKey] ?? [];
-      acc[weekKey].push(row);
+      acc[weekKey].push(rowIndex);
       return acc;
     }, {});
 
     const headersWithoutWeek = table.headers.filter((_, index) => index !== weekColumnIndex);
 
-    Object.entries(groupedRows).forEach(([weekTitle, rows]) => {
+    Object.entries(groupedRows).forEach(([weekTitle, rowIndexes]) => {
       output.push({
         title: weekTitle,
         headers: headersWithoutWeek,
-        rows: rows.map((row) => row.filter((_, index) => index !== weekColumnIndex)),
+        rows: rowIndexes.map((rowIndex) => table.rows[rowIndex].filter((_, index) => index !== weekColumnIndex)),
+        workouts: rowIndexes.map((rowIndex) => workoutForRow(table, rowIndex)),
+        paceCorrections: rowIndexes.map((rowIndex) => table.paceCorrections?.[rowIndex] ?? null),
       });
     });
   });
@@ -518,40 +967,15 @@ const nextMonday = (): Date => {
   return start;
 };
 
-const extractWeekNumber = (title: string, fallback: number): number => {
-  const match = title.match(/week\s+(\d+)/i);
-  if (!match) {
-    return fallback;
-  }
-  const parsed = Number.parseInt(match[1], 10);
-  return Number.isFinite(parsed) ? parsed : fallback;
-};
-
-const isRestLikeWorkout = (workoutType: string): boolean => {
-  const normalized = workoutType.toLowerCase();
-  return normalized.includes('rest') || normalized.includes('off');
-};
-
-const estimatedDurationMinutes = (workoutType: string): number => {
-  const normalized = workoutType.toLowerCase();
-  if (normalized.includes('long')) {
-    return 90;
-  }
-  if (normalized.includes('interval') || normalized.includes('tempo') || normalized.includes('speed')) {
-    return 70;
-  }
-  if (normalized.includes('recovery') || normalized.includes('easy')) {
-    return 50;
-  }
-  if (normalized.includes('strength')) {
-    return 45;
-  }
-  return 60;
-};
 
-const toCalendarEvents = (tables: DisplayPlanTable[], planStartDateIso?: string): CalendarWorkoutEvent[] => {
+const toCalendarEvents = (
+  tables: DisplayPlanTable[],
+  distanceUnit: DistanceUnit,
+  planStartDateIso?: string,
+  heartRateZones?: HeartRateZoneRange[]
+): KeyedCalendarEvent[] => {
   const planStartMonday = planStartDateIso ? new Date(planStartDateIso) : nextMonday();
-  const events: CalendarWorkoutEvent[] = [];
+  const events: KeyedCalendarEvent[] = [];
 
   tables.forEach((table, tableIndex) => {
     const weekNumber = extractWeekNumber(table.title, tableIndex + 1);
@@ -565,7 +989,7 @@ const toCalendarEvents = (tables: DisplayPlanTable[], planStartDateIso?: string)
       return;
     }
 
-    table.rows.forEach((row) => {
+    table.rows.forEach((row, rowIndex) => {
       const dayLabel = (row[dayIndex] ?? '').trim().toLowerCase();
       const dayOffset = DAY_INDEX[dayLabel];
       if (dayOffset === undefined) {
@@ -573,7 +997,8 @@ const toCalendarEvents = (tables: DisplayPlanTable[], planStartDateIso?: string)
       }
 
       const workoutType = row[workoutTypeIndex] ?? 'Run';
-      if (isRestLikeWorkout(workoutType)) {
+      const workout = workoutForRow(table, rowIndex);
+      if (workout.category === 'rest') {
         return;
       }
 
@@ -584,14 +1009,18 @@ const toCalendarEvents = (tables: DisplayPlanTable[], planStartDateIso?: string)
       startDate.setHours(7, 0, 0, 0);
 
       const endDate = new Date(startDate);
-      endDate.setMinutes(endDate.getMinutes() + estimatedDurationMinutes(workoutType));
+      endDate.setMinutes(endDate.getMinutes() + workoutDurationMinutes(workout, distanceUnit));
 
-      const notesParts = [details, rationale].filter(Boolean);
+      const notesParts = [details, ...describeWorkoutSegments(workout, distanceUnit, heartRateZones), rationale].filter(Boolean);
       events.push({
-        title: `Frunna W${weekNumber}: ${workoutType}`,
-        startDate: startDate.toISOString(),
-        endDate: endDate.toISOString(),
-        notes: notesParts.join('\n'),
+        week: weekNumber,
+        day: dayLabel,
+        event: {
+          title: `Frunna W${weekNumber}: ${workoutType}`,
+          startDate: startDate.toISOString(),
+          endDate: endDate.toISOString(),
+          notes: notesParts.join('\n'),
+        },
       });
     });
   });
@@ -605,144 +1034,6 @@ const getVisibleTables = (tables: DisplayPlanTable[], segment: PlanSegment): Dis
     return segment === 'weeks1to4' ? weekNumber <= 4 : weekNumber >= 5;
   });
 
-const enforceExpectedWeek = (tables: PlanTable[], weekNumber: number): PlanTable[] =>
-  tables.map((table) => {
-    const weekIndex = table.headers.findIndex((header) => header.toLowerCase() === 'week');
-    if (weekIndex === -1) {
-      return {
-        headers: ['Week', ...table.headers],
-        rows: table.rows.map((row) => [`Week ${weekNumber}`, ...row]),
-      };
-    }
-
-    return {
-      headers: table.headers,
-      rows: table.rows.map((row) => {
-        const nextRow = [...row];
-        nextRow[weekIndex] = `Week ${weekNumber}`;
-        return nextRow;
-      }),
-    };
-  });
-
-const parseRunDayCap = (value: string): number => {
-  const parsed = Number.parseInt(value.trim(), 10);
-  if (!Number.isFinite(parsed)) {
-    return 4;
-  }
-  return Math.min(Math.max(parsed, 1), 7);
-};
-
-const clampWeekToRunDayCap = (tables: PlanTable[], runDayCap: number, longRunDay: string): PlanTable[] =>
-  tables.map((table) => {
-    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
-    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
-    const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
-    const rationaleIndex = table.headers.findIndex((header) => header.toLowerCase().includes('rationale'));
-
-    if (dayIndex === -1 || workoutIndex === -1) {
-      return table;
-    }
-
-    const activeRows = table.rows
-      .map((row, idx) => ({ row, idx }))
-      .filter(({ row }) => !isRestLikeWorkout(row[workoutIndex] ?? ''));
-
-    if (activeRows.length <= runDayCap) {
-      return table;
-    }
-
-    const longRunDayIndex = DAY_INDEX[longRunDay.toLowerCase()] ?? 6;
-    const qualityPattern = /(interval|tempo|threshold|hill|speed)/i;
-
-    const scoredRows = activeRows.map(({ row, idx }) => {
-      const workout = row[workoutIndex] ?? '';
-      const day = (row[dayIndex] ?? '').toString().toLowerCase();
-      const dayOrder = DAY_INDEX[day] ?? 7;
-      const isLong = /long/i.test(workout);
-      const isLongOnPreferredDay = isLong && dayOrder === longRunDayIndex;
-      const isQuality = qualityPattern.test(workout);
-      const score = (isLongOnPreferredDay ? 100 : 0) + (isQuality ? 50 : 0) + (isLong ? 25 : 0) - dayOrder * 0.1 - idx * 0.01;
-
-      return { idx, score };
-    });
-
-    scoredRows.sort((a, b) => b.score - a.score);
-    const keepIndexes = new Set(scoredRows.slice(0, runDayCap).map((entry) => entry.idx));
-
-    const rows = table.rows.map((row, idx) => {
-      if (keepIndexes.has(idx) || isRestLikeWorkout(row[workoutIndex] ?? '')) {
-        return row;
-      }
-
-      const nextRow = [...row];
-      nextRow[workoutIndex] = 'Rest Day';
-      if (detailsIndex !== -1) {
-        nextRow[detailsIndex] = 'Recovery / optional mobility';
-      }
-      if (rationaleIndex !== -1) {
-        nextRow[rationaleIndex] = `Respect ${runDayCap} training days/week`;
-      }
-      return nextRow;
-    });
-
-    return { headers: table.headers, rows };
-  });
-
-const countPlannedRunDays = (tables: PlanTable[]): number => {
-  const runDays = new Set<string>();
-
-  tables.forEach((table) => {
-    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
-    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
-    if (dayIndex === -1 || workoutIndex === -1) {
-      return;
-    }
-
-    table.rows.forEach((row) => {
-      const day = (row[dayIndex] ?? '').trim().toLowerCase();
-      const workout = row[workoutIndex] ?? '';
-      if (!day || isRestLikeWorkout(workout)) {
-        return;
-      }
-      runDays.add(day);
-    });
-  });
-
-  return runDays.size;
-};
-
-const withRunDayCorrection = (prompt: string, weekNumber: number, runDayCap: number): string =>
-  [
-    prompt,
-    '',
-    `Critical Fix: Rewrite Week ${weekNumber} so it has EXACTLY ${runDayCap} run days.`,
-    `Critical Fix: The other ${7 - runDayCap} days must be Rest or non-running cross-training.`,
-    'Critical Fix: Return ONLY corrected JSON for that week using the same schema.',
-  ].join('\n');
-
-const summarizeWeekForHistory = (tables: PlanTable[], weekNumber: number): string => {
-  const summaryLines: string[] = [];
-
-  tables.forEach((table) => {
-    const weekIndex = table.headers.findIndex((header) => header.toLowerCase() === 'week');
-    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
-    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
-    const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
-
-    table.rows.forEach((row) => {
-      if (weekIndex !== -1 && row[weekIndex] && !row[weekIndex].toLowerCase().includes(`week ${weekNumber}`.toLowerCase())) {
-        return;
-      }
-      const day = dayIndex === -1 ? 'Day' : row[dayIndex] ?? 'Day';
-      const workout = workoutIndex === -1 ? 'Run' : row[workoutIndex] ?? 'Run';
-      const details = detailsIndex === -1 ? '' : row[detailsIndex] ?? '';
-      summaryLines.push(`- ${day}: ${workout}${details ? ` (${details})` : ''}`);
-    });
-  });
-
-  return [`Week ${weekNumber} Summary:`, ...summaryLines.slice(0, 7)].join('\n');
-};
 
 const parseDurationSecondsFromInputs = (hoursRaw: string, minutesRaw: string, secondsRaw: string): number | null => {
   const hoursText = hoursRaw.trim();
@@ -763,6 +1054,15 @@ const parseDurationSecondsFromInputs = (hoursRaw: string, minutesRaw: string, se
   return totalSeconds > 0 ? totalSeconds : null;
 };
 
+const parseRaceClock = (value: string): number | null => {
+  const parts = value.trim().split(':').map((part) => Number.parseInt(part, 10));
+  if (parts.length < 2 || parts.length > 3 || parts.some((part) => !Number.isFinite(part) || part < 0)) {
+    return null;
+  }
+  const totalSeconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return totalSeconds > 0 ? totalSeconds : null;
+};
+
 const formatDuration = (totalSeconds: number): string => {
   const bounded = Math.max(0, Math.round(totalSeconds));
   const hours = Math.floor(bounded / 3600);
@@ -774,12 +1074,15 @@ const formatDuration = (totalSeconds: number): string => {
 export default function App() {
   const [screen, setScreen] = useState<AppScreen>('setup');
   const [lookbackDays, setLookbackDays] = useState<LookbackDaysOption>(30);
-  const [planLengthWeeks, setPlanLengthWeeks] = useState<PlanLengthOption>(8);
+  const [planLengthWeeks, setPlanLengthWeeks] = useState<number>(8);
   const [selectedGoal, setSelectedGoal] = useState<GoalOption>('5K');
   const [runningLevel, setRunningLevel] = useState<RunningLevelOption>('Intermediate');
   const [targetHours, setTargetHours] = useState('');
   const [targetMinutes, setTargetMinutes] = useState('');
   const [targetSeconds, setTargetSeconds] = useState('');
+  const [recentRaceGoal, setRecentRaceGoal] = useState<GoalOption>('5K');
+  const [recentRaceTime, setRecentRaceTime] = useState('');
+  const [pacingMode, setPacingMode] = useState<PacingMode>('target');
   const [runDaysPerWeek, setRunDaysPerWeek] = useState('4');
   const [longRunDay, setLongRunDay] = useState<LongRunOption>('Sunday');
   const [distanceUnit, setDistanceUnit] = useState<DistanceUnitOption>('miles');
@@ -792,7 +1095,8 @@ export default function App() {
   const [healthLoading, setHealthLoading] = useState(false);
   const [followUpLoading, setFollowUpLoading] = useState(false);
   const [calendarLoading, setCalendarLoading] = useState(false);
-  const [syncedEventIds, setSyncedEventIds] = useState<string[]>([]);
+  const [calendarEvents, setCalendarEvents] = useState<CalendarEventMap>({});
+  const [icsReminderMinutes, setIcsReminderMinutes] = useState<IcsReminderOption>(60);
   const [visibleSegment, setVisibleSegment] = useState<PlanSegment>('weeks1to4');
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showPlanAssistant, setShowPlanAssistant] = useState(false);
@@ -801,42 +1105,176 @@ export default function App() {
   const [savedPlans, setSavedPlans] = useState<SavedPlan[]>([]);
   const [activePlanId, setActivePlanId] = useState<string | null>(null);
   const [planStartDate, setPlanStartDate] = useState<string>(nextMonday().toISOString());
+  const [raceDateInput, setRaceDateInput] = useState('');
+  const [startDateInput, setStartDateInput] = useState('');
+  const [tuneUpRaces, setTuneUpRaces] = useState<SeasonRace[]>([]);
+  const [tuneUpGoal, setTuneUpGoal] = useState<GoalOption>('10K');
+  const [tuneUpDateInput, setTuneUpDateInput] = useState('');
+  const [tuneUpPriority, setTuneUpPriority] = useState<TuneUpPriority>('B');
   const [planView, setPlanView] = useState<PlanView>('overview');
   const [completions, setCompletions] = useState<CompletionMap>({});
+  const [storageReady, setStorageReady] = useState(false);
+  const [storageWarnings, setStorageWarnings] = useState<string[]>([]);
   const [showCheckinForm, setShowCheckinForm] = useState(false);
   const [checkinRpe, setCheckinRpe] = useState('6');
   const [checkinSoreness, setCheckinSoreness] = useState('4');
   const [checkinSleep, setCheckinSleep] = useState('3');
   const [checkinNotes, setCheckinNotes] = useState('');
+  const [checkinDistance, setCheckinDistance] = useState('');
+  const [checkinDuration, setCheckinDuration] = useState('');
+  const [workoutSyncLoading, setWorkoutSyncLoading] = useState(false);
+  const [predictionLoading, setPredictionLoading] = useState(false);
   const [bannerMessage, setBannerMessage] = useState('');
   const [bannerType, setBannerType] = useState<BannerType>('info');
   const [selectedCalendarCell, setSelectedCalendarCell] = useState<SelectedCalendarCell | null>(null);
+  const [weekActionLoading, setWeekActionLoading] = useState<number | null>(null);
+  const [adaptationLoading, setAdaptationLoading] = useState(false);
+  const [readinessLoading, setReadinessLoading] = useState(false);
+  const [adaptationProposal, setAdaptationProposal] = useState<AdaptationProposal | null>(null);
   const [loadingDots, setLoadingDots] = useState('');
+  const [modelProviderId, setModelProviderId] = useState<CoachModelProviderId>(
+    Platform.OS === 'ios' ? 'foundation-models' : 'scripted'
+  );
+  const [modelServerUrl, setModelServerUrl] = useState(DEFAULT_OPENAI_COMPATIBLE_CONFIG.baseUrl);
+  const [modelServerModel, setModelServerModel] = useState(DEFAULT_OPENAI_COMPATIBLE_CONFIG.model);
+  const [athleteAge, setAthleteAge] = useState('');
+  const [fieldTestMaxHr, setFieldTestMaxHr] = useState('');
+  const [fieldTestThresholdHr, setFieldTestThresholdHr] = useState('');
   const { width } = useWindowDimensions();
   const pagerRef = useRef<ScrollView | null>(null);
+  const activePlan = savedPlans.find((plan) => plan.id === activePlanId) ?? null;
   const displayTables = useMemo(() => buildDisplayTables(planTables), [planTables]);
   const visibleTables = useMemo(() => getVisibleTables(displayTables, visibleSegment), [displayTables, visibleSegment]);
-  const calendarWeekRows = useMemo(() => buildCalendarWeekRows(visibleTables), [visibleTables]);
-  const pageWidth = Math.max(width, 1);
-  const parsedTargetTimeSeconds = parseDurationSecondsFromInputs(targetHours, targetMinutes, targetSeconds);
-  const trainingLiftPercent = Math.max(2, Math.min(12, planLengthWeeks * 0.5 + parseRunDayCap(runDaysPerWeek) * 0.6));
-  const levelAdjustment: Record<RunningLevelOption, number> = {
-    Beginner: 1.03,
-    Intermediate: 1.0,
-    Advanced: 0.985,
-    Elite: 0.97,
+  const scheduledTuneUps = useMemo(() => {
+    const scheduled = scheduleTuneUpRaces(tuneUpRaces, new Date(planStartDate), planLengthWeeks);
+    return scheduled.ok ? scheduled.races : [];
+  }, [tuneUpRaces, planStartDate, planLengthWeeks]);
+  const phaseSchedule = useMemo(
+    () => buildPhaseSchedule(planLengthWeeks, selectedGoal, scheduledTuneUps),
+    [planLengthWeeks, selectedGoal, scheduledTuneUps]
+  );
+  const racePriorityFor = (weekTitle: string, dayName: string): RacePriority => {
+    const weekNumber = extractWeekNumber(weekTitle, 0);
+    const tuneUp = scheduledTuneUps.find((race) => race.week === weekNumber && race.day === dayName);
+    return tuneUp?.priority ?? (weekNumber === planLengthWeeks ? 'A' : 'C');
   };
-  const predictedSeconds = parsedTargetTimeSeconds
-    ? parsedTargetTimeSeconds * (1 - trainingLiftPercent / 100) * levelAdjustment[runningLevel]
-    : null;
-  const predictionRange = predictedSeconds
-    ? `${formatDuration(predictedSeconds * 0.99)} - ${formatDuration(predictedSeconds * 1.01)}`
-    : '--:--:-- - --:--:--';
-  const today = new Date();
+  const titleWithPhase = (title: string): string => {
+    const phaseWeek = phaseSchedule[extractWeekNumber(title, 0) - 1];
+    return phaseWeek ? `${title} • ${phaseLabel(phaseWeek)}` : title;
+  };
+  const heartRateInputs = useMemo<HeartRateInputs>(
+    () => ({
+      age: Number.parseInt(athleteAge, 10) || null,
+      fieldTestMaxBpm: Number.parseInt(fieldTestMaxHr, 10) || null,
+      fieldTestThresholdBpm: Number.parseInt(fieldTestThresholdHr, 10) || null,
+    }),
+    [athleteAge, fieldTestMaxHr, fieldTestThresholdHr]
+  );
+  const heartRateZoneModel = useMemo(
+    () => buildHeartRateZones(heartRateInputs, healthSummary),
+    [heartRateInputs, healthSummary]
+  );
+  const calendarWeekRows = useMemo(
+    () => buildCalendarWeekRows(visibleTables, distanceUnit, heartRateZoneModel?.zones),
+    [visibleTables, distanceUnit, heartRateZoneModel]
+  );
+  const selectCalendarCell = (weekTitle: string, cell: CalendarWeekCell) =>
+    setSelectedCalendarCell({
+      weekTitle,
+      dayName: cell.dayName,
+      workoutType: cell.workoutType,
+      details: cell.details,
+      isRace: cell.isRace,
+      segmentLines: cell.segmentLines,
+    });
+  const modelProvider = useMemo(
+    () => createCoachModelProvider(modelProviderId, { baseUrl: modelServerUrl, model: modelServerModel }),
+    [modelProviderId, modelServerUrl, modelServerModel]
+  );
+  const pageWidth = Math.max(width, 1);
+  const calendarPlanKey = activePlanId ?? 'unsaved';
+  const syncedEventIds = Object.values(calendarEvents[calendarPlanKey] ?? {});
+  const setupPreferences = useMemo(
+    (): SetupPreferences => ({
+      lookbackDays,
+      runningLevel,
+      selectedGoal,
+      planLengthWeeks,
+      targetHours,
+      targetMinutes,
+      targetSeconds,
+      runDaysPerWeek,
+      longRunDay,
+      distanceUnit,
+      athleteAge,
+      fieldTestMaxHr,
+      fieldTestThresholdHr,
+      recentRaceGoal,
+      recentRaceTime,
+      pacingMode,
+      modelProviderId,
+      modelServerUrl,
+      modelServerModel,
+    }),
+    [
+      lookbackDays,
+      runningLevel,
+      selectedGoal,
+      planLengthWeeks,
+      targetHours,
+      targetMinutes,
+      targetSeconds,
+      runDaysPerWeek,
+      longRunDay,
+      distanceUnit,
+      athleteAge,
+      fieldTestMaxHr,
+      fieldTestThresholdHr,
+      recentRaceGoal,
+      recentRaceTime,
+      pacingMode,
+      modelProviderId,
+      modelServerUrl,
+      modelServerModel,
+    ]
+  );
+  const planWindow = raceDateInput.trim() ? derivePlanWindow(raceDateInput, startDateInput, nextMonday()) : null;
+  const setupPlanLengthWeeks = planWindow?.ok ? planWindow.window.planLengthWeeks : planLengthWeeks;
+  const parsedTargetTimeSeconds = parseDurationSecondsFromInputs(targetHours, targetMinutes, targetSeconds);
+  const recentRaceSeconds = parseRaceClock(recentRaceTime);
+  const recentRace = recentRaceSeconds
+    ? { distanceKm: GOAL_DISTANCE_KM[recentRaceGoal], timeSeconds: recentRaceSeconds }
+    : undefined;
+  const recentRacePaces = useMemo(() => {
+    const vdot = recentRaceVdot(recentRace);
+    return vdot ? vdotPaceTable(vdot) : null;
+  }, [recentRace?.distanceKm, recentRace?.timeSeconds]);
+  const fitnessEstimate = useMemo(
+    () =>
+      predictRaceTimes(healthSummary, {
+        goals: GOAL_OPTIONS,
+        planWeeks: setupPlanLengthWeeks,
+        recentRace: recentRace ? { ...recentRace, date: formatDateInput(new Date()), source: 'race' } : null,
+      }),
+    [healthSummary, setupPlanLengthWeeks, recentRace?.distanceKm, recentRace?.timeSeconds]
+  );
+  const goalPrediction = fitnessEstimate?.predictions.find((prediction) => prediction.goal === selectedGoal) ?? null;
+  const predictionRange = goalPrediction
+    ? `${formatDuration(goalPrediction.lowSeconds)} - ${formatDuration(goalPrediction.highSeconds)}`
+    : '--:--:-- - --:--:--';
+  const targetGapPercent =
+    goalPrediction && parsedTargetTimeSeconds
+      ? ((goalPrediction.projectedSeconds - parsedTargetTimeSeconds) / goalPrediction.projectedSeconds) * 100
+      : null;
+  const today = new Date();
   const planStart = new Date(planStartDate);
   const elapsedDays = Math.floor((today.getTime() - planStart.getTime()) / (1000 * 60 * 60 * 24));
   const computedWeekNumber = elapsedDays < 0 ? 1 : Math.floor(elapsedDays / 7) + 1;
   const todayWeekNumber = Math.max(1, computedWeekNumber);
+  const adaptationDueWeek =
+    activePlan && todayWeekNumber > 1 && todayWeekNumber <= planLengthWeeks && (activePlan.lastAdaptedWeek ?? 0) < todayWeekNumber - 1
+      ? todayWeekNumber - 1
+      : null;
   const todayDayName = today.toLocaleDateString('en-US', { weekday: 'long' });
   const todayTable = displayTables.find((table, tableIndex) => extractWeekNumber(table.title, tableIndex + 1) === todayWeekNumber);
   const todayHeaders = todayTable?.headers ?? [];
@@ -844,10 +1282,16 @@ export default function App() {
   const todayWorkoutTypeIndex = todayHeaders.findIndex((header) => header.toLowerCase().includes('workout'));
   const todayDetailsIndex = todayHeaders.findIndex((header) => header.toLowerCase().includes('details'));
   const todayRationaleIndex = todayHeaders.findIndex((header) => header.toLowerCase().includes('rationale'));
-  const todayRow =
-    todayTable?.rows.find((row) => normalizeDayName(row[todayDayIndex] ?? '') === todayDayName) ??
-    todayTable?.rows.find((row) => !isRestLikeWorkout(row[todayWorkoutTypeIndex] ?? '')) ??
-    null;
+  const todayRowIndex = (() => {
+    const rows = todayTable?.rows ?? [];
+    const exactIndex = rows.findIndex((row) => normalizeDayName(row[todayDayIndex] ?? '') === todayDayName);
+    if (exactIndex !== -1) {
+      return exactIndex;
+    }
+    return rows.findIndex((row) => !isRestLikeWorkout(row[todayWorkoutTypeIndex] ?? ''));
+  })();
+  const todayRow = todayTable && todayRowIndex !== -1 ? todayTable.rows[todayRowIndex] : null;
+  const todayStructuredWorkout = todayTable && todayRow ? workoutForRow(todayTable, todayRowIndex) : null;
   const todayWorkout = todayRow
     ? {
         week: todayWeekNumber,
@@ -855,23 +1299,80 @@ export default function App() {
         workoutType: todayRow[todayWorkoutTypeIndex] ?? 'Rest Day',
         details: todayRow[todayDetailsIndex] ?? '',
         rationale: todayRow[todayRationaleIndex] ?? '',
+        segmentLines: todayStructuredWorkout
+          ? describeWorkoutSegments(todayStructuredWorkout, distanceUnit, heartRateZoneModel?.zones)
+          : [],
+        durationMinutes:
+          todayStructuredWorkout && todayStructuredWorkout.category !== 'rest'
+            ? workoutDurationMinutes(todayStructuredWorkout, distanceUnit)
+            : 0,
+        distance: todayStructuredWorkout ? workoutDistance(todayStructuredWorkout, distanceUnit) : 0,
       }
     : null;
   const todayCompletionKey =
     activePlanId && todayWorkout ? completionKey(activePlanId, todayWorkout.week, todayWorkout.day) : null;
   const todayCompletion = todayCompletionKey ? completions[todayCompletionKey] : undefined;
-  const plannedWorkoutCount = displayTables.reduce((sum, table) => {
-    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
-    if (workoutIndex === -1) {
-      return sum;
-    }
-    return sum + table.rows.filter((row) => !isRestLikeWorkout(row[workoutIndex] ?? '')).length;
-  }, 0);
+  const readiness = useMemo(() => (healthSummary ? computeReadiness(healthSummary) : null), [healthSummary]);
+  const trainingLoad = useMemo(
+    () =>
+      buildTrainingLoad(healthSummary, planTables, completions, activePlanId, distanceUnit, heartRateProfile(heartRateZoneModel)),
+    [healthSummary, planTables, completions, activePlanId, distanceUnit, heartRateZoneModel]
+  );
+  const latestTrainingLoad = trainingLoad[trainingLoad.length - 1] ?? null;
+  const maxDailyLoad = Math.max(1, ...trainingLoad.map((day) => day.dailyLoad));
+  const canAdjustTodayForReadiness =
+    readiness?.level === 'low' &&
+    !todayCompletion &&
+    !!todayWorkout &&
+    normalizeDayName(todayWorkout.day) === todayDayName &&
+    !!todayStructuredWorkout &&
+    isDowngradableSession(todayStructuredWorkout);
+  const reconciliation = useMemo(
+    () =>
+      reconcileWorkouts(
+        buildPlannedSessions(planTables, planStartDate, distanceUnit),
+        healthSummary?.workouts ?? [],
+        (session) => !!activePlanId && !!completions[completionKey(activePlanId, session.week, session.day)]
+      ),
+    [planTables, planStartDate, distanceUnit, healthSummary, completions, activePlanId]
+  );
+  const selectedCalendarSession = selectedCalendarCell
+    ? reconciliation.sessions
+        .map((match) => match.session)
+        .find(
+          (session) =>
+            session.week === extractWeekNumber(selectedCalendarCell.weekTitle, 0) &&
+            session.day === normalizeDayName(selectedCalendarCell.dayName) &&
+            isRunningCategory(session.category)
+        ) ?? null
+    : null;
+  const todayMatch =
+    todayWorkout &&
+    reconciliation.sessions.find(
+      (match) => match.session.week === todayWorkout.week && match.session.day === normalizeDayName(todayWorkout.day)
+    );
+  const todayHealthWorkout = todayMatch?.workout ?? null;
+  const missedSessions = reconciliation.sessions.filter((match) => match.status === 'missed');
+  const sessionComparisons = useMemo(
+    () =>
+      buildSessionComparisons(
+        reconciliation,
+        completions,
+        activePlanId,
+        distanceUnit,
+        heartRateZoneModel?.zones
+      ),
+    [reconciliation, completions, activePlanId, distanceUnit, heartRateZoneModel]
+  );
+  const weeklyComplianceScores = weeklyCompliance(sessionComparisons);
+  const todayComparison = todayWorkout
+    ? sessionComparisons.find(
+        (entry) => entry.week === todayWorkout.week && entry.day === normalizeDayName(todayWorkout.day)
+      )?.comparison ?? null
+    : null;
   const completionEntries = Object.entries(completions).filter(([key]) =>
     activePlanId ? key.startsWith(`${activePlanId}:`) : false
   );
-  const completedWorkoutCount = completionEntries.length;
-  const adherencePercent = plannedWorkoutCount ? Math.min(100, Math.round((completedWorkoutCount / plannedWorkoutCount) * 100)) : 0;
   const avgCheckin = completionEntries.length
     ? completionEntries.reduce(
         (acc, [, value]) => {
@@ -892,8 +1393,10 @@ export default function App() {
     pagerRef.current?.scrollTo({ x, animated: true });
   }, [screen, pageWidth]);
 
+  const loadingDotsActive = healthLoading || adaptationLoading || workoutSyncLoading || weekActionLoading !== null;
+
   useEffect(() => {
-    if (!healthLoading) {
+    if (!loadingDotsActive) {
       setLoadingDots('');
       return;
     }
@@ -908,7 +1411,7 @@ export default function App() {
     }, 350);
 
     return () => clearInterval(intervalId);
-  }, [healthLoading]);
+  }, [loadingDotsActive]);
 
   useEffect(() => {
     if (!bannerMessage) {
@@ -929,44 +1432,94 @@ export default function App() {
     setBannerMessage(message);
   };
 
+  const applySetupPreferences = (preferences: Partial<SetupPreferences>) => {
+    setLookbackDays((current) => preferences.lookbackDays ?? current);
+    setRunningLevel((current) => preferences.runningLevel ?? current);
+    setSelectedGoal((current) => preferences.selectedGoal ?? current);
+    setPlanLengthWeeks((current) => preferences.planLengthWeeks ?? current);
+    setTargetHours((current) => preferences.targetHours ?? current);
+    setTargetMinutes((current) => preferences.targetMinutes ?? current);
+    setTargetSeconds((current) => preferences.targetSeconds ?? current);
+    setRunDaysPerWeek((current) => preferences.runDaysPerWeek ?? current);
+    setLongRunDay((current) => preferences.longRunDay ?? current);
+    setDistanceUnit((current) => preferences.distanceUnit ?? current);
+    setAthleteAge((current) => preferences.athleteAge ?? current);
+    setFieldTestMaxHr((current) => preferences.fieldTestMaxHr ?? current);
+    setFieldTestThresholdHr((current) => preferences.fieldTestThresholdHr ?? current);
+    setRecentRaceGoal((current) => preferences.recentRaceGoal ?? current);
+    setRecentRaceTime((current) => preferences.recentRaceTime ?? current);
+    setPacingMode((current) => preferences.pacingMode ?? current);
+    setModelProviderId((current) => preferences.modelProviderId ?? current);
+    setModelServerUrl((current) => preferences.modelServerUrl ?? current);
+    setModelServerModel((current) => preferences.modelServerModel ?? current);
+  };
+
   useEffect(() => {
     let mounted = true;
 
-    const loadPersistedState = async () => {
+    const warnings: string[] = [];
+    const loadStored = async <T,>(schema: StorageSchema<T>): Promise<T | null> => {
+      if (!NATIVE_STORAGE_AVAILABLE) {
+        return null;
+      }
       try {
-        const [rawPlans, rawCompletions] = await Promise.all([
-          ExpoAppleIntelligence.getStoredValueAsync(STORAGE_PLANS_KEY),
-          ExpoAppleIntelligence.getStoredValueAsync(STORAGE_COMPLETIONS_KEY),
-        ]);
-
-        if (mounted && rawPlans) {
-          const parsedPlans = JSON.parse(rawPlans) as SavedPlan[];
-          if (Array.isArray(parsedPlans)) {
-            setSavedPlans(parsedPlans);
-            if (parsedPlans[0]) {
-              const latest = parsedPlans[0];
-              setActivePlanId(latest.id);
-              setPlanStartDate(latest.planStartDate);
-              setResponse(latest.response);
-              setPlanTables(latest.tables);
-              setSelectedGoal(latest.goal);
-              setPlanLengthWeeks(latest.planLengthWeeks as PlanLengthOption);
-              setRunDaysPerWeek(latest.runDaysPerWeek);
-              setLongRunDay(latest.longRunDay);
-              setDistanceUnit(latest.distanceUnit);
-            }
-          }
+        const result = await loadVersioned(schema);
+        if (result.status === 'quarantined') {
+          warnings.push(describeStorageProblem(schema, result.reason));
+        }
+        if (result.status === 'loaded' && result.rejected.length) {
+          warnings.push(describeStorageRejections(schema, result.rejected));
         }
+        return result.status === 'loaded' ? result.value : null;
+      } catch (caught) {
+        const reason = caught instanceof Error ? caught.message : 'storage unavailable';
+        warnings.push(`Saved ${schema.label} could not be loaded (${reason}).`);
+        return null;
+      }
+    };
+
+    const loadPersistedState = async () => {
+      const [storedPlans, storedCompletions, storedCalendarEvents, storedPreferences] = await Promise.all([
+        loadStored(SAVED_PLANS_SCHEMA),
+        loadStored(COMPLETIONS_SCHEMA),
+        loadStored(CALENDAR_EVENTS_SCHEMA),
+        loadStored(SETUP_PREFERENCES_SCHEMA),
+      ]);
+      if (!mounted) {
+        return;
+      }
 
-        if (mounted && rawCompletions) {
-          const parsedCompletions = JSON.parse(rawCompletions) as CompletionMap;
-          if (parsedCompletions && typeof parsedCompletions === 'object') {
-            setCompletions(parsedCompletions);
-          }
+      if (storedPlans) {
+        setSavedPlans(storedPlans);
+        if (storedPlans[0]) {
+          const latest = storedPlans[0];
+          setActivePlanId(latest.id);
+          setPlanStartDate(latest.planStartDate);
+          setResponse(latest.response);
+          setPlanTables(latest.tables);
+          setSelectedGoal(latest.goal);
+          setPlanLengthWeeks(latest.planLengthWeeks);
+          setRaceDateInput(latest.raceDate ?? '');
+          setTuneUpRaces(latest.tuneUpRaces ?? []);
+          setRunDaysPerWeek(latest.runDaysPerWeek);
+          setLongRunDay(latest.longRunDay);
+          setDistanceUnit(latest.distanceUnit);
+          setPacingMode(latest.pacing?.mode ?? 'target');
+          setRecentRaceGoal(latest.pacing?.recentRaceGoal ?? '5K');
+          setRecentRaceTime(latest.pacing?.recentRaceTime ?? '');
         }
-      } catch {
-        // best-effort load; ignore malformed persisted state
       }
+      if (storedCompletions) {
+        setCompletions(storedCompletions);
+      }
+      if (storedCalendarEvents) {
+        setCalendarEvents(storedCalendarEvents);
+      }
+      if (storedPreferences) {
+        applySetupPreferences(storedPreferences);
+      }
+      setStorageWarnings(warnings);
+      setStorageReady(true);
     };
 
     void loadPersistedState();
@@ -977,266 +1530,471 @@ export default function App() {
   }, []);
 
   useEffect(() => {
-    if (!savedPlans.length) {
+    if (!storageReady || !NATIVE_STORAGE_AVAILABLE) {
+      return;
+    }
+    void saveVersioned(SAVED_PLANS_SCHEMA, savedPlans).catch(() => {
+      // best-effort persistence
+    });
+  }, [savedPlans, storageReady]);
+
+  useEffect(() => {
+    if (!storageReady || !NATIVE_STORAGE_AVAILABLE) {
       return;
     }
-    void ExpoAppleIntelligence.setStoredValueAsync(STORAGE_PLANS_KEY, JSON.stringify(savedPlans)).catch(() => {
+    void saveVersioned(COMPLETIONS_SCHEMA, completions).catch(() => {
       // best-effort persistence
     });
-  }, [savedPlans]);
+  }, [completions, storageReady]);
 
   useEffect(() => {
-    void ExpoAppleIntelligence.setStoredValueAsync(STORAGE_COMPLETIONS_KEY, JSON.stringify(completions)).catch(() => {
+    if (!storageReady || !NATIVE_STORAGE_AVAILABLE) {
+      return;
+    }
+    void saveVersioned(CALENDAR_EVENTS_SCHEMA, calendarEvents).catch(() => {
+      // best-effort persistence
+    });
+  }, [calendarEvents, storageReady]);
+
+  useEffect(() => {
+    if (!storageReady || !NATIVE_STORAGE_AVAILABLE) {
+      return;
+    }
+    void saveVersioned(SETUP_PREFERENCES_SCHEMA, setupPreferences).catch(() => {
       // best-effort persistence
     });
-  }, [completions]);
+  }, [setupPreferences, storageReady]);
+
+  const queryModel = (textPrompt: string): Promise<string> => modelProvider.query(textPrompt);
+
+  const targetTimeInput = (): Pick<PlanInput, 'targetTime' | 'targetTimeSeconds'> => {
+    const hours = targetHours.trim();
+    const minutesRaw = targetMinutes.trim();
+    const secondsRaw = targetSeconds.trim();
+    const minutesPadded = minutesRaw === '' ? '00' : minutesRaw.padStart(2, '0');
+    const secondsPadded = secondsRaw === '' ? '00' : secondsRaw.padStart(2, '0');
+    return {
+      targetTime: hours || minutesRaw || secondsRaw ? `${hours || '0'}:${minutesPadded}:${secondsPadded}` : undefined,
+      targetTimeSeconds: parseDurationSecondsFromInputs(hours, minutesRaw, secondsRaw) ?? undefined,
+    };
+  };
+
+  const pacingInput = (): Pick<PlanInput, 'recentRace' | 'pacingMode'> => ({
+    recentRace,
+    pacingMode: recentRace ? pacingMode : 'target',
+  });
+
+  const activePlanSettings = (): WeekGuardrailInput & Pick<PlanInput, 'raceDate'> => {
+    const raceDate = activePlan?.raceDate ? parseDateInput(activePlan.raceDate) : null;
+    const tuneUpSchedule = activePlan?.tuneUpRaces?.length
+      ? scheduleTuneUpRaces(activePlan.tuneUpRaces, new Date(planStartDate), planLengthWeeks)
+      : null;
+    return {
+      ...targetTimeInput(),
+      ...pacingInput(),
+      planLengthWeeks,
+      selectedGoal,
+      runDaysPerWeek,
+      distanceUnit,
+      raceDate: raceDate ? formatDateInput(raceDate) : undefined,
+      raceDay: raceDate ? weekdayName(raceDate) : undefined,
+      tuneUpRaces: tuneUpSchedule?.ok ? tuneUpSchedule.races : undefined,
+    };
+  };
 
-  const queryModel = async (textPrompt: string): Promise<string> => {
-    const result = await ExpoAppleIntelligence.queryAsync(textPrompt);
-    return result.text;
+  const loadHealthSummary = async (useCached: boolean): Promise<HealthSummary | null> => {
+    if (useCached && healthSummary) {
+      return healthSummary;
+    }
+    const authorized = await ExpoAppleIntelligence.requestHealthAuthorizationAsync();
+    if (!authorized) {
+      setError('Health permission was not granted.');
+      return null;
+    }
+    const summary = normalizeSummary(await ExpoAppleIntelligence.getHealthSummaryAsync(lookbackDays));
+    setHealthSummary(summary);
+    return summary;
   };
 
-  const looksLikeContextWindowError = (message: string): boolean => {
-    const normalized = message.toLowerCase();
-    return normalized.includes('context window') || normalized.includes('model size') || normalized.includes('token');
+  // HealthKit only exists on iOS; elsewhere the plan is built from the setup answers with an empty summary.
+  const loadPlanHealthSummary = async (): Promise<HealthSummary | null> => {
+    try {
+      return await loadHealthSummary(false);
+    } catch (caught) {
+      if (Platform.OS === 'ios') {
+        throw caught;
+      }
+      return normalizeSummary({});
+    }
+  };
+
+  const summaryHeartRateZones = (summary: HealthSummary): HeartRateZoneModel | null =>
+    buildHeartRateZones(heartRateInputs, summary);
+
+  const trainingLoadContext = (summary: HealthSummary): string | undefined => {
+    const profile = heartRateProfile(summaryHeartRateZones(summary));
+    const series = buildTrainingLoad(summary, planTables, completions, activePlanId, distanceUnit, profile);
+    return series.length ? describeTrainingLoadForPrompt(series[series.length - 1]) : undefined;
   };
 
-  type PlanInput = {
-    lookbackDays: number;
-    planLengthWeeks: number;
-    selectedGoal: string;
-    runningLevel: RunningLevelOption;
-    targetTime?: string;
-    targetTimeSeconds?: number;
-    historyContext?: string;
-    runDaysPerWeek: string;
-    longRunDay: string;
-    distanceUnit: 'km' | 'miles';
-    restingHrTrend: string;
-    sleepTrend: string;
-    hrvTrend: string;
-    vo2Trend: string;
-    distanceTrend: string;
-    stepTrend: string;
-    workoutNarrative: string[];
-    adaptationContext?: string;
+  const heartRateZonesContext = (summary: HealthSummary): string | undefined => {
+    const model = summaryHeartRateZones(summary);
+    return model ? describeHeartRateZonesForPrompt(model) : undefined;
   };
 
-  const toCompactInput = (input: PlanInput): PlanInput => ({
-    ...input,
-    workoutNarrative: input.workoutNarrative.slice(0, 3),
-    vo2Trend: `VO2: ${input.vo2Trend}`,
-    distanceTrend: `Distance: ${input.distanceTrend}`,
-    stepTrend: `Steps: ${input.stepTrend}`,
+  const activePlanInput = (summary: HealthSummary, adaptationContext: string): PlanInput => ({
+    ...buildHealthTrends(summary, distanceUnit, lookbackDays),
+    ...activePlanSettings(),
+    lookbackDays,
+    runningLevel,
+    longRunDay,
+    adaptationContext,
+    trainingLoadContext: trainingLoadContext(summary),
+    heartRateZonesContext: heartRateZonesContext(summary),
   });
 
-  const buildWeeklyPlan = async (input: PlanInput) => {
-    type PromptWeekKey = (typeof WEEK_PARTS)[number];
-    const parts = Array.from({ length: input.planLengthWeeks }, (_, idx) => {
-      const week = idx + 1;
-      const key = `week${week}` as PromptWeekKey;
-      if (!WEEK_PARTS.includes(key)) {
-        throw new Error(`Unsupported week prompt key: ${key}`);
+  const replacePlanWeek = (weekNumber: number, table: PlanTable, action: PlanWeekAction) => {
+    const tableIndex = findWeekTableIndex(planTables, weekNumber);
+    if (tableIndex === -1) {
+      return;
+    }
+    const nextTables = planTables.map((current, index) => (index === tableIndex ? table : current));
+    const version: PlanWeekVersion = { week: weekNumber, savedAt: new Date().toISOString(), action, table: planTables[tableIndex] };
+    setPlanTables(nextTables);
+    setSavedPlans((current) =>
+      current.map((plan) =>
+        plan.id === activePlanId
+          ? { ...plan, tables: nextTables, weekHistory: [version, ...(plan.weekHistory ?? [])].slice(0, MAX_WEEK_HISTORY) }
+          : plan
+      )
+    );
+  };
+
+  const restorePlanWeek = (weekNumber: number) => {
+    const previous = activePlan?.weekHistory?.find((version) => version.week === weekNumber);
+    const tableIndex = findWeekTableIndex(planTables, weekNumber);
+    if (!previous || tableIndex === -1) {
+      return;
+    }
+    const nextTables = planTables.map((current, index) => (index === tableIndex ? previous.table : current));
+    setPlanTables(nextTables);
+    setSavedPlans((current) =>
+      current.map((plan) =>
+        plan.id === activePlanId
+          ? { ...plan, tables: nextTables, weekHistory: (plan.weekHistory ?? []).filter((version) => version !== previous) }
+          : plan
+      )
+    );
+    fireTactile();
+    showBanner(`Week ${weekNumber} restored`, 'success');
+  };
+
+  const regeneratePlanWeek = async (weekNumber: number) => {
+    setWeekActionLoading(weekNumber);
+    setError('');
+
+    try {
+      const summary = await loadHealthSummary(true);
+      if (!summary) {
+        return;
+      }
+      const input = activePlanInput(summary, buildAdaptationContext(activePlanId, completions));
+      const result = await regenerateWeek(input, { provider: modelProvider, tables: planTables, weekNumber });
+      setDebugPrompts((current) => [...current, ...result.debugPrompts]);
+      replacePlanWeek(weekNumber, result.table, 'regenerate');
+      setSelectedCalendarCell(null);
+      fireTactile();
+      showBanner(weekChangeNote(`Week ${weekNumber} regenerated`, result), 'success');
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : `Failed to regenerate week ${weekNumber}.`;
+      setError(message);
+      showBanner(message, 'error');
+    } finally {
+      setWeekActionLoading(null);
+    }
+  };
+
+  const markAdaptationReviewed = (reviewedWeek: number, tables?: PlanTable[], versions: PlanWeekVersion[] = []) => {
+    setSavedPlans((current) =>
+      current.map((plan) =>
+        plan.id === activePlanId
+          ? {
+              ...plan,
+              tables: tables ?? plan.tables,
+              lastAdaptedWeek: reviewedWeek,
+              weekHistory: [...versions, ...(plan.weekHistory ?? [])].slice(0, MAX_WEEK_HISTORY),
+            }
+          : plan
+      )
+    );
+  };
+
+  const runWeeklyAdaptation = async () => {
+    if (!activePlanId || adaptationDueWeek === null) {
+      return;
+    }
+    const reviewedWeek = adaptationDueWeek;
+    const fromWeek = reviewedWeek + 1;
+    setAdaptationLoading(true);
+    setError('');
+
+    try {
+      const summary = await loadHealthSummary(false);
+      if (!summary) {
+        return;
+      }
+      const weekReconciliation = reconcileWorkouts(
+        buildPlannedSessions(planTables, planStartDate, distanceUnit),
+        summary.workouts,
+        (session) => !!completions[completionKey(activePlanId, session.week, session.day)]
+      );
+      const adaptationContext = [
+        buildAdaptationContext(activePlanId, completions),
+        buildAdherenceContext(weekReconciliation, distanceUnit, reviewedWeek),
+        describeWorstDeviations(
+          buildSessionComparisons(
+            weekReconciliation,
+            completions,
+            activePlanId,
+            distanceUnit,
+            summaryHeartRateZones(summary)?.zones
+          ).filter((entry) => entry.week <= reviewedWeek)
+        ),
+      ]
+        .filter(Boolean)
+        .join('\n\n');
+      const result = await replanRemainingWeeks(activePlanInput(summary, adaptationContext), {
+        provider: modelProvider,
+        tables: planTables,
+        fromWeek,
+      });
+      setDebugPrompts((current) => [...current, ...result.debugPrompts]);
+      const diffs = diffPlanWeeks(planTables, result.tables, distanceUnit);
+      if (!diffs.length) {
+        markAdaptationReviewed(reviewedWeek);
+        showBanner('Plan still fits; no changes proposed', 'success');
+        return;
       }
-      return { key, label: String(week), title: `## Week ${week}` };
+      setAdaptationProposal({
+        reviewedWeek,
+        fromWeek,
+        tables: result.tables,
+        diffs,
+        notes: [
+          result.fallbackWeeks.length ? `${result.fallbackWeeks.length} week(s) from rule-based fallback` : '',
+          result.loadAdjustments.length ? `${result.loadAdjustments.length} week(s) load-adjusted` : '',
+          result.paceCorrections.length ? `${result.paceCorrections.length} pace(s) corrected` : '',
+        ].filter(Boolean),
+      });
+      fireTactile();
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to adapt the remaining weeks.';
+      setError(message);
+      showBanner(message, 'error');
+    } finally {
+      setAdaptationLoading(false);
+    }
+  };
+
+  const applyAdaptationProposal = () => {
+    if (!adaptationProposal) {
+      return;
+    }
+    const savedAt = new Date().toISOString();
+    const versions = adaptationProposal.diffs.flatMap((diff): PlanWeekVersion[] => {
+      const tableIndex = findWeekTableIndex(planTables, diff.week);
+      return tableIndex === -1 ? [] : [{ week: diff.week, savedAt, action: 'adapt', table: planTables[tableIndex] }];
     });
-    const compactInput = toCompactInput(input);
-    const runDayCap = parseRunDayCap(input.runDaysPerWeek);
-    const partResponses: string[] = [];
-    const accumulatedTables: PlanTable[] = [];
-    const historySummaries: string[] = [];
-    const nextDebugPrompts: WeeklyDebugPrompt[] = [];
-
-    for (const part of parts) {
-      const expectedWeekNumber = Number.parseInt(part.label, 10);
-      const fullPromptInput: PlanInput = {
-        ...input,
-        historyContext: historySummaries.join('\n\n'),
-      };
-      const compactPromptInput: PlanInput = {
-        ...compactInput,
-        historyContext: historySummaries.join('\n\n'),
-      };
-      try {
-        const fullPrompt = buildAdaptiveRunningCoachPrompt(fullPromptInput, part.key);
-        nextDebugPrompts.push({ week: expectedWeekNumber, mode: 'full', prompt: fullPrompt });
-        let text = await queryModel(fullPrompt);
-        let structuredWeek = parseWeekJsonFromText(text, expectedWeekNumber);
-        let normalizedTables = structuredWeek
-          ? [structuredWeekToTable(structuredWeek)]
-          : enforceExpectedWeek(parseMarkdownTables(text), expectedWeekNumber);
-        if (countPlannedRunDays(normalizedTables) > runDayCap) {
-          const correctionPrompt = withRunDayCorrection(fullPrompt, expectedWeekNumber, runDayCap);
-          nextDebugPrompts.push({ week: expectedWeekNumber, mode: 'full-corrective', prompt: correctionPrompt });
-          text = await queryModel(correctionPrompt);
-          structuredWeek = parseWeekJsonFromText(text, expectedWeekNumber);
-          normalizedTables = structuredWeek
-            ? [structuredWeekToTable(structuredWeek)]
-            : enforceExpectedWeek(parseMarkdownTables(text), expectedWeekNumber);
-        }
-        normalizedTables = clampWeekToRunDayCap(normalizedTables, runDayCap, input.longRunDay);
-        partResponses.push(text);
-        accumulatedTables.push(...normalizedTables);
-        historySummaries.push(summarizeWeekForHistory(normalizedTables, expectedWeekNumber));
-      } catch (caught) {
-        const message = caught instanceof Error ? caught.message : 'Unknown planning error.';
-        if (!looksLikeContextWindowError(message)) {
-          throw caught;
-        }
+    setPlanTables(adaptationProposal.tables);
+    markAdaptationReviewed(adaptationProposal.reviewedWeek, adaptationProposal.tables, versions);
+    setAdaptationProposal(null);
+    fireTactile();
+    showBanner(`Updated ${adaptationProposal.diffs.length} upcoming week${adaptationProposal.diffs.length === 1 ? '' : 's'}`, 'success');
+  };
 
-        const compactPrompt = buildAdaptiveRunningCoachPrompt(compactPromptInput, part.key);
-        nextDebugPrompts.push({ week: expectedWeekNumber, mode: 'compact', prompt: compactPrompt });
-        let text = await queryModel(compactPrompt);
-        let structuredWeek = parseWeekJsonFromText(text, expectedWeekNumber);
-        let normalizedTables = structuredWeek
-          ? [structuredWeekToTable(structuredWeek)]
-          : enforceExpectedWeek(parseMarkdownTables(text), expectedWeekNumber);
-        if (countPlannedRunDays(normalizedTables) > runDayCap) {
-          const correctionPrompt = withRunDayCorrection(compactPrompt, expectedWeekNumber, runDayCap);
-          nextDebugPrompts.push({ week: expectedWeekNumber, mode: 'compact-corrective', prompt: correctionPrompt });
-          text = await queryModel(correctionPrompt);
-          structuredWeek = parseWeekJsonFromText(text, expectedWeekNumber);
-          normalizedTables = structuredWeek
-            ? [structuredWeekToTable(structuredWeek)]
-            : enforceExpectedWeek(parseMarkdownTables(text), expectedWeekNumber);
-        }
-        normalizedTables = clampWeekToRunDayCap(normalizedTables, runDayCap, input.longRunDay);
-        partResponses.push(text);
-        accumulatedTables.push(...normalizedTables);
-        historySummaries.push(summarizeWeekForHistory(normalizedTables, expectedWeekNumber));
+  const discardAdaptationProposal = () => {
+    if (adaptationProposal) {
+      markAdaptationReviewed(adaptationProposal.reviewedWeek);
+    }
+    setAdaptationProposal(null);
+    showBanner('Kept the current plan', 'info');
+  };
+
+  const refreshReadiness = async () => {
+    setReadinessLoading(true);
+    setError('');
+    try {
+      const summary = await loadHealthSummary(false);
+      if (summary && !computeReadiness(summary)) {
+        showBanner('Not enough HRV, resting HR, or sleep history for a readiness score yet', 'info');
       }
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to load Health data.';
+      setError(message);
+      showBanner(message, 'error');
+    } finally {
+      setReadinessLoading(false);
+    }
+  };
 
-      const partialCombined = parts
-        .slice(0, partResponses.length)
-        .map((currentPart, index) => [currentPart.title, partResponses[index] ?? ''].join('\n'))
-        .join('\n\n');
-      setResponse(partialCombined);
-      setPlanTables([...accumulatedTables]);
-      setDebugPrompts([...nextDebugPrompts]);
+  const adjustTodayForReadiness = (mode: DailyAdjustmentMode) => {
+    const tableIndex = findWeekTableIndex(planTables, todayWeekNumber);
+    const adjusted = tableIndex === -1 ? null : adjustSessionForReadiness(planTables[tableIndex], todayDayName, mode, distanceUnit);
+    if (!adjusted) {
+      setError("Today's session can't be adjusted.");
+      return;
     }
-    setDebugPrompts(nextDebugPrompts);
+    const guarded = rerunWeekGuardrails(
+      activePlanSettings(),
+      planTables.map((current, index) => (index === tableIndex ? adjusted.table : current)),
+      todayWeekNumber
+    );
+    replacePlanWeek(todayWeekNumber, guarded?.table ?? adjusted.table, 'readiness');
+    fireTactile();
+    showBanner(adjusted.message, 'success');
+  };
 
-    const combined = parts
-      .map((part, index) => [part.title, partResponses[index] ?? ''].join('\n'))
-      .join('\n\n');
-    const tables = [...accumulatedTables];
-    return { combined, tables };
+  const swapPlanDays = (weekNumber: number, dayName: string, otherDay: string) => {
+    const tableIndex = findWeekTableIndex(planTables, weekNumber);
+    const table = planTables[tableIndex];
+    if (!table) {
+      return;
+    }
+    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+    const touchesRace = table.rows.some(
+      (row, rowIndex) =>
+        [dayName, otherDay].includes(normalizeDayName(row[dayIndex] ?? '') ?? '') &&
+        workoutForRow(table, rowIndex).category === 'race'
+    );
+    if (touchesRace) {
+      setError('Race days stay fixed; pick two other days to swap.');
+      showBanner('Race days stay fixed', 'error');
+      return;
+    }
+    const swapped = swapDays(table, dayName, otherDay);
+    if (!swapped) {
+      setError(`Could not find ${dayName} and ${otherDay} in week ${weekNumber}.`);
+      return;
+    }
+
+    const guarded = rerunWeekGuardrails(
+      activePlanSettings(),
+      planTables.map((current, index) => (index === tableIndex ? swapped : current)),
+      weekNumber
+    );
+    replacePlanWeek(weekNumber, guarded?.table ?? swapped, 'swap');
+    setSelectedCalendarCell(null);
+    setError('');
+    fireTactile();
+    showBanner(
+      weekChangeNote(`Swapped ${dayName} and ${otherDay}`, guarded ?? { table: swapped, loadAdjustments: [], paceCorrections: [] }),
+      'success'
+    );
   };
 
+
   const generateHealthInsights = async () => {
+    if (planWindow && !planWindow.ok) {
+      setError(planWindow.error);
+      showBanner(planWindow.error, 'error');
+      return;
+    }
+    const raceWindow = planWindow?.ok ? planWindow.window : null;
+    const planLength = raceWindow?.planLengthWeeks ?? planLengthWeeks;
+    const tuneUpSchedule =
+      raceWindow && tuneUpRaces.length
+        ? scheduleTuneUpRaces(tuneUpRaces, raceWindow.planStartDate, raceWindow.planLengthWeeks)
+        : null;
+    if (tuneUpSchedule && !tuneUpSchedule.ok) {
+      setError(tuneUpSchedule.error);
+      showBanner(tuneUpSchedule.error, 'error');
+      return;
+    }
     setHealthLoading(true);
     setError('');
     setResponse('');
     setPlanTables([]);
     setDebugPrompts([]);
+    setAdaptationProposal(null);
 
     try {
-      const authorized = await ExpoAppleIntelligence.requestHealthAuthorizationAsync();
-      if (!authorized) {
-      setError('Health permission was not granted.');
-      return;
+      const summary = await loadPlanHealthSummary();
+      if (!summary) {
+        return;
       }
-
-      const rawSummary = await ExpoAppleIntelligence.getHealthSummaryAsync(lookbackDays);
-      const summary = normalizeSummary(rawSummary);
-      setHealthSummary(summary);
-      setSyncedEventIds([]);
       setVisibleSegment('weeks1to4');
       setFollowUpAnswer('');
       setPlanQuestion('');
       setShowPlanAssistant(false);
 
-      const stepTrend = trendLine(
-        'Daily steps',
-        summary.steps.filter((row) => row.steps > 0).map((row) => row.steps),
-        'steps'
-      );
-      const restingHrTrend = trendLine(
-        'Resting HR',
-        summary.restingHeartRate.filter((row) => row.restingBpm > 0).map((row) => row.restingBpm),
-        'bpm'
-      );
-      const sleepTrend = trendLine(
-        'Sleep duration',
-        summary.sleep.filter((row) => row.hoursAsleep > 0).map((row) => row.hoursAsleep),
-        'hours'
-      );
-      const hrvTrend = trendLine(
-        'HRV',
-        summary.hrv.filter((row) => row.hrvMs > 0).map((row) => row.hrvMs),
-        'ms'
-      );
-      const vo2Trend = trendLine(
-        'VO2 max',
-        summary.vo2Max.filter((row) => row.vo2Max > 0).map((row) => row.vo2Max),
-        'ml/kg/min'
-      );
-      const activeEnergyTrend = trendLine(
-        'Active energy',
-        summary.activeEnergy.filter((row) => row.activeKilocalories > 0).map((row) => row.activeKilocalories),
-        'kcal'
-      );
-      const distanceTrend = trendLine(
-        'Walking/running distance',
-        summary.distanceWalkingRunning
-          .filter((row) => row.distanceKm > 0)
-          .map((row) => (distanceUnit === 'miles' ? row.distanceKm * 0.621371 : row.distanceKm)),
-        distanceUnit
-      );
-      const workoutNarrative = summarizeWorkouts(summary, lookbackDays);
-      const hours = targetHours.trim();
-      const minutesRaw = targetMinutes.trim();
-      const secondsRaw = targetSeconds.trim();
-      const minutesPadded = minutesRaw === '' ? '00' : minutesRaw.padStart(2, '0');
-      const secondsPadded = secondsRaw === '' ? '00' : secondsRaw.padStart(2, '0');
-      const targetTime = hours || minutesRaw || secondsRaw ? `${hours || '0'}:${minutesPadded}:${secondsPadded}` : undefined;
-      const parsedTargetTimeSeconds = parseDurationSecondsFromInputs(hours, minutesRaw, secondsRaw);
-      const targetTimeSeconds = parsedTargetTimeSeconds ?? undefined;
+
       const adaptationContext = buildAdaptationContext(activePlanId, completions);
-      const fullInput = {
+      const fullInput: PlanInput = {
+        ...buildHealthTrends(summary, distanceUnit, lookbackDays),
+        ...targetTimeInput(),
+        ...pacingInput(),
         lookbackDays,
-        planLengthWeeks,
+        planLengthWeeks: planLength,
         selectedGoal,
         runningLevel,
-        targetTime,
-        targetTimeSeconds,
         runDaysPerWeek,
         longRunDay,
         distanceUnit,
-        restingHrTrend,
-        sleepTrend,
-        hrvTrend,
-        vo2Trend,
-        distanceTrend,
-        stepTrend,
-        workoutNarrative,
         adaptationContext,
+        trainingLoadContext: trainingLoadContext(summary),
+        heartRateZonesContext: heartRateZonesContext(summary),
+        raceDate: raceWindow ? formatDateInput(raceWindow.raceDate) : undefined,
+        raceDay: raceWindow?.raceDay,
+        tuneUpRaces: tuneUpSchedule?.ok ? tuneUpSchedule.races : undefined,
       };
 
-      const fullPlan = await buildWeeklyPlan(fullInput);
+      const fullPlan = await buildWeeklyPlan(fullInput, {
+        provider: modelProvider,
+        onProgress: (progress) => {
+          setResponse(progress.combined);
+          setPlanTables(progress.tables);
+          setDebugPrompts(progress.debugPrompts);
+        },
+      });
+      setDebugPrompts(fullPlan.debugPrompts);
       setResponse(fullPlan.combined);
       setPlanTables(fullPlan.tables);
       const newPlanId = `plan-${Date.now()}`;
-      const newPlanStartDate = nextMonday().toISOString();
+      const newPlanStartDate = (raceWindow?.planStartDate ?? nextMonday()).toISOString();
       const savedPlan: SavedPlan = {
         id: newPlanId,
         createdAt: new Date().toISOString(),
         goal: selectedGoal,
-        planLengthWeeks,
+        planLengthWeeks: planLength,
         runDaysPerWeek,
         longRunDay,
         distanceUnit,
         planStartDate: newPlanStartDate,
+        raceDate: raceWindow ? formatDateInput(raceWindow.raceDate) : undefined,
+        tuneUpRaces: raceWindow && tuneUpRaces.length ? tuneUpRaces : undefined,
+        pacing: recentRace ? { mode: pacingMode, recentRaceGoal, recentRaceTime: recentRaceTime.trim() } : undefined,
         response: fullPlan.combined,
         tables: fullPlan.tables,
       };
-      setSavedPlans((current) => [savedPlan, ...current].slice(0, 12));
+      setSavedPlans((current) => [savedPlan, ...current].slice(0, MAX_SAVED_PLANS));
       setActivePlanId(newPlanId);
       setPlanStartDate(newPlanStartDate);
+      setPlanLengthWeeks(planLength);
       setPlanView('today');
       setScreen('plan');
       fireTactile();
-      showBanner('Plan ready', 'success');
+      const planNotes = [
+        fullPlan.fallbackWeeks.length
+          ? `${fullPlan.fallbackWeeks.length} week${fullPlan.fallbackWeeks.length === 1 ? '' : 's'} from rule-based fallback`
+          : '',
+        fullPlan.loadAdjustments.length
+          ? `${fullPlan.loadAdjustments.length} week${fullPlan.loadAdjustments.length === 1 ? '' : 's'} load-adjusted`
+          : '',
+        fullPlan.paceCorrections.length
+          ? `${fullPlan.paceCorrections.length} pace${fullPlan.paceCorrections.length === 1 ? '' : 's'} corrected`
+          : '',
+      ].filter(Boolean);
+      showBanner(planNotes.length ? `Plan ready (${planNotes.join(', ')})` : 'Plan ready', 'success');
     } catch (caught) {
       const message = caught instanceof Error ? caught.message : 'Unknown error while generating health insights.';
       setError(message);
@@ -1312,16 +2070,26 @@ export default function App() {
         return;
       }
 
-      const events = toCalendarEvents(displayTables, planStartDate);
+      const events = toCalendarEvents(displayTables, distanceUnit, planStartDate, heartRateZoneModel?.zones);
       if (!events.length) {
         setError('No runnable workout rows found to sync.');
         return;
       }
 
-      const eventIds = await ExpoAppleIntelligence.syncCalendarEventsAsync(events);
-      setSyncedEventIds(eventIds);
+      // Re-syncing replaces this plan's earlier events instead of duplicating them.
+      if (syncedEventIds.length) {
+        await ExpoAppleIntelligence.removeCalendarEventsAsync(syncedEventIds);
+      }
+      const eventIds = await ExpoAppleIntelligence.syncCalendarEventsAsync(events.map((entry) => entry.event));
+      const planEvents = events.reduce<Record<string, string>>((acc, entry, index) => {
+        if (eventIds[index]) {
+          acc[completionKey(calendarPlanKey, entry.week, entry.day)] = eventIds[index];
+        }
+        return acc;
+      }, {});
+      setCalendarEvents((current) => ({ ...current, [calendarPlanKey]: planEvents }));
       fireTactile();
-      showBanner(`Synced ${eventIds.length} workouts to Calendar`, 'success');
+      showBanner(`Synced ${Object.keys(planEvents).length} workouts to Calendar`, 'success');
     } catch (caught) {
       const message = caught instanceof Error ? caught.message : 'Failed to sync plan to calendar.';
       setError(message);
@@ -1342,7 +2110,10 @@ export default function App() {
 
     try {
       await ExpoAppleIntelligence.removeCalendarEventsAsync(syncedEventIds);
-      setSyncedEventIds([]);
+      setCalendarEvents((current) => {
+        const { [calendarPlanKey]: _removed, ...rest } = current;
+        return rest;
+      });
       fireTactile();
       showBanner('Removed synced calendar events', 'success');
     } catch (caught) {
@@ -1354,36 +2125,281 @@ export default function App() {
     }
   };
 
+  const exportPlanCalendarFile = async () => {
+    if (!displayTables.length) {
+      setError('Generate a plan first before exporting a calendar file.');
+      return;
+    }
+
+    setCalendarLoading(true);
+    setError('');
+
+    try {
+      const events = toCalendarEvents(displayTables, distanceUnit, planStartDate, heartRateZoneModel?.zones).map(
+        (entry): IcsEvent => ({
+          uid: icsUid(calendarPlanKey, entry.week, entry.day),
+          summary: entry.event.title,
+          start: new Date(entry.event.startDate),
+          end: new Date(entry.event.endDate),
+          description: entry.event.notes,
+        })
+      );
+      if (!events.length) {
+        setError('No runnable workout rows found to export.');
+        return;
+      }
+
+      const calendar = buildIcsCalendar(events, {
+        calendarName: `Frunna ${selectedGoal} Plan`,
+        timeZone: deviceTimeZone(),
+        reminderMinutes: icsReminderMinutes || null,
+      });
+      const fileName = `frunna-${selectedGoal.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-plan.ics`;
+      const shared = await ExpoAppleIntelligence.shareFileAsync(fileName, calendar);
+      if (shared) {
+        showBanner(`Exported ${events.length} workouts as a calendar file`, 'success');
+      }
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to export calendar file.';
+      setError(message);
+      showBanner(message, 'error');
+    } finally {
+      setCalendarLoading(false);
+    }
+  };
+
+  const exportPlanSheet = async (kind: 'csv' | 'html') => {
+    if (!displayTables.length) {
+      setError('Generate a plan first before exporting it.');
+      return;
+    }
+
+    setError('');
+    try {
+      const sessionStatuses = new Map(
+        reconciliation.sessions.map((match) => [`${match.session.week}:${match.session.day}`, match.status])
+      );
+      const days = buildPlanSheetDays(displayTables, planStartDate, (week, day) => ({
+        status: sessionStatuses.get(`${week}:${day}`) ?? null,
+        checkin: activePlanId ? completions[completionKey(activePlanId, week, day)] ?? null : null,
+      }));
+      if (!days.length) {
+        setError('No plan rows found to export.');
+        return;
+      }
+
+      const contents =
+        kind === 'csv'
+          ? buildPlanCsv(days)
+          : buildPlanPrintHtml(days, {
+              title: `Frunna ${selectedGoal} Plan`,
+              subtitle: `${planLengthWeeks} weeks starting ${new Date(planStartDate).toLocaleDateString()}`,
+            });
+      const shared = await ExpoAppleIntelligence.shareFileAsync(planSheetFileName(selectedGoal, kind), contents);
+      if (shared) {
+        showBanner(kind === 'csv' ? `Exported ${days.length} plan days as CSV` : 'Exported printable plan', 'success');
+      }
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to export plan.';
+      setError(message);
+      showBanner(message, 'error');
+    }
+  };
+
+  const exportWorkoutFile = async (format: WorkoutFileFormat, sessions: PlannedSession[]) => {
+    setError('');
+    try {
+      const file = buildWorkoutFile(format, sessions.map(workoutFileSession), distanceUnit, heartRateZoneModel?.zones);
+      if (!file) {
+        setError('No running workouts to export.');
+        return;
+      }
+      const shared = await ExpoAppleIntelligence.shareFileAsync(file.fileName, file.contents, file.encoding);
+      if (shared) {
+        showBanner(`Exported ${WORKOUT_FILE_FORMAT_LABELS[format]} workout file`, 'success');
+      }
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to export workout file.';
+      setError(message);
+      showBanner(message, 'error');
+    }
+  };
+
+  const scheduleOnAppleWatch = async (sessions: PlannedSession[]) => {
+    setError('');
+    try {
+      const today = new Date();
+      const todayKey = new Date(today.getTime() - today.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+      const upcoming = sessions
+        .filter((session) => session.date >= todayKey)
+        .map(workoutFileSession)
+        .filter(isExportableSession);
+      const workoutsJson = buildWorkoutKitJson(upcoming, distanceUnit, heartRateZoneModel?.zones);
+      if (!workoutsJson) {
+        setError('No upcoming running workouts to schedule.');
+        return;
+      }
+      const scheduled = await ExpoAppleIntelligence.scheduleWorkoutKitWorkoutsAsync(workoutsJson);
+      showBanner(
+        scheduled < upcoming.length
+          ? `Scheduled the next ${scheduled} of ${upcoming.length} workouts; Apple Watch holds a limited number at a time`
+          : `Scheduled ${scheduled} workout${scheduled === 1 ? '' : 's'} on Apple Watch`,
+        'success'
+      );
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to schedule workouts on Apple Watch.';
+      setError(message);
+      showBanner(message, 'error');
+    }
+  };
+
+  const exportSavedPlan = async (plan: SavedPlan) => {
+    setError('');
+    try {
+      const file = buildPlanExport(plan, completions);
+      const shared = await ExpoAppleIntelligence.shareFileAsync(planExportFileName(plan), JSON.stringify(file, null, 2));
+      if (shared) {
+        showBanner(`Exported plan with ${Object.keys(file.checkins).length} check-ins`, 'success');
+      }
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to export plan.';
+      setError(message);
+      showBanner(message, 'error');
+    }
+  };
+
+  const importPlanFile = async () => {
+    setError('');
+    try {
+      const raw = await ExpoAppleIntelligence.pickTextFileAsync();
+      if (raw === null) {
+        return;
+      }
+      const parsed = parsePlanExport<SavedPlan, WorkoutCheckin>(raw, { planProblem: savedPlanProblem, checkinProblem });
+      if (!parsed.ok) {
+        setError(parsed.error);
+        showBanner(parsed.error, 'error');
+        return;
+      }
+      const imported = preparePlanImport(parsed.value, savedPlans.map((plan) => plan.id));
+      setSavedPlans((current) => [imported.plan, ...current].slice(0, MAX_SAVED_PLANS));
+      setCompletions((current) => ({ ...current, ...imported.completions }));
+      fireTactile();
+      showBanner(
+        [
+          `Imported ${imported.plan.goal} plan`,
+          imported.renamedFrom ? 'as a copy' : '',
+          savedPlans.length >= MAX_SAVED_PLANS ? `(oldest of ${MAX_SAVED_PLANS} saved plans removed)` : '',
+        ]
+          .filter(Boolean)
+          .join(' '),
+        'success'
+      );
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to import plan.';
+      setError(message);
+      showBanner(message, 'error');
+    }
+  };
+
   const confirmSyncToCalendar = () => {
-    Alert.alert('Sync Plan To Calendar', 'Add all planned workouts to your iOS Calendar?', [
+    const message = syncedEventIds.length
+      ? "Replace this plan's synced workouts in your iOS Calendar?"
+      : 'Add all planned workouts to your iOS Calendar?';
+    Alert.alert('Sync Plan To Calendar', message, [
       { text: 'Cancel', style: 'cancel' },
       { text: 'Sync', onPress: () => void syncPlanToCalendar() },
     ]);
   };
 
   const confirmRemoveSyncedEvents = () => {
-    Alert.alert('Remove Synced Events', 'Delete all Frunna events synced in this session?', [
+    Alert.alert('Remove Synced Events', 'Delete the Frunna calendar events synced for this plan?', [
       { text: 'Cancel', style: 'cancel' },
       { text: 'Remove', style: 'destructive', onPress: () => void removeSyncedEvents() },
     ]);
   };
 
   const openSavedPlan = (plan: SavedPlan) => {
+    setAdaptationProposal(null);
     setActivePlanId(plan.id);
     setPlanStartDate(plan.planStartDate);
     setResponse(plan.response);
     setPlanTables(plan.tables);
-    setPlanLengthWeeks(plan.planLengthWeeks as PlanLengthOption);
+    setPlanLengthWeeks(plan.planLengthWeeks);
+    setRaceDateInput(plan.raceDate ?? '');
+    setStartDateInput('');
+    setTuneUpRaces(plan.tuneUpRaces ?? []);
     setSelectedGoal(plan.goal);
     setRunDaysPerWeek(plan.runDaysPerWeek);
     setLongRunDay(plan.longRunDay);
     setDistanceUnit(plan.distanceUnit);
+    setPacingMode(plan.pacing?.mode ?? 'target');
+    setRecentRaceGoal(plan.pacing?.recentRaceGoal ?? '5K');
+    setRecentRaceTime(plan.pacing?.recentRaceTime ?? '');
     setPlanView('overview');
     setScreen('plan');
     fireTactile();
     showBanner('Loaded saved plan', 'success');
   };
 
+  const addTuneUpRace = () => {
+    if (!parseDateInput(tuneUpDateInput)) {
+      setError('Enter the tune-up race date as YYYY-MM-DD.');
+      return;
+    }
+    setError('');
+    setTuneUpRaces((current) =>
+      [...current, { id: `race-${Date.now()}`, goal: tuneUpGoal, date: tuneUpDateInput.trim(), priority: tuneUpPriority }].sort(
+        (a, b) => a.date.localeCompare(b.date)
+      )
+    );
+    setTuneUpDateInput('');
+    fireTactile();
+  };
+
+  const openTodayCheckin = () => {
+    if (!showCheckinForm && todayHealthWorkout) {
+      const distanceKm = todayHealthWorkout.distanceKm ?? 0;
+      setCheckinDistance(distanceKm ? (distanceUnit === 'miles' ? distanceKm * 0.621371 : distanceKm).toFixed(2) : '');
+      setCheckinDuration(String(todayHealthWorkout.durationMinutes));
+    }
+    setShowCheckinForm((current) => !current);
+  };
+
+  const syncHealthWorkouts = async () => {
+    setWorkoutSyncLoading(true);
+    setError('');
+    try {
+      const summary = await loadHealthSummary(false);
+      if (summary) {
+        showBanner(`${summary.workouts.filter(isRunningWorkout).length} Health runs synced`, 'success');
+      }
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to load Health workouts.';
+      setError(message);
+      showBanner(message, 'error');
+    } finally {
+      setWorkoutSyncLoading(false);
+    }
+  };
+
+  const refreshRacePrediction = async () => {
+    setPredictionLoading(true);
+    setError('');
+    try {
+      const summary = await loadHealthSummary(false);
+      if (summary && !predictRaceTimes(summary, { goals: GOAL_OPTIONS, planWeeks: setupPlanLengthWeeks })) {
+        showBanner('No recent runs with distance or VO2 max in Health yet', 'info');
+      }
+    } catch (caught) {
+      const message = caught instanceof Error ? caught.message : 'Failed to load Health data.';
+      setError(message);
+      showBanner(message, 'error');
+    } finally {
+      setPredictionLoading(false);
+    }
+  };
+
   const saveTodayCheckin = () => {
     if (!todayCompletionKey) {
       return;
@@ -1392,6 +2408,8 @@ export default function App() {
     const nextRpe = Math.min(10, Math.max(1, Number.parseInt(checkinRpe, 10) || 6));
     const nextSoreness = Math.min(10, Math.max(1, Number.parseInt(checkinSoreness, 10) || 4));
     const nextSleep = Math.min(5, Math.max(1, Number.parseInt(checkinSleep, 10) || 3));
+    const actualDistance = Number.parseFloat(checkinDistance);
+    const actualDuration = Number.parseInt(checkinDuration, 10);
 
     setCompletions((current) => ({
       ...current,
@@ -1401,10 +2419,15 @@ export default function App() {
         soreness: nextSoreness,
         sleepQuality: nextSleep,
         notes: checkinNotes.trim(),
+        actualDistanceKm:
+          actualDistance > 0 ? Math.round((distanceUnit === 'miles' ? actualDistance * 1.609344 : actualDistance) * 100) / 100 : undefined,
+        actualDurationMinutes: actualDuration > 0 ? actualDuration : undefined,
       },
     }));
     setShowCheckinForm(false);
     setCheckinNotes('');
+    setCheckinDistance('');
+    setCheckinDuration('');
     fireTactile();
     showBanner('Workout check-in saved', 'success');
   };
@@ -1447,6 +2470,21 @@ export default function App() {
                 </View>
                 <Text style={styles.title}>Frunna</Text>
                 <Text style={styles.subtitle}>Build a personalized race plan from your Health data.</Text>
+                {!!storageWarnings.length && (
+                  <View style={styles.errorBox}>
+                    {storageWarnings.map((warning) => (
+                      <Text key={warning} style={styles.errorText}>
+                        {warning}
+                      </Text>
+                    ))}
+                    <Pressable
+                      onPress={() => setStorageWarnings([])}
+                      style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                    >
+                      <Text style={styles.goalChipText}>Dismiss</Text>
+                    </Pressable>
+                  </View>
+                )}
                 <View style={styles.sectionCard}>
                   <Text style={styles.sectionTitle}>Unlock Your Potential</Text>
                   <Text style={styles.fieldLabel}>What is your running level?</Text>
@@ -1526,6 +2564,59 @@ export default function App() {
                   </View>
                   <Text style={styles.helperText}>This drives predicted time and pace targets for the plan.</Text>
 
+                  <Text style={styles.fieldLabel}>Recent Race Result (optional)</Text>
+                  <View style={styles.goalRow}>
+                    {GOAL_OPTIONS.map((goal) => (
+                      <Pressable
+                        key={`recent-race-${goal}`}
+                        onPress={() => setRecentRaceGoal(goal)}
+                        style={({ pressed }) => [
+                          styles.goalChip,
+                          recentRaceGoal === goal && styles.goalChipActive,
+                          pressed && styles.buttonPressed,
+                        ]}
+                      >
+                        <Text style={[styles.goalChipText, recentRaceGoal === goal && styles.goalChipTextActive]}>{goal}</Text>
+                      </Pressable>
+                    ))}
+                  </View>
+                  <TextInput
+                    value={recentRaceTime}
+                    onChangeText={setRecentRaceTime}
+                    keyboardType="numbers-and-punctuation"
+                    placeholder="Finish time (h:mm:ss or mm:ss)"
+                    placeholderTextColor="#6f849f"
+                    style={styles.checkinInput}
+                  />
+                  {recentRacePaces && (
+                    <>
+                      <Text style={styles.fieldLabel}>Pacing</Text>
+                      <View style={styles.goalRow}>
+                        {PACING_MODES.map((mode) => (
+                          <Pressable
+                            key={mode}
+                            onPress={() => setPacingMode(mode)}
+                            style={({ pressed }) => [
+                              styles.goalChip,
+                              pacingMode === mode && styles.goalChipActive,
+                              pressed && styles.buttonPressed,
+                            ]}
+                          >
+                            <Text style={[styles.goalChipText, pacingMode === mode && styles.goalChipTextActive]}>
+                              {PACING_MODE_LABELS[mode]}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      <Text style={styles.helperText}>{`VDOT ${recentRacePaces.vdot.toFixed(1)} training paces:`}</Text>
+                      {VDOT_PACE_KEYS.map((key) => (
+                        <Text key={`vdot-${key}`} style={styles.helperText}>
+                          {`${VDOT_PACE_LABELS[key]}: ${formatPaceBand(vdotPaceBand(recentRacePaces[key], distanceUnit), distanceUnit)}`}
+                        </Text>
+                      ))}
+                    </>
+                  )}
+
                   <Text style={styles.fieldLabel}>Days Per Week Can You Train?</Text>
                   <View style={styles.daySelectorRow}>
                     {TRAIN_DAYS_OPTIONS.map((dayCount) => {
@@ -1546,24 +2637,121 @@ export default function App() {
                     })}
                   </View>
 
-                  <Text style={styles.fieldLabel}>How Long Do You Want To Train?</Text>
-                  <View style={styles.goalRow}>
-                    {PLAN_LENGTH_OPTIONS.map((weeks) => (
+                  <Text style={styles.fieldLabel}>Race Date (optional)</Text>
+                  <TextInput
+                    value={raceDateInput}
+                    onChangeText={setRaceDateInput}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    placeholder="YYYY-MM-DD"
+                    placeholderTextColor="#6f849f"
+                    style={styles.checkinInput}
+                  />
+                  {!!raceDateInput.trim() && (
+                    <>
+                      <Text style={styles.fieldLabel}>Start Date (optional)</Text>
+                      <TextInput
+                        value={startDateInput}
+                        onChangeText={setStartDateInput}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        placeholder={`YYYY-MM-DD (default ${formatDateInput(nextMonday())})`}
+                        placeholderTextColor="#6f849f"
+                        style={styles.checkinInput}
+                      />
+                      <Text style={styles.helperText}>
+                        {planWindow?.ok
+                          ? `${planWindow.window.planLengthWeeks}-week plan from ${formatDateInput(planWindow.window.planStartDate)}; race on ${planWindow.window.raceDay}, the final day.`
+                          : planWindow?.error}
+                      </Text>
+
+                      <Text style={styles.fieldLabel}>Tune-up Races</Text>
+                      {tuneUpRaces.map((race) => (
+                        <View key={race.id} style={styles.savedPlanRow}>
+                          <View style={styles.savedPlanMeta}>
+                            <Text style={styles.savedPlanTitle}>{`${race.priority} race • ${race.goal}`}</Text>
+                            <Text style={styles.savedPlanSubtitle}>{race.date}</Text>
+                          </View>
+                          <Pressable
+                            onPress={() => setTuneUpRaces((current) => current.filter((entry) => entry.id !== race.id))}
+                            style={({ pressed }) => [styles.savedPlanOpenButton, pressed && styles.buttonPressed]}
+                          >
+                            <Text style={styles.savedPlanOpenText}>Remove</Text>
+                          </Pressable>
+                        </View>
+                      ))}
+                      <View style={styles.goalRow}>
+                        {GOAL_OPTIONS.map((goal) => (
+                          <Pressable
+                            key={`tune-up-${goal}`}
+                            onPress={() => setTuneUpGoal(goal)}
+                            style={({ pressed }) => [
+                              styles.goalChip,
+                              tuneUpGoal === goal && styles.goalChipActive,
+                              pressed && styles.buttonPressed,
+                            ]}
+                          >
+                            <Text style={[styles.goalChipText, tuneUpGoal === goal && styles.goalChipTextActive]}>{goal}</Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      <View style={styles.goalRow}>
+                        {TUNE_UP_PRIORITY_OPTIONS.map((priority) => (
+                          <Pressable
+                            key={`tune-up-priority-${priority}`}
+                            onPress={() => setTuneUpPriority(priority)}
+                            style={({ pressed }) => [
+                              styles.goalChip,
+                              tuneUpPriority === priority && styles.goalChipActive,
+                              pressed && styles.buttonPressed,
+                            ]}
+                          >
+                            <Text style={[styles.goalChipText, tuneUpPriority === priority && styles.goalChipTextActive]}>
+                              {priority === 'B' ? 'B • mini-taper' : 'C • train through'}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      <TextInput
+                        value={tuneUpDateInput}
+                        onChangeText={setTuneUpDateInput}
+                        autoCapitalize="none"
+                        autoCorrect={false}
+                        placeholder="Tune-up date YYYY-MM-DD"
+                        placeholderTextColor="#6f849f"
+                        style={styles.checkinInput}
+                      />
                       <Pressable
-                        key={weeks}
-                        onPress={() => setPlanLengthWeeks(weeks)}
-                        style={({ pressed }) => [
-                          styles.goalChip,
-                          planLengthWeeks === weeks && styles.goalChipActive,
-                          pressed && styles.buttonPressed,
-                        ]}
+                        onPress={addTuneUpRace}
+                        style={({ pressed }) => [styles.savedPlanOpenButton, pressed && styles.buttonPressed]}
                       >
-                        <Text style={[styles.goalChipText, planLengthWeeks === weeks && styles.goalChipTextActive]}>
-                          {weeks} weeks
-                        </Text>
+                        <Text style={styles.savedPlanOpenText}>Add Tune-up Race</Text>
                       </Pressable>
-                    ))}
-                  </View>
+                    </>
+                  )}
+
+                  {!raceDateInput.trim() && (
+                    <>
+                      <Text style={styles.fieldLabel}>How Long Do You Want To Train?</Text>
+                      <View style={styles.goalRow}>
+                        {PLAN_LENGTH_OPTIONS.map((weeks) => (
+                          <Pressable
+                            key={weeks}
+                            onPress={() => setPlanLengthWeeks(weeks)}
+                            style={({ pressed }) => [
+                              styles.goalChip,
+                              planLengthWeeks === weeks && styles.goalChipActive,
+                              pressed && styles.buttonPressed,
+                            ]}
+                          >
+                            <Text style={[styles.goalChipText, planLengthWeeks === weeks && styles.goalChipTextActive]}>
+                              {weeks} weeks
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                    </>
+                  )}
 
                   <Pressable
                     onPress={() => setShowAdvanced((current) => !current)}
@@ -1628,13 +2816,128 @@ export default function App() {
                           </Pressable>
                         ))}
                       </View>
+
+                      <Text style={styles.fieldLabel}>Heart-Rate Zones</Text>
+                      <TextInput
+                        value={athleteAge}
+                        onChangeText={setAthleteAge}
+                        keyboardType="number-pad"
+                        placeholder="Age"
+                        placeholderTextColor="#6f849f"
+                        style={styles.checkinInput}
+                      />
+                      <TextInput
+                        value={fieldTestMaxHr}
+                        onChangeText={setFieldTestMaxHr}
+                        keyboardType="number-pad"
+                        placeholder="Max HR from a field test (optional)"
+                        placeholderTextColor="#6f849f"
+                        style={styles.checkinInput}
+                      />
+                      <TextInput
+                        value={fieldTestThresholdHr}
+                        onChangeText={setFieldTestThresholdHr}
+                        keyboardType="number-pad"
+                        placeholder="Threshold HR from a 30-min test (optional)"
+                        placeholderTextColor="#6f849f"
+                        style={styles.checkinInput}
+                      />
+                      <Text style={styles.helperText}>
+                        {heartRateZoneModel
+                          ? `${ZONE_METHOD_LABELS[heartRateZoneModel.method]} • max ${heartRateZoneModel.maxBpm} bpm (${
+                              MAX_HEART_RATE_SOURCE_LABELS[heartRateZoneModel.maxSource]
+                            })${heartRateZoneModel.restingBpm ? ` • resting ${heartRateZoneModel.restingBpm} bpm` : ''}`
+                          : 'Enter your age, or build a plan with Health workouts, to personalise heart-rate zones.'}
+                      </Text>
+
+                      <Text style={styles.fieldLabel}>Coach Model</Text>
+                      <View style={styles.goalRow}>
+                        {COACH_MODEL_PROVIDER_IDS.map((providerId) => (
+                          <Pressable
+                            key={providerId}
+                            onPress={() => setModelProviderId(providerId)}
+                            style={({ pressed }) => [
+                              styles.goalChip,
+                              modelProviderId === providerId && styles.goalChipActive,
+                              pressed && styles.buttonPressed,
+                            ]}
+                          >
+                            <Text style={[styles.goalChipText, modelProviderId === providerId && styles.goalChipTextActive]}>
+                              {COACH_MODEL_PROVIDER_LABELS[providerId]}
+                            </Text>
+                          </Pressable>
+                        ))}
+                      </View>
+                      {modelProviderId === 'openai-compatible' && (
+                        <>
+                          <Text style={styles.fieldLabel}>Server URL</Text>
+                          <TextInput
+                            value={modelServerUrl}
+                            onChangeText={setModelServerUrl}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            placeholder={DEFAULT_OPENAI_COMPATIBLE_CONFIG.baseUrl}
+                            placeholderTextColor="#6f849f"
+                            style={styles.checkinInput}
+                          />
+                          <Text style={styles.fieldLabel}>Model Name</Text>
+                          <TextInput
+                            value={modelServerModel}
+                            onChangeText={setModelServerModel}
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            placeholder={DEFAULT_OPENAI_COMPATIBLE_CONFIG.model}
+                            placeholderTextColor="#6f849f"
+                            style={styles.checkinInput}
+                          />
+                          <Text style={styles.helperText}>Any OpenAI-compatible chat endpoint (llama.cpp, Ollama, LM Studio).</Text>
+                        </>
+                      )}
+                      {modelProviderId === 'scripted' && (
+                        <Text style={styles.helperText}>Deterministic stand-in responses for development and testing.</Text>
+                      )}
                     </View>
                   )}
 
                   <View style={styles.predictionCard}>
-                    <Text style={styles.predictionTitle}>{`Estimated ${selectedGoal} time in ${planLengthWeeks} weeks`}</Text>
+                    <Text style={styles.predictionTitle}>{`Estimated ${selectedGoal} time in ${setupPlanLengthWeeks} weeks`}</Text>
                     <Text style={styles.predictionRange}>{predictionRange}</Text>
-                    <Text style={styles.predictionCaption}>Based on your level, target time, and training availability.</Text>
+                    {fitnessEstimate ? (
+                      <>
+                        <Text style={styles.predictionCaption}>
+                          {`Current fitness VDOT ${fitnessEstimate.vdot.toFixed(1)} • ${fitnessEstimate.predictions
+                            .map((prediction) => `${prediction.goal} ${formatDuration(prediction.currentSeconds)}`)
+                            .join(' • ')}`}
+                        </Text>
+                        {targetGapPercent !== null && (
+                          <Text style={styles.predictionCaption}>
+                            {Math.abs(targetGapPercent) < 1
+                              ? 'Your target time matches the projection.'
+                              : targetGapPercent > 0
+                                ? `Your target is ${targetGapPercent.toFixed(1)}% faster than the projection.`
+                                : `Your target is ${Math.abs(targetGapPercent).toFixed(1)}% slower than the projection.`}
+                          </Text>
+                        )}
+                        {fitnessEstimate.explanation.map((line) => (
+                          <Text key={`prediction-${line}`} style={styles.predictionCaption}>
+                            {line}
+                          </Text>
+                        ))}
+                      </>
+                    ) : (
+                      <>
+                        <Text style={styles.predictionCaption}>
+                          Based on your recent hard runs, Health VO2 max, and weekly volume.
+                        </Text>
+                        <Pressable
+                          disabled={predictionLoading}
+                          onPress={() => void refreshRacePrediction()}
+                          style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                        >
+                          <Text style={styles.goalChipText}>{predictionLoading ? 'Loading...' : 'Estimate from Health'}</Text>
+                        </Pressable>
+                      </>
+                    )}
                   </View>
 
                   <Pressable
@@ -1649,17 +2952,37 @@ export default function App() {
                   )}
                 </Pressable>
 
-                {!!savedPlans.length && (
-                  <View style={styles.savedPlansSection}>
+                <View style={styles.savedPlansSection}>
+                  <View style={styles.savedPlanRow}>
                     <Text style={styles.fieldLabel}>Saved Plans</Text>
-                    {savedPlans.slice(0, 3).map((plan) => (
-                      <View key={plan.id} style={styles.savedPlanRow}>
-                        <View style={styles.savedPlanMeta}>
-                          <Text style={styles.savedPlanTitle}>{`${plan.goal} • ${plan.planLengthWeeks} weeks`}</Text>
-                          <Text style={styles.savedPlanSubtitle}>
-                            {new Date(plan.createdAt).toLocaleDateString()}
-                          </Text>
-                        </View>
+                    <Pressable
+                      onPress={() => void importPlanFile()}
+                      style={({ pressed }) => [styles.savedPlanOpenButton, pressed && styles.buttonPressed]}
+                    >
+                      <Text style={styles.savedPlanOpenText}>Import</Text>
+                    </Pressable>
+                  </View>
+                  {!savedPlans.length && <Text style={styles.savedPlanSubtitle}>No saved plans yet.</Text>}
+                  {!NATIVE_STORAGE_AVAILABLE && (
+                    <Text style={styles.savedPlanSubtitle}>
+                      Saving is iOS-only. Plans here last until the app closes; export them to keep a copy.
+                    </Text>
+                  )}
+                  {savedPlans.slice(0, 3).map((plan) => (
+                    <View key={plan.id} style={styles.savedPlanRow}>
+                      <View style={styles.savedPlanMeta}>
+                        <Text style={styles.savedPlanTitle}>{`${plan.goal} • ${plan.planLengthWeeks} weeks${plan.raceDate ? ` • race ${plan.raceDate}` : ''}`}</Text>
+                        <Text style={styles.savedPlanSubtitle}>
+                          {new Date(plan.createdAt).toLocaleDateString()}
+                        </Text>
+                      </View>
+                      <View style={styles.savedPlanActions}>
+                        <Pressable
+                          onPress={() => void exportSavedPlan(plan)}
+                          style={({ pressed }) => [styles.savedPlanOpenButton, pressed && styles.buttonPressed]}
+                        >
+                          <Text style={styles.savedPlanOpenText}>Export</Text>
+                        </Pressable>
                         <Pressable
                           onPress={() => openSavedPlan(plan)}
                           style={({ pressed }) => [styles.savedPlanOpenButton, pressed && styles.buttonPressed]}
@@ -1667,9 +2990,9 @@ export default function App() {
                           <Text style={styles.savedPlanOpenText}>Open</Text>
                         </Pressable>
                       </View>
-                    ))}
-                  </View>
-                )}
+                    </View>
+                  ))}
+                </View>
               </View>
                 {!!error && (
                   <View style={styles.errorBox}>
@@ -1724,6 +3047,54 @@ export default function App() {
                 {!!displayTables.length && (
                   <View style={styles.responseBox}>
                     <Text style={styles.responseLabel}>Your Plan</Text>
+                    {adaptationProposal ? (
+                      <View style={styles.todayCard}>
+                        <Text style={styles.tableTitle}>{`Proposed update for weeks ${adaptationProposal.fromWeek}-${planLengthWeeks}`}</Text>
+                        {!!adaptationProposal.notes.length && (
+                          <Text style={styles.helperText}>{adaptationProposal.notes.join(' • ')}</Text>
+                        )}
+                        {adaptationProposal.diffs.map((diff) => (
+                          <View key={`adapt-week-${diff.week}`}>
+                            <Text style={styles.todayWorkoutType}>
+                              {`Week ${diff.week} • ${diff.distanceBefore.toFixed(1)} → ${diff.distanceAfter.toFixed(1)} ${distanceUnit}`}
+                            </Text>
+                            {diff.changes.map((change) => (
+                              <Text key={`adapt-${diff.week}-${change.day}`} style={styles.responseText}>
+                                {`${change.day.slice(0, 3)}: ${change.before} → ${change.after}`}
+                              </Text>
+                            ))}
+                          </View>
+                        ))}
+                        <Pressable onPress={applyAdaptationProposal} style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}>
+                          <Text style={styles.buttonText}>Apply Changes</Text>
+                        </Pressable>
+                        <Pressable
+                          onPress={discardAdaptationProposal}
+                          style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+                        >
+                          <Text style={styles.secondaryButtonText}>Keep Current Plan</Text>
+                        </Pressable>
+                      </View>
+                    ) : (
+                      adaptationDueWeek !== null && (
+                        <View style={styles.todayCard}>
+                          <Text style={styles.tableTitle}>{`Week ${adaptationDueWeek} is done`}</Text>
+                          <Text style={styles.helperText}>
+                            Compare it with your check-ins and latest Health trends, then review a proposed update to the remaining
+                            weeks before anything changes.
+                          </Text>
+                          <Pressable
+                            disabled={adaptationLoading}
+                            onPress={() => void runWeeklyAdaptation()}
+                            style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
+                          >
+                            <Text style={styles.buttonText}>
+                              {adaptationLoading ? `Adapting${loadingDots}` : 'Review Weekly Adaptation'}
+                            </Text>
+                          </Pressable>
+                        </View>
+                      )
+                    )}
                     <View style={styles.goalRow}>
                       <Pressable
                         onPress={() => setPlanView('overview')}
@@ -1770,28 +3141,117 @@ export default function App() {
                     {planView === 'today' && (
                       <View style={styles.todayCard}>
                         <Text style={styles.tableTitle}>{`Week ${todayWeekNumber} • ${todayDayName}`}</Text>
+                        {readiness ? (
+                          <View style={styles.checkinSummaryBox}>
+                            <Text style={styles.checkinSummaryText}>
+                              {`Readiness ${readiness.score}/100 • ${READINESS_LEVEL_LABELS[readiness.level]}`}
+                            </Text>
+                            {readiness.components.map((component) => (
+                              <Text key={`readiness-${component.metric}`} style={styles.helperText}>
+                                {describeReadinessComponent(component)}
+                              </Text>
+                            ))}
+                          </View>
+                        ) : (
+                          <Pressable
+                            disabled={readinessLoading}
+                            onPress={() => void refreshReadiness()}
+                            style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                          >
+                            <Text style={styles.goalChipText}>{readinessLoading ? 'Checking...' : 'Check Readiness'}</Text>
+                          </Pressable>
+                        )}
+                        {canAdjustTodayForReadiness && (
+                          <>
+                            <Text style={styles.helperText}>
+                              Readiness is low today. Take it easy and move the hard session later in the week?
+                            </Text>
+                            <View style={styles.goalRow}>
+                              <Pressable
+                                onPress={() => adjustTodayForReadiness('easy')}
+                                style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                              >
+                                <Text style={styles.goalChipText}>Swap to Easy</Text>
+                              </Pressable>
+                              <Pressable
+                                onPress={() => adjustTodayForReadiness('rest')}
+                                style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                              >
+                                <Text style={styles.goalChipText}>Rest Today</Text>
+                              </Pressable>
+                            </View>
+                          </>
+                        )}
                         {todayWorkout ? (
                           <>
                             <Text style={styles.todayWorkoutType}>{todayWorkout.workoutType}</Text>
                             {!!todayWorkout.details && <Text style={styles.responseText}>{todayWorkout.details}</Text>}
+                            {todayWorkout.segmentLines.map((line) => (
+                              <Text key={`today-segment-${line}`} style={styles.responseText}>
+                                {line}
+                              </Text>
+                            ))}
+                            {todayWorkout.durationMinutes > 0 && (
+                              <Text style={styles.helperText}>
+                                {`Est. ${todayWorkout.durationMinutes} min${
+                                  todayWorkout.distance > 0 ? ` • ${todayWorkout.distance.toFixed(1)} ${distanceUnit}` : ''
+                                }`}
+                              </Text>
+                            )}
                             {!!todayWorkout.rationale && <Text style={styles.helperText}>{todayWorkout.rationale}</Text>}
+                            {!!todayMatch?.workout && (
+                              <Text style={styles.helperText}>
+                                {`Matched Health workout: ${todayMatch.workout.activityType}, ${formatActualWorkout(todayMatch, distanceUnit)}`}
+                              </Text>
+                            )}
                             {todayCompletion ? (
                               <View style={styles.checkinSummaryBox}>
                                 <Text style={styles.checkinSummaryText}>
                                   {`Completed • RPE ${todayCompletion.rpe}/10 • Soreness ${todayCompletion.soreness}/10 • Sleep ${todayCompletion.sleepQuality}/5`}
                                 </Text>
+                                {!!todayCompletion.actualDistanceKm && (
+                                  <Text style={styles.helperText}>
+                                    {`${(distanceUnit === 'miles' ? todayCompletion.actualDistanceKm * 0.621371 : todayCompletion.actualDistanceKm).toFixed(
+                                      1
+                                    )} ${distanceUnit}${todayCompletion.actualDurationMinutes ? ` in ${todayCompletion.actualDurationMinutes} min` : ''}`}
+                                  </Text>
+                                )}
                               </View>
                             ) : (
                               <Pressable
-                                onPress={() => setShowCheckinForm((current) => !current)}
+                                onPress={openTodayCheckin}
                                 style={({ pressed }) => [styles.button, pressed && styles.buttonPressed]}
                               >
                                 <Text style={styles.buttonText}>{showCheckinForm ? 'Hide Check-In' : 'Mark Complete + Check-In'}</Text>
                               </Pressable>
                             )}
+                            {todayComparison && (
+                              <View style={styles.checkinSummaryBox}>
+                                <Text style={styles.checkinSummaryText}>{`Compliance ${todayComparison.score}/100`}</Text>
+                                {todayComparison.components.map((component) => (
+                                  <Text key={`compliance-${component.metric}`} style={styles.helperText}>
+                                    {describeComplianceComponent(component)}
+                                  </Text>
+                                ))}
+                              </View>
+                            )}
 
                             {showCheckinForm && !todayCompletion && (
                               <View style={styles.checkinForm}>
+                                <Text style={styles.fieldLabel}>{`Distance (${distanceUnit})`}</Text>
+                                <TextInput
+                                  value={checkinDistance}
+                                  onChangeText={setCheckinDistance}
+                                  keyboardType="decimal-pad"
+                                  style={styles.checkinInput}
+                                />
+                                <Text style={styles.fieldLabel}>Duration (min)</Text>
+                                <TextInput
+                                  value={checkinDuration}
+                                  onChangeText={setCheckinDuration}
+                                  keyboardType="number-pad"
+                                  style={styles.checkinInput}
+                                />
                                 <Text style={styles.fieldLabel}>RPE (1-10)</Text>
                                 <TextInput value={checkinRpe} onChangeText={setCheckinRpe} keyboardType="number-pad" style={styles.checkinInput} />
                                 <Text style={styles.fieldLabel}>Soreness (1-10)</Text>
@@ -1821,10 +3281,104 @@ export default function App() {
                     {planView === 'progress' && (
                       <View style={styles.todayCard}>
                         <Text style={styles.tableTitle}>Progress Dashboard</Text>
-                        <Text style={styles.responseText}>{`Planned workouts: ${plannedWorkoutCount}`}</Text>
-                        <Text style={styles.responseText}>{`Completed workouts: ${completedWorkoutCount}`}</Text>
-                        <Text style={styles.responseText}>{`Adherence: ${adherencePercent}%`}</Text>
+                        <Text style={styles.responseText}>{`Planned workouts: ${reconciliation.sessions.length}`}</Text>
+                        <Text style={styles.responseText}>
+                          {`Completed workouts: ${reconciliation.completedCount} of ${reconciliation.dueCount} due`}
+                        </Text>
+                        <Text style={styles.responseText}>{`Adherence: ${reconciliation.adherencePercent}%`}</Text>
+                        <Pressable
+                          disabled={workoutSyncLoading}
+                          onPress={() => void syncHealthWorkouts()}
+                          style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                        >
+                          <Text style={styles.goalChipText}>{workoutSyncLoading ? 'Syncing...' : 'Sync Health Workouts'}</Text>
+                        </Pressable>
+                        {!healthSummary && (
+                          <Text style={styles.helperText}>Adherence uses check-ins only until Health workouts are synced.</Text>
+                        )}
+                        {missedSessions.length > 0 && (
+                          <View style={styles.checkinSummaryBox}>
+                            <Text style={styles.checkinSummaryText}>{`Missed (${missedSessions.length})`}</Text>
+                            {missedSessions.slice(-5).map((match) => (
+                              <Text key={`missed-${match.session.week}-${match.session.day}`} style={styles.helperText}>
+                                {`Week ${match.session.week} ${match.session.day}: ${match.session.workoutType}`}
+                              </Text>
+                            ))}
+                          </View>
+                        )}
+                        {reconciliation.extras.length > 0 && (
+                          <View style={styles.checkinSummaryBox}>
+                            <Text style={styles.checkinSummaryText}>{`Extra runs (${reconciliation.extras.length})`}</Text>
+                            {reconciliation.extras.slice(0, 5).map((workout) => (
+                              <Text key={`extra-${workout.date}-${workout.durationMinutes}`} style={styles.helperText}>
+                                {`${workout.date.slice(0, 10)}: ${workout.activityType}, ${workout.durationMinutes} min${
+                                  workout.distanceKm
+                                    ? `, ${(distanceUnit === 'miles' ? workout.distanceKm * 0.621371 : workout.distanceKm).toFixed(1)} ${distanceUnit}`
+                                    : ''
+                                }`}
+                              </Text>
+                            ))}
+                          </View>
+                        )}
                         <Text style={styles.helperText}>{`Avg RPE ${avgRpe}/10 • Avg soreness ${avgSoreness}/10 • Avg sleep ${avgSleepQuality}/5`}</Text>
+                        {heartRateZoneModel && (
+                          <>
+                            <Text style={styles.fieldLabel}>Heart-Rate Zones</Text>
+                            <Text style={styles.helperText}>
+                              {`${ZONE_METHOD_LABELS[heartRateZoneModel.method]} • max ${heartRateZoneModel.maxBpm} bpm (${
+                                MAX_HEART_RATE_SOURCE_LABELS[heartRateZoneModel.maxSource]
+                              }) • threshold ~${heartRateZoneModel.thresholdBpm} bpm`}
+                            </Text>
+                            {heartRateZoneModel.zones.map((range) => (
+                              <Text key={`hr-zone-${range.zone}`} style={styles.responseText}>
+                                {`Z${range.zone}: ${range.lowBpm}-${range.highBpm} bpm`}
+                              </Text>
+                            ))}
+                          </>
+                        )}
+                        <Text style={styles.fieldLabel}>Compliance by Week</Text>
+                        {weeklyComplianceScores.length ? (
+                          weeklyComplianceScores.map((entry) => (
+                            <Text key={`compliance-week-${entry.week}`} style={styles.responseText}>
+                              {`Week ${entry.week}: ${entry.score}/100 over ${entry.sessions} session${entry.sessions === 1 ? '' : 's'}`}
+                            </Text>
+                          ))
+                        ) : (
+                          <Text style={styles.helperText}>Sync Health workouts or enter actual distance in check-ins to score compliance.</Text>
+                        )}
+                        <Text style={styles.fieldLabel}>{`Training Load (last ${LOAD_CHART_DAYS} days)`}</Text>
+                        {latestTrainingLoad ? (
+                          <>
+                            <View style={styles.loadChart}>
+                              {trainingLoad.map((day) => (
+                                <View
+                                  key={`load-${day.date}`}
+                                  style={[
+                                    styles.loadBar,
+                                    {
+                                      backgroundColor: LOAD_RISK_COLORS[day.risk],
+                                      height: `${Math.max(2, (day.dailyLoad / maxDailyLoad) * 100)}%`,
+                                    },
+                                  ]}
+                                />
+                              ))}
+                            </View>
+                            <Text style={styles.responseText}>
+                              {latestTrainingLoad.acwr === null
+                                ? `ACWR • ${LOAD_RISK_LABELS.unknown}`
+                                : `ACWR ${latestTrainingLoad.acwr.toFixed(2)} • ${LOAD_RISK_LABELS[latestTrainingLoad.risk]}`}
+                            </Text>
+                            <Text style={styles.helperText}>
+                              {`Acute ${Math.round(latestTrainingLoad.acuteLoad)} • Chronic ${Math.round(latestTrainingLoad.chronicLoad)} AU/day${
+                                latestTrainingLoad.monotony === null
+                                  ? ''
+                                  : ` • Monotony ${latestTrainingLoad.monotony.toFixed(2)} • Strain ${Math.round(latestTrainingLoad.strain ?? 0)}`
+                              }`}
+                            </Text>
+                          </>
+                        ) : (
+                          <Text style={styles.helperText}>Log check-ins or load Health workouts to track training load.</Text>
+                        )}
                       </View>
                     )}
 
@@ -1843,18 +3397,20 @@ export default function App() {
                               Weeks 1-4
                             </Text>
                           </Pressable>
-                          <Pressable
-                            onPress={() => setVisibleSegment('weeks5to8')}
-                            style={({ pressed }) => [
-                              styles.goalChip,
-                              visibleSegment === 'weeks5to8' && styles.goalChipActive,
-                              pressed && styles.buttonPressed,
-                            ]}
-                          >
-                            <Text style={[styles.goalChipText, visibleSegment === 'weeks5to8' && styles.goalChipTextActive]}>
-                              {`Weeks 5-${planLengthWeeks}`}
-                            </Text>
-                          </Pressable>
+                          {planLengthWeeks > 4 && (
+                            <Pressable
+                              onPress={() => setVisibleSegment('weeks5to8')}
+                              style={({ pressed }) => [
+                                styles.goalChip,
+                                visibleSegment === 'weeks5to8' && styles.goalChipActive,
+                                pressed && styles.buttonPressed,
+                              ]}
+                            >
+                              <Text style={[styles.goalChipText, visibleSegment === 'weeks5to8' && styles.goalChipTextActive]}>
+                                {`Weeks 5-${planLengthWeeks}`}
+                              </Text>
+                            </Pressable>
+                          )}
                         </View>
                         {planView === 'overview' ? (
                           <>
@@ -1924,6 +3480,76 @@ export default function App() {
                                 </Pressable>
                               )}
                             </View>
+                            <Text style={styles.fieldLabel}>Calendar File (.ics)</Text>
+                            <View style={styles.goalRow}>
+                              {ICS_REMINDER_OPTIONS.map((minutes) => (
+                                <Pressable
+                                  key={`ics-reminder-${minutes}`}
+                                  onPress={() => setIcsReminderMinutes(minutes)}
+                                  style={({ pressed }) => [
+                                    styles.goalChip,
+                                    icsReminderMinutes === minutes && styles.goalChipActive,
+                                    pressed && styles.buttonPressed,
+                                  ]}
+                                >
+                                  <Text style={[styles.goalChipText, icsReminderMinutes === minutes && styles.goalChipTextActive]}>
+                                    {ICS_REMINDER_LABELS[minutes]}
+                                  </Text>
+                                </Pressable>
+                              ))}
+                            </View>
+                            <Pressable
+                              disabled={calendarLoading}
+                              onPress={() => void exportPlanCalendarFile()}
+                              style={({ pressed }) => [styles.calendarButton, pressed && styles.buttonPressed]}
+                            >
+                              <Text style={styles.calendarButtonText}>Export Calendar File</Text>
+                            </Pressable>
+                            <Text style={styles.helperText}>
+                              Import into Google Calendar, Outlook, or any calendar app. Re-importing updates the same events.
+                            </Text>
+                            <Text style={styles.fieldLabel}>Watch Workouts (all sessions)</Text>
+                            <View style={styles.goalRow}>
+                              {WORKOUT_FILE_FORMATS.filter((format) => format !== 'fit').map((format) => (
+                                <Pressable
+                                  key={`plan-workouts-${format}`}
+                                  onPress={() => void exportWorkoutFile(format, reconciliation.sessions.map((match) => match.session))}
+                                  style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                                >
+                                  <Text style={styles.goalChipText}>{WORKOUT_FILE_FORMAT_LABELS[format]}</Text>
+                                </Pressable>
+                              ))}
+                              {Platform.OS === 'ios' && (
+                                <Pressable
+                                  onPress={() => void scheduleOnAppleWatch(reconciliation.sessions.map((match) => match.session))}
+                                  style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                                >
+                                  <Text style={styles.goalChipText}>Apple Watch</Text>
+                                </Pressable>
+                              )}
+                            </View>
+                            <Text style={styles.helperText}>
+                              Open a day in the calendar to export a single session as a Garmin FIT workout.
+                              {Platform.OS === 'ios' ? ' Apple Watch schedules the upcoming sessions in the Workout app.' : ''}
+                            </Text>
+                            <Text style={styles.fieldLabel}>Plan Sheet</Text>
+                            <View style={styles.goalRow}>
+                              <Pressable
+                                onPress={() => void exportPlanSheet('csv')}
+                                style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                              >
+                                <Text style={styles.goalChipText}>CSV</Text>
+                              </Pressable>
+                              <Pressable
+                                onPress={() => void exportPlanSheet('html')}
+                                style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                              >
+                                <Text style={styles.goalChipText}>Printable (HTML)</Text>
+                              </Pressable>
+                            </View>
+                            <Text style={styles.helperText}>
+                              CSV has one row per day with dates, status and check-ins. Open the printable sheet in a browser and print to PDF.
+                            </Text>
                             <Pressable
                               onPress={() => setShowDebugPrompts((current) => !current)}
                               style={({ pressed }) => [styles.advancedToggle, pressed && styles.buttonPressed]}
@@ -1948,7 +3574,35 @@ export default function App() {
                             )}
                             {visibleTables.map((table, tableIndex) => (
                               <View key={`table-${tableIndex}`} style={styles.tableBlock}>
-                                <Text style={styles.tableTitle}>{table.title}</Text>
+                                <Text style={styles.tableTitle}>
+                                  {weeklyDistance(table, distanceUnit) > 0
+                                    ? `${titleWithPhase(table.title)} • ${weeklyDistance(table, distanceUnit).toFixed(1)} ${distanceUnit}`
+                                    : titleWithPhase(table.title)}
+                                </Text>
+                                <View style={styles.goalRow}>
+                                  <Pressable
+                                    disabled={weekActionLoading !== null}
+                                    onPress={() => void regeneratePlanWeek(extractWeekNumber(table.title, tableIndex + 1))}
+                                    style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                                  >
+                                    <Text style={styles.goalChipText}>
+                                      {weekActionLoading === extractWeekNumber(table.title, tableIndex + 1)
+                                        ? `Regenerating${loadingDots}`
+                                        : 'Regenerate Week'}
+                                    </Text>
+                                  </Pressable>
+                                  {activePlan?.weekHistory?.some(
+                                    (version) => version.week === extractWeekNumber(table.title, tableIndex + 1)
+                                  ) && (
+                                    <Pressable
+                                      disabled={weekActionLoading !== null}
+                                      onPress={() => restorePlanWeek(extractWeekNumber(table.title, tableIndex + 1))}
+                                      style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                                    >
+                                      <Text style={styles.goalChipText}>Restore Previous Version</Text>
+                                    </Pressable>
+                                  )}
+                                </View>
                                 <ScrollView horizontal showsHorizontalScrollIndicator={false}>
                                   <View>
                                     <View style={[styles.tableRow, styles.tableHeaderRow]}>
@@ -1962,16 +3616,30 @@ export default function App() {
                                       ))}
                                     </View>
                                     {table.rows.map((row, rowIndex) => (
-                                      <View key={`${tableIndex}-${rowIndex}-${row[0] ?? 'row'}`} style={styles.tableRow}>
+                                      <Pressable
+                                        key={`${tableIndex}-${rowIndex}-${row[0] ?? 'row'}`}
+                                        onPress={() => {
+                                          const dayName = normalizeDayName(row[table.headers.findIndex((header) => header.toLowerCase() === 'day')] ?? '');
+                                          const cell = calendarWeekRows[tableIndex]?.cells.find((entry) => entry.dayName === dayName);
+                                          if (cell) {
+                                            selectCalendarCell(table.title, cell);
+                                          }
+                                        }}
+                                        style={({ pressed }) => [styles.tableRow, pressed && styles.buttonPressed]}
+                                      >
                                         {row.map((cell, cellIndex) => (
                                           <Text
                                             key={`${tableIndex}-${rowIndex}-${cellIndex}`}
                                             style={[styles.tableCell, { width: TABLE_COLUMN_WIDTHS[cellIndex] ?? 160 }]}
                                           >
                                             {cell}
+                                            {!!table.paceCorrections?.[rowIndex] &&
+                                              table.headers[cellIndex]?.toLowerCase().includes('details') && (
+                                                <Text style={styles.paceBadge}>{`\n${table.paceCorrections[rowIndex]}`}</Text>
+                                              )}
                                           </Text>
                                         ))}
-                                      </View>
+                                      </Pressable>
                                     ))}
                                   </View>
                                 </ScrollView>
@@ -1989,22 +3657,27 @@ export default function App() {
                             </View>
                             {calendarWeekRows.map((weekRow, index) => (
                               <View key={`calendar-week-${weekRow.title}-${index}`} style={styles.calendarWeekBlock}>
-                                <Text style={styles.calendarWeekTitle}>{weekRow.title}</Text>
+                                <Text style={styles.calendarWeekTitle}>{titleWithPhase(weekRow.title)}</Text>
                                 <View style={styles.calendarWeekGrid}>
                                   {weekRow.cells.map((cell) => (
                                     <Pressable
                                       key={`${weekRow.title}-${cell.dayName}`}
-                                      onPress={() =>
-                                        setSelectedCalendarCell({
-                                          weekTitle: weekRow.title,
-                                          dayName: cell.dayName,
-                                          workoutType: cell.workoutType,
-                                          details: cell.details,
-                                        })
-                                      }
-                                      style={[styles.calendarCell, cell.isRest ? styles.calendarCellRest : styles.calendarCellWorkoutBg]}
+                                      onPress={() => selectCalendarCell(weekRow.title, cell)}
+                                      style={[
+                                        styles.calendarCell,
+                                        cell.isRest ? styles.calendarCellRest : styles.calendarCellWorkoutBg,
+                                        cell.isRace &&
+                                          (racePriorityFor(weekRow.title, cell.dayName) === 'A'
+                                            ? styles.calendarCellRace
+                                            : styles.calendarCellTuneUp),
+                                      ]}
                                     >
                                       <Text style={styles.calendarCellDay}>{cell.dayName.slice(0, 3)}</Text>
+                                      {cell.isRace && (
+                                        <Text style={styles.calendarRaceLabel}>
+                                          {`${racePriorityFor(weekRow.title, cell.dayName)} Race`}
+                                        </Text>
+                                      )}
                                       <Text style={styles.calendarCellWorkoutText} numberOfLines={2}>
                                         {cell.workoutType}
                                       </Text>
@@ -2063,6 +3736,69 @@ export default function App() {
                 {!!selectedCalendarCell?.details && (
                   <Text style={styles.modalDetail}>{selectedCalendarCell.details}</Text>
                 )}
+                {selectedCalendarCell?.segmentLines.map((line) => (
+                  <Text key={`modal-segment-${line}`} style={styles.modalDetail}>
+                    {line}
+                  </Text>
+                ))}
+                {!!selectedCalendarCell && (
+                  <>
+                    {selectedCalendarCell.isRace ? (
+                      <Text style={styles.helperText}>Race days stay fixed.</Text>
+                    ) : (
+                      <>
+                        <Text style={styles.fieldLabel}>Swap with</Text>
+                        <View style={styles.goalRow}>
+                          {WEEKDAY_NAMES.filter((day) => day !== selectedCalendarCell.dayName).map((day) => (
+                            <Pressable
+                              key={`swap-${day}`}
+                              disabled={weekActionLoading !== null}
+                              onPress={() =>
+                                swapPlanDays(extractWeekNumber(selectedCalendarCell.weekTitle, 0), selectedCalendarCell.dayName, day)
+                              }
+                              style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                            >
+                              <Text style={styles.goalChipText}>{day.slice(0, 3)}</Text>
+                            </Pressable>
+                          ))}
+                        </View>
+                      </>
+                    )}
+                    {!!selectedCalendarSession && (
+                      <>
+                        <Text style={styles.fieldLabel}>Send to watch</Text>
+                        <View style={styles.goalRow}>
+                          {WORKOUT_FILE_FORMATS.map((format) => (
+                            <Pressable
+                              key={`session-workout-${format}`}
+                              onPress={() => void exportWorkoutFile(format, [selectedCalendarSession])}
+                              style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                            >
+                              <Text style={styles.goalChipText}>{WORKOUT_FILE_FORMAT_LABELS[format]}</Text>
+                            </Pressable>
+                          ))}
+                          {Platform.OS === 'ios' && (
+                            <Pressable
+                              onPress={() => void scheduleOnAppleWatch([selectedCalendarSession])}
+                              style={({ pressed }) => [styles.goalChip, pressed && styles.buttonPressed]}
+                            >
+                              <Text style={styles.goalChipText}>Apple Watch</Text>
+                            </Pressable>
+                          )}
+                        </View>
+                      </>
+                    )}
+                    <Pressable
+                      disabled={weekActionLoading !== null}
+                      onPress={() => void regeneratePlanWeek(extractWeekNumber(selectedCalendarCell.weekTitle, 0))}
+                      style={({ pressed }) => [styles.secondaryButton, pressed && styles.buttonPressed]}
+                    >
+                      <Text style={styles.secondaryButtonText}>
+                        {weekActionLoading !== null ? `Regenerating${loadingDots}` : 'Regenerate This Week'}
+                      </Text>
+                    </Pressable>
+                  </>
+                )}
                 <Pressable
                   onPress={() => setSelectedCalendarCell(null)}
                   style={({ pressed }) => [styles.modalCloseButton, pressed && styles.buttonPressed]}
@@ -2387,6 +4123,10 @@ const styles = StyleSheet.create({
     color: '#8ca1be',
     fontSize: 11,
   },
+  savedPlanActions: {
+    flexDirection: 'row',
+    gap: 6,
+  },
   savedPlanOpenButton: {
     backgroundColor: '#1f5eff',
     borderRadius: 8,
@@ -2491,6 +4231,16 @@ const styles = StyleSheet.create({
     fontWeight: '800',
     lineHeight: 26,
   },
+  loadChart: {
+    alignItems: 'flex-end',
+    flexDirection: 'row',
+    gap: 2,
+    height: 80,
+  },
+  loadBar: {
+    borderRadius: 2,
+    flex: 1,
+  },
   modalDetail: {
     color: '#d3deee',
     fontSize: 14,
@@ -2661,6 +4411,23 @@ const styles = StyleSheet.create({
     borderColor: '#27e4dc',
     borderWidth: 1,
   },
+  calendarCellRace: {
+    backgroundColor: '#3b2a0b',
+    borderColor: '#fbbf24',
+    borderWidth: 2,
+  },
+  calendarCellTuneUp: {
+    backgroundColor: '#2a1d46',
+    borderColor: '#a78bfa',
+    borderWidth: 2,
+  },
+  calendarRaceLabel: {
+    color: '#fde68a',
+    fontSize: 9,
+    fontWeight: '800',
+    marginBottom: 2,
+    textAlign: 'center',
+  },
   calendarCellDay: {
     color: '#9eb0ca',
     fontSize: 10,
@@ -2699,6 +4466,11 @@ const styles = StyleSheet.create({
   tableHeaderCell: {
     fontWeight: '700',
   },
+  paceBadge: {
+    color: '#fbbf24',
+    fontSize: 11,
+    fontWeight: '600',
+  },
   tableBlock: {
     gap: 8,
     marginTop: 8,
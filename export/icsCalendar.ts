@@ -0,0 +1,171 @@
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  description?: string;
+};
+
+export type IcsCalendarOptions = {
+  calendarName: string;
+  // IANA zone the event times are local to (the device zone); omit to write UTC times.
+  timeZone?: string | null;
+  reminderMinutes?: number | null;
+  now?: Date;
+};
+
+export const ICS_SETTINGS = {
+  productId: '-//Frunna//Training Plan//EN',
+  uidDomain: 'frunna.app',
+  maxLineOctets: 75,
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+
+const formatStamp = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(
+    date.getUTCMinutes()
+  )}${pad(date.getUTCSeconds())}`;
+
+const offsetMinutes = (date: Date): number => -date.getTimezoneOffset();
+
+// Wall-clock time of an instant at a given UTC offset.
+const formatLocalStamp = (date: Date, offset: number = offsetMinutes(date)): string =>
+  formatStamp(new Date(date.getTime() + offset * MINUTE_MS));
+
+const formatOffset = (offset: number): string => {
+  const sign = offset < 0 ? '-' : '+';
+  const absolute = Math.abs(offset);
+  return `${sign}${pad(Math.floor(absolute / 60))}${pad(absolute % 60)}`;
+};
+
+export const escapeIcsText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const utf8Octets = (character: string): number => {
+  const codePoint = character.codePointAt(0) ?? 0;
+  return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+};
+
+// RFC 5545 3.1: lines longer than 75 octets continue on the next line after a single space.
+const foldLine = (line: string): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const character of line) {
+    const octets = utf8Octets(character);
+    const limit = lines.length ? ICS_SETTINGS.maxLineOctets - 1 : ICS_SETTINGS.maxLineOctets;
+    if (currentOctets + octets > limit) {
+      lines.push(lines.length ? ` ${current}` : current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += character;
+    currentOctets += octets;
+  }
+  lines.push(lines.length ? ` ${current}` : current);
+  return lines;
+};
+
+export const icsUid = (planId: string, week: number, day: string): string =>
+  `${planId}-w${week}-${day.toLowerCase()}@${ICS_SETTINGS.uidDomain}`;
+
+const findTransition = (before: Date, after: Date): Date => {
+  let low = Math.floor(before.getTime() / MINUTE_MS);
+  let high = Math.ceil(after.getTime() / MINUTE_MS);
+  while (high - low > 1) {
+    const middle = low + Math.floor((high - low) / 2);
+    if (offsetMinutes(new Date(middle * MINUTE_MS)) === offsetMinutes(before)) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return new Date(high * MINUTE_MS);
+};
+
+const standardOffset = (year: number): number =>
+  Math.min(offsetMinutes(new Date(year, 0, 1)), offsetMinutes(new Date(year, 6, 1)));
+
+// Observances cover the plan's span only, from the device's own offset history, so no zone database is needed.
+const buildTimeZone = (timeZone: string, events: IcsEvent[]): string[] => {
+  const first = new Date(Math.min(...events.map((event) => event.start.getTime())) - DAY_MS);
+  const last = new Date(Math.max(...events.map((event) => event.end.getTime())) + DAY_MS);
+  const observances = [{ start: first, from: offsetMinutes(first), to: offsetMinutes(first) }];
+  for (let cursor = first.getTime(); cursor < last.getTime(); cursor += DAY_MS) {
+    const day = new Date(cursor);
+    const next = new Date(Math.min(cursor + DAY_MS, last.getTime()));
+    if (offsetMinutes(day) !== offsetMinutes(next)) {
+      observances.push({ start: findTransition(day, next), from: offsetMinutes(day), to: offsetMinutes(next) });
+    }
+  }
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...observances.flatMap((observance) => {
+      const kind = observance.to > standardOffset(observance.start.getFullYear()) ? 'DAYLIGHT' : 'STANDARD';
+      return [
+        `BEGIN:${kind}`,
+        `DTSTART:${formatLocalStamp(observance.start, observance.from)}`,
+        `TZOFFSETFROM:${formatOffset(observance.from)}`,
+        `TZOFFSETTO:${formatOffset(observance.to)}`,
+        `END:${kind}`,
+      ];
+    }),
+    'END:VTIMEZONE',
+  ];
+};
+
+const buildEvent = (event: IcsEvent, options: IcsCalendarOptions, stamp: string): string[] => {
+  const dateTime = (date: Date): string =>
+    options.timeZone ? `;TZID=${options.timeZone}:${formatLocalStamp(date)}` : `:${formatStamp(date)}Z`;
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART${dateTime(event.start)}`,
+    `DTEND${dateTime(event.end)}`,
+    `SUMMARY:${escapeIcsText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeIcsText(event.description)}`] : []),
+    'TRANSP:OPAQUE',
+    ...(options.reminderMinutes
+      ? [
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeIcsText(event.summary)}`,
+          `TRIGGER:-PT${Math.round(options.reminderMinutes)}M`,
+          'END:VALARM',
+        ]
+      : []),
+    'END:VEVENT',
+  ];
+};
+
+export const buildIcsCalendar = (events: IcsEvent[], options: IcsCalendarOptions): string => {
+  const stamp = `${formatStamp(options.now ?? new Date())}Z`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICS_SETTINGS.productId}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(options.calendarName)}`,
+    ...(options.timeZone ? [`X-WR-TIMEZONE:${options.timeZone}`] : []),
+    ...(options.timeZone && events.length ? buildTimeZone(options.timeZone, events) : []),
+    ...events.flatMap((event) => buildEvent(event, options, stamp)),
+    'END:VCALENDAR',
+  ];
+  return `${lines.flatMap(foldLine).join('\r\n')}\r\n`;
+};
+
+export const deviceTimeZone = (): string | null => {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || null;
+  } catch {
+    return null;
+  }
+};
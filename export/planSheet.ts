@@ -0,0 +1,266 @@
+import type { SessionStatus } from '../health/workoutMatching';
+import { DAY_INDEX, extractWeekNumber, normalizeDayName } from '../plan/planTables';
+
+export type PlanSheetTable = {
+  title: string;
+  headers: string[];
+  rows: string[][];
+};
+
+export type PlanSheetCheckin = {
+  rpe: number;
+  soreness: number;
+  sleepQuality: number;
+  notes: string;
+  actualDistanceKm?: number;
+  actualDurationMinutes?: number;
+};
+
+// Status is null for rest days and rows that never became a planned session.
+export type PlanSheetLookup = (
+  week: number,
+  day: string
+) => {
+  status: SessionStatus | null;
+  checkin: PlanSheetCheckin | null;
+};
+
+export type PlanSheetDay = {
+  week: number;
+  weekTitle: string;
+  date: string;
+  day: string;
+  workoutType: string;
+  details: string;
+  rationale: string;
+  status: SessionStatus | 'rest';
+  checkin: PlanSheetCheckin | null;
+};
+
+export type PlanSheetPrintOptions = {
+  title: string;
+  subtitle?: string;
+  generatedAt?: Date;
+};
+
+export const PLAN_SHEET_STATUS_LABELS: Record<PlanSheetDay['status'], string> = {
+  completed: 'Completed',
+  missed: 'Missed',
+  upcoming: 'Upcoming',
+  rest: 'Rest',
+};
+
+const CSV_HEADERS = [
+  'Week',
+  'Date',
+  'Day',
+  'Workout Type',
+  'Details',
+  'Rationale',
+  'Status',
+  'RPE',
+  'Soreness',
+  'Sleep Quality',
+  'Actual Distance (km)',
+  'Actual Duration (min)',
+  'Notes',
+];
+
+const localDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const columnIndex = (headers: string[], matches: (header: string) => boolean): number =>
+  headers.findIndex((header) => matches(header.toLowerCase()));
+
+export const buildPlanSheetDays = (
+  tables: PlanSheetTable[],
+  planStartDate: string,
+  lookup: PlanSheetLookup
+): PlanSheetDay[] => {
+  const planStart = new Date(planStartDate);
+  return tables.flatMap((table, tableIndex) => {
+    const week = extractWeekNumber(table.title, tableIndex + 1);
+    const dayIndex = columnIndex(table.headers, (header) => header === 'day');
+    const workoutIndex = columnIndex(table.headers, (header) => header.includes('workout'));
+    const detailsIndex = columnIndex(table.headers, (header) => header.includes('details'));
+    const rationaleIndex = columnIndex(table.headers, (header) => header.includes('rationale'));
+    if (dayIndex === -1) {
+      return [];
+    }
+
+    return table.rows.map((row): PlanSheetDay => {
+      const rawDay = (row[dayIndex] ?? '').trim();
+      const day = normalizeDayName(rawDay);
+      let date = '';
+      if (day && !Number.isNaN(planStart.getTime())) {
+        const rowDate = new Date(planStart);
+        rowDate.setDate(rowDate.getDate() + (week - 1) * 7 + DAY_INDEX[day.toLowerCase()]);
+        date = localDateKey(rowDate);
+      }
+      const { status, checkin } = day ? lookup(week, day) : { status: null, checkin: null };
+      return {
+        week,
+        weekTitle: table.title,
+        date,
+        day: day ?? rawDay,
+        workoutType: workoutIndex === -1 ? '' : row[workoutIndex] ?? '',
+        details: detailsIndex === -1 ? '' : row[detailsIndex] ?? '',
+        rationale: rationaleIndex === -1 ? '' : row[rationaleIndex] ?? '',
+        // A check-in counts as done even when Health has no matching workout.
+        status: checkin ? 'completed' : status ?? 'rest',
+        checkin,
+      };
+    });
+  });
+};
+
+// Text that a spreadsheet would read as a formula gets a leading apostrophe, so notes and model text stay inert.
+const neutralizeFormula = (text: string): string => (/^[\t\r]|^\s*[=+\-@]/.test(text) ? `'${text}` : text);
+
+// RFC 4180: quote fields containing separators, quotes or line breaks, doubling embedded quotes.
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : typeof value === 'number' ? String(value) : neutralizeFormula(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const buildPlanCsv = (days: PlanSheetDay[]): string => {
+  const lines = [
+    CSV_HEADERS,
+    ...days.map((day) => [
+      day.week,
+      day.date,
+      day.day,
+      day.workoutType,
+      day.details,
+      day.rationale,
+      PLAN_SHEET_STATUS_LABELS[day.status],
+      day.checkin?.rpe,
+      day.checkin?.soreness,
+      day.checkin?.sleepQuality,
+      day.checkin?.actualDistanceKm,
+      day.checkin?.actualDurationMinutes,
+      day.checkin?.notes,
+    ]),
+  ];
+  // Leading byte order mark so spreadsheet apps read the file as UTF-8.
+  return `\uFEFF${lines.map((fields) => fields.map(csvField).join(',')).join('\r\n')}\r\n`;
+};
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const formatPrintDate = (date: string): string => {
+  if (!date) {
+    return '';
+  }
+  const [year, month, day] = date.split('-').map((part) => Number.parseInt(part, 10));
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+const describeCheckin = (checkin: PlanSheetCheckin | null): string => {
+  if (!checkin) {
+    return '';
+  }
+  return [
+    `RPE ${checkin.rpe}/10`,
+    `Soreness ${checkin.soreness}/10`,
+    `Sleep ${checkin.sleepQuality}/5`,
+    checkin.actualDistanceKm !== undefined ? `${checkin.actualDistanceKm} km` : '',
+    checkin.actualDurationMinutes !== undefined ? `${checkin.actualDurationMinutes} min` : '',
+    checkin.notes.trim(),
+  ]
+    .filter(Boolean)
+    .join(' • ');
+};
+
+const PRINT_STYLES = `
+@page { size: A4; margin: 14mm; }
+body { font-family: -apple-system, 'Helvetica Neue', Arial, sans-serif; font-size: 10pt; color: #1b1b1b; margin: 0; }
+header { margin-bottom: 12pt; }
+h1 { font-size: 16pt; margin: 0 0 4pt; }
+h2 { font-size: 12pt; margin: 0 0 6pt; }
+.meta { color: #555; margin: 0; }
+section.week { break-after: page; page-break-after: always; }
+section.week:last-of-type { break-after: auto; page-break-after: auto; }
+table { width: 100%; border-collapse: collapse; table-layout: fixed; }
+thead { display: table-header-group; }
+tr { break-inside: avoid; page-break-inside: avoid; }
+th, td { border: 1px solid #c9c9c9; padding: 4pt; text-align: left; vertical-align: top; word-wrap: break-word; }
+th { background: #f1f1f1; font-size: 9pt; }
+td.status-completed { color: #1d7a35; font-weight: 600; }
+td.status-missed { color: #b3261e; font-weight: 600; }
+tr.rest td { color: #777; }
+`;
+
+const PRINT_COLUMNS: Array<{ label: string; width: string }> = [
+  { label: 'Date', width: '9%' },
+  { label: 'Day', width: '10%' },
+  { label: 'Type', width: '12%' },
+  { label: 'Details', width: '24%' },
+  { label: 'Rationale', width: '19%' },
+  { label: 'Status', width: '9%' },
+  { label: 'Check-in', width: '17%' },
+];
+
+const buildWeekSection = (weekTitle: string, days: PlanSheetDay[]): string => {
+  const dates = days.map((day) => day.date).filter(Boolean).sort();
+  const range = dates.length ? ` (${formatPrintDate(dates[0])} – ${formatPrintDate(dates[dates.length - 1])})` : '';
+  const rows = days.map(
+    (day) =>
+      `<tr${day.status === 'rest' ? ' class="rest"' : ''}>` +
+      [formatPrintDate(day.date), day.day, day.workoutType, day.details, day.rationale]
+        .map((value) => `<td>${escapeHtml(value)}</td>`)
+        .join('') +
+      `<td class="status-${day.status}">${PLAN_SHEET_STATUS_LABELS[day.status]}</td>` +
+      `<td>${escapeHtml(describeCheckin(day.checkin))}</td></tr>`
+  );
+  return [
+    '<section class="week">',
+    `<h2>${escapeHtml(weekTitle)}${escapeHtml(range)}</h2>`,
+    '<table>',
+    `<colgroup>${PRINT_COLUMNS.map((column) => `<col style="width: ${column.width}">`).join('')}</colgroup>`,
+    `<thead><tr>${PRINT_COLUMNS.map((column) => `<th>${column.label}</th>`).join('')}</tr></thead>`,
+    `<tbody>${rows.join('')}</tbody>`,
+    '</table>',
+    '</section>',
+  ].join('\n');
+};
+
+// One section per week, each starting on a new printed page; opening it in a browser and printing gives a PDF.
+export const buildPlanPrintHtml = (days: PlanSheetDay[], options: PlanSheetPrintOptions): string => {
+  const weeks = new Map<number, { title: string; days: PlanSheetDay[] }>();
+  days.forEach((day) => {
+    const week = weeks.get(day.week) ?? { title: day.weekTitle, days: [] };
+    week.days.push(day);
+    weeks.set(day.week, week);
+  });
+  const generatedAt = (options.generatedAt ?? new Date()).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(options.title)}</title>`,
+    `<style>${PRINT_STYLES}</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    `<h1>${escapeHtml(options.title)}</h1>`,
+    ...(options.subtitle ? [`<p class="meta">${escapeHtml(options.subtitle)}</p>`] : []),
+    `<p class="meta">Generated ${escapeHtml(generatedAt)}</p>`,
+    '</header>',
+    ...[...weeks.entries()].sort(([a], [b]) => a - b).map(([, week]) => buildWeekSection(week.title, week.days)),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+export const planSheetFileName = (goal: string, extension: 'csv' | 'html'): string =>
+  `frunna-${goal.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-plan.${extension}`;
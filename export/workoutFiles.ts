@@ -0,0 +1,507 @@
+import type { FileEncoding } from '../modules/expo-apple-intelligence';
+import {
+  DistanceUnit,
+  HeartRateZoneRange,
+  impliedHeartRateZone,
+  isRunningCategory,
+  SegmentKind,
+  StructuredWorkout,
+  WorkoutStep,
+  workoutDurationMinutes,
+} from '../plan/workoutModel';
+
+export const WORKOUT_FILE_FORMATS = ['fit', 'tcx'] as const;
+export type WorkoutFileFormat = (typeof WORKOUT_FILE_FORMATS)[number];
+
+export const WORKOUT_FILE_FORMAT_LABELS: Record<WorkoutFileFormat, string> = {
+  fit: 'Garmin FIT',
+  tcx: 'TCX',
+};
+
+export type WorkoutFileSession = {
+  name: string;
+  date: string;
+  workout: StructuredWorkout;
+};
+
+export type WorkoutFile = {
+  fileName: string;
+  contents: string;
+  encoding: FileEncoding;
+};
+
+type StepIntensity = 'warmup' | 'active' | 'recovery' | 'cooldown';
+
+type StepDuration = { type: 'distance'; meters: number } | { type: 'time'; seconds: number } | { type: 'open' };
+
+type StepTarget =
+  | { type: 'speed'; lowMetersPerSecond: number; highMetersPerSecond: number }
+  | { type: 'heartRate'; zone: number; lowBpm?: number; highBpm?: number }
+  | { type: 'open' };
+
+type FileStep = {
+  intensity: StepIntensity;
+  duration: StepDuration;
+  target: StepTarget;
+};
+
+type FileBlock = {
+  kind: SegmentKind;
+  repeats: number;
+  steps: FileStep[];
+};
+
+const METERS_PER_UNIT: Record<DistanceUnit, number> = {
+  km: 1000,
+  miles: 1609.344,
+};
+
+// Short names: TCX caps workout names at 15 characters and FIT strings are fixed-width.
+const MAX_NAME_LENGTH = 15;
+
+const stepIntensity = (step: WorkoutStep, segmentKind: SegmentKind): StepIntensity => {
+  if (segmentKind === 'warmup' || segmentKind === 'cooldown') {
+    return segmentKind;
+  }
+  return step.kind === 'recovery' ? 'recovery' : 'active';
+};
+
+const stepTarget = (
+  step: WorkoutStep,
+  segmentKind: SegmentKind,
+  workout: StructuredWorkout,
+  unit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[]
+): StepTarget => {
+  if (step.target?.type === 'pace') {
+    // The faster pace (fewer seconds) is the higher speed.
+    return {
+      type: 'speed',
+      lowMetersPerSecond: METERS_PER_UNIT[unit] / step.target.highSecondsPerUnit,
+      highMetersPerSecond: METERS_PER_UNIT[unit] / step.target.lowSecondsPerUnit,
+    };
+  }
+  const zone =
+    step.target?.type === 'hrZone' ? step.target.zone : heartRateZones?.length ? impliedHeartRateZone(step, segmentKind, workout.category) : null;
+  if (!zone) {
+    return { type: 'open' };
+  }
+  const range = heartRateZones?.find((entry) => entry.zone === zone);
+  return range ? { type: 'heartRate', zone, lowBpm: range.lowBpm, highBpm: range.highBpm } : { type: 'heartRate', zone };
+};
+
+const stepDuration = (step: WorkoutStep, unit: DistanceUnit): StepDuration => {
+  if (step.distance !== undefined && step.distance > 0) {
+    return { type: 'distance', meters: Math.round(step.distance * METERS_PER_UNIT[unit]) };
+  }
+  if (step.durationMinutes !== undefined && step.durationMinutes > 0) {
+    return { type: 'time', seconds: Math.round(step.durationMinutes * 60) };
+  }
+  return { type: 'open' };
+};
+
+const workoutBlocks = (workout: StructuredWorkout, unit: DistanceUnit, heartRateZones?: HeartRateZoneRange[]): FileBlock[] => {
+  if (!workout.segments.length) {
+    // Sessions without structure become one timed step so the watch still shows duration and zone.
+    const step: WorkoutStep = { kind: 'work', durationMinutes: workoutDurationMinutes(workout, unit) };
+    return [
+      {
+        kind: 'main',
+        repeats: 1,
+        steps: [{ intensity: 'active', duration: stepDuration(step, unit), target: stepTarget(step, 'main', workout, unit, heartRateZones) }],
+      },
+    ];
+  }
+  return workout.segments.map((segment) => ({
+    kind: segment.kind,
+    repeats: Math.max(1, segment.repeats),
+    steps: segment.steps.map((step) => ({
+      intensity: stepIntensity(step, segment.kind),
+      duration: stepDuration(step, unit),
+      target: stepTarget(step, segment.kind, workout, unit, heartRateZones),
+    })),
+  }));
+};
+
+const shortName = (name: string): string => name.slice(0, MAX_NAME_LENGTH).trim();
+
+const slug = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+
+// --- Garmin FIT (workout file: file_id, workout, workout_step messages) ---
+
+const FIT_EPOCH_SECONDS = 631065600;
+const FIT_PROFILE_VERSION = 2132;
+const FIT_CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800, 0xb401, 0x5000, 0x9c01, 0x8801, 0x4400,
+];
+const FIT_BASE_TYPES = {
+  enum: { id: 0x00, size: 1 },
+  uint16: { id: 0x84, size: 2 },
+  uint32: { id: 0x86, size: 4 },
+  string: { id: 0x07, size: MAX_NAME_LENGTH + 1 },
+};
+type FitBaseType = keyof typeof FIT_BASE_TYPES;
+type FitField = { number: number; type: FitBaseType };
+type FitMessage = { globalNumber: number; localType: number; fields: FitField[] };
+
+const FIT_MESSAGES: Record<'fileId' | 'workout' | 'workoutStep', FitMessage> = {
+  fileId: {
+    globalNumber: 0,
+    localType: 0,
+    fields: [
+      { number: 0, type: 'enum' },
+      { number: 1, type: 'uint16' },
+      { number: 2, type: 'uint16' },
+      { number: 4, type: 'uint32' },
+    ],
+  },
+  workout: {
+    globalNumber: 26,
+    localType: 1,
+    fields: [
+      { number: 4, type: 'enum' },
+      { number: 6, type: 'uint16' },
+      { number: 8, type: 'string' },
+    ],
+  },
+  workoutStep: {
+    globalNumber: 27,
+    localType: 2,
+    fields: [
+      { number: 254, type: 'uint16' },
+      { number: 1, type: 'enum' },
+      { number: 2, type: 'uint32' },
+      { number: 3, type: 'enum' },
+      { number: 4, type: 'uint32' },
+      { number: 5, type: 'uint32' },
+      { number: 6, type: 'uint32' },
+      { number: 7, type: 'enum' },
+    ],
+  },
+};
+
+const FIT_VALUES = {
+  fileTypeWorkout: 5,
+  manufacturerDevelopment: 255,
+  sportRunning: 1,
+  durationTime: 0,
+  durationDistance: 1,
+  durationOpen: 5,
+  durationRepeatUntilStepsComplete: 6,
+  targetSpeed: 0,
+  targetHeartRate: 1,
+  targetOpen: 2,
+  // Custom heart-rate targets are stored as bpm + 100; 0-100 means % of max.
+  heartRateBpmOffset: 100,
+};
+
+const FIT_INTENSITY: Record<StepIntensity, number> = {
+  active: 0,
+  warmup: 2,
+  cooldown: 3,
+  recovery: 4,
+};
+
+const fitCrc = (bytes: number[]): number =>
+  bytes.reduce((crc, byte) => {
+    let next = crc;
+    let tmp = FIT_CRC_TABLE[next & 0xf];
+    next = ((next >> 4) & 0x0fff) ^ tmp ^ FIT_CRC_TABLE[byte & 0xf];
+    tmp = FIT_CRC_TABLE[next & 0xf];
+    return ((next >> 4) & 0x0fff) ^ tmp ^ FIT_CRC_TABLE[(byte >> 4) & 0xf];
+  }, 0);
+
+const littleEndian = (value: number, size: number): number[] =>
+  Array.from({ length: size }, (_, index) => Math.floor(value / 256 ** index) & 0xff);
+
+const fitDefinition = (message: FitMessage): number[] => [
+  0x40 | message.localType,
+  0,
+  0,
+  ...littleEndian(message.globalNumber, 2),
+  message.fields.length,
+  ...message.fields.flatMap((field) => [field.number, FIT_BASE_TYPES[field.type].size, FIT_BASE_TYPES[field.type].id]),
+];
+
+const fitData = (message: FitMessage, values: Array<number | string>): number[] => [
+  message.localType,
+  ...message.fields.flatMap((field, index) => {
+    const value = values[index];
+    const size = FIT_BASE_TYPES[field.type].size;
+    if (typeof value === 'string') {
+      const characters = Array.from(value.replace(/[^\x20-\x7e]/g, ''), (character) => character.charCodeAt(0));
+      return [...characters.slice(0, size - 1), ...Array(size - Math.min(characters.length, size - 1)).fill(0)];
+    }
+    return littleEndian(value, size);
+  }),
+];
+
+const fitStepValues = (step: FileStep, messageIndex: number): number[] => {
+  const duration =
+    step.duration.type === 'distance'
+      ? [FIT_VALUES.durationDistance, step.duration.meters * 100]
+      : step.duration.type === 'time'
+        ? [FIT_VALUES.durationTime, step.duration.seconds * 1000]
+        : [FIT_VALUES.durationOpen, 0];
+  const target =
+    step.target.type === 'speed'
+      ? [FIT_VALUES.targetSpeed, 0, Math.round(step.target.lowMetersPerSecond * 1000), Math.round(step.target.highMetersPerSecond * 1000)]
+      : step.target.type === 'heartRate'
+        ? step.target.lowBpm && step.target.highBpm
+          ? [
+              FIT_VALUES.targetHeartRate,
+              0,
+              step.target.lowBpm + FIT_VALUES.heartRateBpmOffset,
+              step.target.highBpm + FIT_VALUES.heartRateBpmOffset,
+            ]
+          : [FIT_VALUES.targetHeartRate, step.target.zone, 0, 0]
+        : [FIT_VALUES.targetOpen, 0, 0, 0];
+  return [messageIndex, ...duration, ...target, FIT_INTENSITY[step.intensity]];
+};
+
+export const buildFitWorkout = (
+  session: WorkoutFileSession,
+  unit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[],
+  now: Date = new Date()
+): Uint8Array => {
+  const stepRecords: number[][] = [];
+  workoutBlocks(session.workout, unit, heartRateZones).forEach((block) => {
+    const firstIndex = stepRecords.length;
+    block.steps.forEach((step) => stepRecords.push(fitStepValues(step, stepRecords.length)));
+    if (block.repeats > 1) {
+      stepRecords.push([
+        stepRecords.length,
+        FIT_VALUES.durationRepeatUntilStepsComplete,
+        firstIndex,
+        FIT_VALUES.targetOpen,
+        block.repeats,
+        0,
+        0,
+        FIT_INTENSITY.active,
+      ]);
+    }
+  });
+
+  const records = [
+    ...fitDefinition(FIT_MESSAGES.fileId),
+    ...fitData(FIT_MESSAGES.fileId, [
+      FIT_VALUES.fileTypeWorkout,
+      FIT_VALUES.manufacturerDevelopment,
+      0,
+      Math.floor(now.getTime() / 1000) - FIT_EPOCH_SECONDS,
+    ]),
+    ...fitDefinition(FIT_MESSAGES.workout),
+    ...fitData(FIT_MESSAGES.workout, [FIT_VALUES.sportRunning, stepRecords.length, shortName(session.name)]),
+    ...fitDefinition(FIT_MESSAGES.workoutStep),
+    ...stepRecords.flatMap((values) => fitData(FIT_MESSAGES.workoutStep, values)),
+  ];
+  const header = [14, 0x10, ...littleEndian(FIT_PROFILE_VERSION, 2), ...littleEndian(records.length, 4), 0x2e, 0x46, 0x49, 0x54];
+  const headerWithCrc = [...header, ...littleEndian(fitCrc(header), 2)];
+  const body = [...headerWithCrc, ...records];
+  return Uint8Array.from([...body, ...littleEndian(fitCrc(body), 2)]);
+};
+
+// --- TCX (Training Center workout schema) ---
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const tcxDuration = (duration: StepDuration): string =>
+  duration.type === 'distance'
+    ? `<Duration xsi:type="Distance_t"><Meters>${duration.meters}</Meters></Duration>`
+    : duration.type === 'time'
+      ? `<Duration xsi:type="Time_t"><Seconds>${duration.seconds}</Seconds></Duration>`
+      : '<Duration xsi:type="UserInitiated_t"/>';
+
+const tcxTarget = (target: StepTarget): string => {
+  if (target.type === 'speed') {
+    return [
+      '<Target xsi:type="Speed_t"><SpeedZone xsi:type="CustomSpeedZone_t"><ViewAs>Pace</ViewAs>',
+      `<LowInMetersPerSecond>${target.lowMetersPerSecond.toFixed(3)}</LowInMetersPerSecond>`,
+      `<HighInMetersPerSecond>${target.highMetersPerSecond.toFixed(3)}</HighInMetersPerSecond>`,
+      '</SpeedZone></Target>',
+    ].join('');
+  }
+  if (target.type === 'heartRate') {
+    return target.lowBpm && target.highBpm
+      ? [
+          '<Target xsi:type="HeartRate_t"><HeartRateZone xsi:type="CustomHeartRateZone_t">',
+          `<Low xsi:type="HeartRateInBeatsPerMinute_t"><Value>${target.lowBpm}</Value></Low>`,
+          `<High xsi:type="HeartRateInBeatsPerMinute_t"><Value>${target.highBpm}</Value></High>`,
+          '</HeartRateZone></Target>',
+        ].join('')
+      : `<Target xsi:type="HeartRate_t"><HeartRateZone xsi:type="PredefinedHeartRateZone_t"><Number>${target.zone}</Number></HeartRateZone></Target>`;
+  }
+  return '<Target xsi:type="None_t"/>';
+};
+
+const tcxStep = (step: FileStep, stepId: number, tag: 'Step' | 'Child'): string =>
+  [
+    `<${tag} xsi:type="Step_t">`,
+    `<StepId>${stepId}</StepId>`,
+    `<Name>${step.intensity}</Name>`,
+    tcxDuration(step.duration),
+    `<Intensity>${step.intensity === 'recovery' ? 'Resting' : 'Active'}</Intensity>`,
+    tcxTarget(step.target),
+    `</${tag}>`,
+  ].join('');
+
+const tcxWorkout = (session: WorkoutFileSession, unit: DistanceUnit, heartRateZones?: HeartRateZoneRange[]): string => {
+  let stepId = 0;
+  const nextId = (): number => {
+    stepId += 1;
+    return stepId;
+  };
+  const steps = workoutBlocks(session.workout, unit, heartRateZones).flatMap((block) => {
+    if (block.repeats === 1) {
+      return block.steps.map((step) => tcxStep(step, nextId(), 'Step'));
+    }
+    const repeatId = nextId();
+    return [
+      `<Step xsi:type="Repeat_t"><StepId>${repeatId}</StepId><Repetitions>${block.repeats}</Repetitions>`,
+      ...block.steps.map((step) => tcxStep(step, nextId(), 'Child')),
+      '</Step>',
+    ].join('');
+  });
+  return [
+    '<Workout Sport="Running">',
+    `<Name>${escapeXml(shortName(session.name))}</Name>`,
+    ...steps,
+    `<ScheduledOn>${session.date}</ScheduledOn>`,
+    `<Notes>${escapeXml(session.name)}</Notes>`,
+    '</Workout>',
+  ].join('\n');
+};
+
+export const buildTcxWorkouts = (sessions: WorkoutFileSession[], unit: DistanceUnit, heartRateZones?: HeartRateZoneRange[]): string =>
+  [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<TrainingCenterDatabase xmlns="http://www.garmin.com/xmlschemas/TrainingCenterDatabase/v2" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+    '<Workouts>',
+    ...sessions.map((session) => tcxWorkout(session, unit, heartRateZones)),
+    '</Workouts>',
+    '</TrainingCenterDatabase>',
+    '',
+  ].join('\n');
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let output = '';
+  for (let index = 0; index < bytes.length; index += 3) {
+    const chunk = (bytes[index] << 16) | ((bytes[index + 1] ?? 0) << 8) | (bytes[index + 2] ?? 0);
+    output += BASE64_ALPHABET[(chunk >> 18) & 0x3f] + BASE64_ALPHABET[(chunk >> 12) & 0x3f];
+    output += index + 1 < bytes.length ? BASE64_ALPHABET[(chunk >> 6) & 0x3f] : '=';
+    output += index + 2 < bytes.length ? BASE64_ALPHABET[chunk & 0x3f] : '=';
+  }
+  return output;
+};
+
+export const isExportableSession = (session: WorkoutFileSession): boolean => isRunningCategory(session.workout.category);
+
+export const buildWorkoutFile = (
+  format: WorkoutFileFormat,
+  sessions: WorkoutFileSession[],
+  unit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[]
+): WorkoutFile | null => {
+  const exportable = sessions.filter(isExportableSession);
+  if (!exportable.length) {
+    return null;
+  }
+  const baseName = exportable.length === 1 ? `frunna-${slug(exportable[0].name)}` : 'frunna-workouts';
+  if (format === 'fit') {
+    if (exportable.length > 1) {
+      throw new Error(`A FIT file holds one workout; export the ${exportable.length} sessions as TCX or one day at a time.`);
+    }
+    return {
+      fileName: `frunna-${slug(exportable[0].name)}.fit`,
+      contents: toBase64(buildFitWorkout(exportable[0], unit, heartRateZones)),
+      encoding: 'base64',
+    };
+  }
+  return { fileName: `${baseName}.tcx`, contents: buildTcxWorkouts(exportable, unit, heartRateZones), encoding: 'utf8' };
+};
+
+// --- WorkoutKit (decoded by the native module into CustomWorkout plans for WorkoutScheduler) ---
+
+type WorkoutKitAlert =
+  | { type: 'speed'; minMetersPerSecond: number; maxMetersPerSecond: number }
+  | { type: 'heartRate'; minBpm: number; maxBpm: number }
+  | { type: 'heartRateZone'; zone: number };
+
+type WorkoutKitStep = {
+  goal: StepDuration;
+  alert?: WorkoutKitAlert;
+};
+
+type WorkoutKitWorkout = {
+  displayName: string;
+  date: { year: number; month: number; day: number };
+  warmup?: WorkoutKitStep;
+  blocks: Array<{ iterations: number; steps: Array<{ purpose: 'work' | 'recovery'; step: WorkoutKitStep }> }>;
+  cooldown?: WorkoutKitStep;
+};
+
+const workoutKitAlert = (target: StepTarget): WorkoutKitAlert | undefined => {
+  if (target.type === 'speed') {
+    return {
+      type: 'speed',
+      minMetersPerSecond: Number(target.lowMetersPerSecond.toFixed(3)),
+      maxMetersPerSecond: Number(target.highMetersPerSecond.toFixed(3)),
+    };
+  }
+  if (target.type === 'heartRate') {
+    return target.lowBpm && target.highBpm
+      ? { type: 'heartRate', minBpm: target.lowBpm, maxBpm: target.highBpm }
+      : { type: 'heartRateZone', zone: target.zone };
+  }
+  return undefined;
+};
+
+const workoutKitStep = (step: FileStep): WorkoutKitStep => {
+  const alert = workoutKitAlert(step.target);
+  return { goal: step.duration, ...(alert ? { alert } : {}) };
+};
+
+const workoutKitWorkout = (session: WorkoutFileSession, unit: DistanceUnit, heartRateZones?: HeartRateZoneRange[]): WorkoutKitWorkout => {
+  const blocks = workoutBlocks(session.workout, unit, heartRateZones);
+  // CustomWorkout's warm-up and cool-down hold a single step; longer ones become interval blocks.
+  const single = (kind: SegmentKind) => {
+    const block = blocks.find((entry) => entry.kind === kind);
+    return block && block.repeats === 1 && block.steps.length === 1 ? block : undefined;
+  };
+  const warmup = single('warmup');
+  const cooldown = single('cooldown');
+  const [year, month, day] = session.date.split('-').map((part) => Number.parseInt(part, 10));
+  return {
+    displayName: session.name,
+    date: { year, month, day },
+    ...(warmup ? { warmup: workoutKitStep(warmup.steps[0]) } : {}),
+    blocks: blocks
+      .filter((block) => block !== warmup && block !== cooldown)
+      .map((block) => ({
+        iterations: block.repeats,
+        steps: block.steps.map((step) => ({
+          purpose: step.intensity === 'recovery' ? 'recovery' : 'work',
+          step: workoutKitStep(step),
+        })),
+      })),
+    ...(cooldown ? { cooldown: workoutKitStep(cooldown.steps[0]) } : {}),
+  };
+};
+
+// Earliest first, so the scheduler's cap on pending workouts keeps the nearest sessions.
+export const buildWorkoutKitJson = (
+  sessions: WorkoutFileSession[],
+  unit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[]
+): string | null => {
+  const exportable = sessions.filter(isExportableSession).sort((a, b) => a.date.localeCompare(b.date));
+  return exportable.length ? JSON.stringify(exportable.map((session) => workoutKitWorkout(session, unit, heartRateZones))) : null;
+};
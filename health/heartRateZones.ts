@@ -0,0 +1,133 @@
+import type { HealthSummary } from '../modules/expo-apple-intelligence';
+import type { HeartRateZoneRange } from '../plan/workoutModel';
+
+export type ZoneMethod = 'karvonen' | 'lthr' | 'percentMax';
+
+export type MaxHeartRateSource = 'fieldTest' | 'observed' | 'age';
+
+export type HeartRateInputs = {
+  age?: number | null;
+  fieldTestMaxBpm?: number | null;
+  fieldTestThresholdBpm?: number | null;
+};
+
+export type HeartRateZoneModel = {
+  method: ZoneMethod;
+  maxBpm: number;
+  maxSource: MaxHeartRateSource;
+  restingBpm: number | null;
+  thresholdBpm: number;
+  thresholdFromFieldTest: boolean;
+  zones: HeartRateZoneRange[];
+};
+
+export const HEART_RATE_SETTINGS = {
+  minPlausibleMaxBpm: 140,
+  maxPlausibleMaxBpm: 230,
+  restingSampleDays: 7,
+  thresholdShareOfMax: 0.9,
+};
+
+export const ZONE_METHOD_LABELS: Record<ZoneMethod, string> = {
+  karvonen: 'Karvonen (heart-rate reserve)',
+  lthr: 'Lactate threshold',
+  percentMax: '% of max HR',
+};
+
+export const MAX_HEART_RATE_SOURCE_LABELS: Record<MaxHeartRateSource, string> = {
+  fieldTest: 'field test',
+  observed: 'highest workout HR',
+  age: 'age estimate',
+};
+
+// Zone 1 floor followed by the upper bound of zones 1-5, as a share of heart-rate reserve, max HR, or LTHR.
+const ZONE_BOUNDS: Record<ZoneMethod, number[]> = {
+  karvonen: [0.5, 0.6, 0.7, 0.8, 0.9, 1],
+  percentMax: [0.5, 0.6, 0.7, 0.8, 0.9, 1],
+  lthr: [0.75, 0.85, 0.9, 0.95, 1, 1.06],
+};
+
+const isPlausibleMax = (bpm: number | null | undefined): bpm is number =>
+  !!bpm && bpm >= HEART_RATE_SETTINGS.minPlausibleMaxBpm && bpm <= HEART_RATE_SETTINGS.maxPlausibleMaxBpm;
+
+// Tanaka et al. (2001): 208 - 0.7 x age.
+export const ageMaxHeartRate = (age: number): number => Math.round(208 - 0.7 * age);
+
+export const observedMaxHeartRate = (summary: HealthSummary): number | null => {
+  const maxima = summary.workouts.map((workout) => workout.maxHeartRateBpm).filter(isPlausibleMax);
+  return maxima.length ? Math.max(...maxima) : null;
+};
+
+export const recentRestingHeartRate = (summary: HealthSummary): number | null => {
+  const rows = summary.restingHeartRate
+    .filter((row) => row.restingBpm > 0)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .slice(-HEART_RATE_SETTINGS.restingSampleDays);
+  return rows.length ? Math.round(rows.reduce((sum, row) => sum + row.restingBpm, 0) / rows.length) : null;
+};
+
+const estimateMaxHeartRate = (
+  inputs: HeartRateInputs,
+  summary: HealthSummary | null
+): { bpm: number; source: MaxHeartRateSource } | null => {
+  if (isPlausibleMax(inputs.fieldTestMaxBpm)) {
+    return { bpm: Math.round(inputs.fieldTestMaxBpm), source: 'fieldTest' };
+  }
+  const observed = summary ? observedMaxHeartRate(summary) : null;
+  const fromAge = inputs.age && inputs.age >= 10 && inputs.age <= 100 ? ageMaxHeartRate(inputs.age) : null;
+  if (observed && (!fromAge || observed >= fromAge)) {
+    return { bpm: observed, source: 'observed' };
+  }
+  return fromAge ? { bpm: fromAge, source: 'age' } : null;
+};
+
+export const buildHeartRateZones = (inputs: HeartRateInputs, summary: HealthSummary | null): HeartRateZoneModel | null => {
+  const max = estimateMaxHeartRate(inputs, summary);
+  if (!max) {
+    return null;
+  }
+  const resting = summary ? recentRestingHeartRate(summary) : null;
+  const restingBpm = resting && resting < max.bpm - 40 ? resting : null;
+  const testedThreshold =
+    inputs.fieldTestThresholdBpm && inputs.fieldTestThresholdBpm < max.bpm ? Math.round(inputs.fieldTestThresholdBpm) : null;
+  const method: ZoneMethod = testedThreshold ? 'lthr' : restingBpm ? 'karvonen' : 'percentMax';
+  const thresholdBpm = testedThreshold ?? Math.round(max.bpm * HEART_RATE_SETTINGS.thresholdShareOfMax);
+
+  const bpmAt = (share: number): number => {
+    if (method === 'lthr') {
+      return Math.min(Math.round(thresholdBpm * share), max.bpm);
+    }
+    return method === 'karvonen' && restingBpm
+      ? Math.round(restingBpm + share * (max.bpm - restingBpm))
+      : Math.round(max.bpm * share);
+  };
+  const bounds = ZONE_BOUNDS[method];
+  const zones = bounds.slice(1).map((ceiling, index) => ({
+    zone: index + 1,
+    lowBpm: index === 0 ? bpmAt(bounds[0]) : bpmAt(bounds[index]) + 1,
+    highBpm: bpmAt(ceiling),
+  }));
+
+  return {
+    method,
+    maxBpm: max.bpm,
+    maxSource: max.source,
+    restingBpm,
+    thresholdBpm,
+    thresholdFromFieldTest: !!testedThreshold,
+    zones,
+  };
+};
+
+export const zoneForHeartRate = (zones: HeartRateZoneRange[], heartRateBpm: number): number => {
+  const match = zones.find((range) => heartRateBpm <= range.highBpm);
+  return match ? match.zone : zones.length;
+};
+
+export const describeHeartRateZonesForPrompt = (model: HeartRateZoneModel): string =>
+  [
+    `Heart-rate zones (${ZONE_METHOD_LABELS[model.method]}; max ${model.maxBpm} bpm from ${MAX_HEART_RATE_SOURCE_LABELS[model.maxSource]}${
+      model.restingBpm ? `, resting ${model.restingBpm} bpm` : ''
+    }, threshold ~${model.thresholdBpm} bpm):`,
+    model.zones.map((range) => `Z${range.zone} ${range.lowBpm}-${range.highBpm}`).join(', '),
+  ].join(' ');
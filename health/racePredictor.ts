@@ -0,0 +1,170 @@
+import type { HealthSummary } from '../modules/expo-apple-intelligence';
+import { GOAL_DISTANCE_KM } from '../plan/paceGuardrails';
+import { clampVdot, timeForVdot, vdotFromPerformance } from '../plan/vdot';
+import { isRunningWorkout } from './workoutMatching';
+
+export type RaceEffortSource = 'race' | 'workout';
+
+export type RaceEffort = {
+  date: string;
+  distanceKm: number;
+  timeSeconds: number;
+  source: RaceEffortSource;
+};
+
+export type RacePrediction = {
+  goal: string;
+  distanceKm: number;
+  currentSeconds: number;
+  projectedSeconds: number;
+  lowSeconds: number;
+  highSeconds: number;
+};
+
+export type FitnessEstimate = {
+  vdot: number;
+  bestEffort: RaceEffort | null;
+  vo2Max: number | null;
+  weeklyKm: number;
+  predictions: RacePrediction[];
+  explanation: string[];
+};
+
+export type RacePredictionOptions = {
+  goals: readonly string[];
+  planWeeks: number;
+  recentRace?: RaceEffort | null;
+  asOf?: Date;
+};
+
+export const RACE_PREDICTOR_SETTINGS = {
+  effortLookbackDays: 42,
+  volumeLookbackDays: 28,
+  minEffortKm: 1.5,
+  minEffortMinutes: 6,
+  riegelExponent: 1.06,
+  // Apple's VO2 max estimate runs above Daniels' VDOT for most recreational runners.
+  vo2MaxToVdot: 0.92,
+  effortWeight: 0.7,
+  vo2MaxWeight: 0.3,
+  weeklyGainPercent: 0.4,
+  maxGainPercent: 5,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const daysBefore = (date: string, asOf: Date): number => (asOf.getTime() - Date.parse(date.slice(0, 10))) / DAY_MS;
+
+// Low mileage shows up as extra slowdown over longer races, so the Riegel exponent grows for long goals on thin volume.
+const enduranceExponent = (distanceKm: number, weeklyKm: number): number => {
+  if (distanceKm <= 10) {
+    return RACE_PREDICTOR_SETTINGS.riegelExponent;
+  }
+  const volumePenalty = weeklyKm >= 60 ? 0 : weeklyKm >= 40 ? 0.01 : weeklyKm >= 25 ? 0.02 : 0.04;
+  return RACE_PREDICTOR_SETTINGS.riegelExponent + volumePenalty * (distanceKm >= 40 ? 1 : 0.5);
+};
+
+const effortVdot = (effort: RaceEffort): number => clampVdot(vdotFromPerformance(effort.distanceKm * 1000, effort.timeSeconds) ?? 0);
+
+const bestWorkoutEffort = (summary: HealthSummary, asOf: Date): RaceEffort | null =>
+  summary.workouts
+    .filter((workout) => isRunningWorkout(workout) && daysBefore(workout.date, asOf) <= RACE_PREDICTOR_SETTINGS.effortLookbackDays)
+    .filter(
+      (workout) =>
+        (workout.distanceKm ?? 0) >= RACE_PREDICTOR_SETTINGS.minEffortKm &&
+        workout.durationMinutes >= RACE_PREDICTOR_SETTINGS.minEffortMinutes
+    )
+    .map(
+      (workout): RaceEffort => ({
+        date: workout.date.slice(0, 10),
+        distanceKm: workout.distanceKm ?? 0,
+        timeSeconds: workout.averagePaceSecondsPerKm
+          ? workout.averagePaceSecondsPerKm * (workout.distanceKm ?? 0)
+          : workout.durationMinutes * 60,
+        source: 'workout',
+      })
+    )
+    .sort((a, b) => effortVdot(b) - effortVdot(a))[0] ?? null;
+
+const recentWeeklyKm = (summary: HealthSummary, asOf: Date): number => {
+  const km = summary.workouts
+    .filter((workout) => isRunningWorkout(workout) && daysBefore(workout.date, asOf) <= RACE_PREDICTOR_SETTINGS.volumeLookbackDays)
+    .reduce((sum, workout) => sum + (workout.distanceKm ?? 0), 0);
+  return (km / RACE_PREDICTOR_SETTINGS.volumeLookbackDays) * 7;
+};
+
+const latestVo2Max = (summary: HealthSummary): number | null => {
+  const rows = summary.vo2Max.filter((row) => row.vo2Max > 0).sort((a, b) => a.date.localeCompare(b.date));
+  return rows.length ? rows[rows.length - 1].vo2Max : null;
+};
+
+const formatClock = (totalSeconds: number): string => {
+  const rounded = Math.round(totalSeconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  const seconds = rounded % 60;
+  return hours
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`
+    : `${minutes}:${String(seconds).padStart(2, '0')}`;
+};
+
+export const predictRaceTimes = (summary: HealthSummary | null, options: RacePredictionOptions): FitnessEstimate | null => {
+  const asOf = options.asOf ?? new Date();
+  const workoutEffort = summary ? bestWorkoutEffort(summary, asOf) : null;
+  const bestEffort =
+    options.recentRace && (!workoutEffort || effortVdot(options.recentRace) >= effortVdot(workoutEffort) * 0.97)
+      ? options.recentRace
+      : workoutEffort;
+  const vo2Max = summary ? latestVo2Max(summary) : null;
+  const weeklyKm = summary ? recentWeeklyKm(summary, asOf) : 0;
+  if (!bestEffort && !vo2Max) {
+    return null;
+  }
+
+  const effortFitness = bestEffort ? effortVdot(bestEffort) : null;
+  const vo2Fitness = vo2Max ? clampVdot(vo2Max * RACE_PREDICTOR_SETTINGS.vo2MaxToVdot) : null;
+  const vdot =
+    effortFitness !== null && vo2Fitness !== null
+      ? effortFitness * RACE_PREDICTOR_SETTINGS.effortWeight + vo2Fitness * RACE_PREDICTOR_SETTINGS.vo2MaxWeight
+      : effortFitness ?? vo2Fitness ?? 0;
+  const gainPercent = Math.min(RACE_PREDICTOR_SETTINGS.maxGainPercent, options.planWeeks * RACE_PREDICTOR_SETTINGS.weeklyGainPercent);
+
+  const predictions = options.goals.flatMap((goal): RacePrediction[] => {
+    const distanceKm = GOAL_DISTANCE_KM[goal];
+    if (!distanceKm) {
+      return [];
+    }
+    const fromVdot = timeForVdot(vdot, distanceKm * 1000);
+    const fromRiegel = bestEffort
+      ? bestEffort.timeSeconds * (distanceKm / bestEffort.distanceKm) ** enduranceExponent(distanceKm, weeklyKm)
+      : null;
+    const currentSeconds = fromRiegel !== null ? (fromVdot + fromRiegel) / 2 : fromVdot;
+    const distanceRatio = bestEffort ? Math.max(distanceKm / bestEffort.distanceKm, bestEffort.distanceKm / distanceKm) : 4;
+    const spreadPercent =
+      (bestEffort ? 2 : 5) + Math.log2(distanceRatio) + (distanceKm >= 40 && weeklyKm < 40 ? 3 : 0) + (bestEffort?.source === 'workout' ? 1 : 0);
+    const projectedSeconds = currentSeconds * (1 - gainPercent / 100);
+    return [
+      {
+        goal,
+        distanceKm,
+        currentSeconds,
+        projectedSeconds,
+        lowSeconds: projectedSeconds * (1 - spreadPercent / 100),
+        highSeconds: projectedSeconds * (1 + spreadPercent / 100),
+      },
+    ];
+  });
+
+  const explanation = [
+    bestEffort
+      ? `${bestEffort.source === 'race' ? 'Recent race' : 'Best recent run'}: ${bestEffort.distanceKm.toFixed(2)} km in ${formatClock(
+          bestEffort.timeSeconds
+        )} (${bestEffort.date}), VDOT ${effortFitness?.toFixed(1)}.`
+      : 'No recent hard run with distance data; using VO2 max only.',
+    vo2Max ? `Health VO2 max ${vo2Max.toFixed(1)} ml/kg/min (≈ VDOT ${vo2Fitness?.toFixed(1)}).` : 'No VO2 max estimate in Health.',
+    `Recent running volume ${weeklyKm.toFixed(0)} km/week${weeklyKm < 40 ? ', which widens longer-race estimates' : ''}.`,
+    `Projection assumes about ${gainPercent.toFixed(1)}% improvement over ${options.planWeeks} weeks of consistent training.`,
+  ];
+
+  return { vdot, bestEffort, vo2Max, weeklyKm, predictions, explanation };
+};
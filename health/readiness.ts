@@ -0,0 +1,134 @@
+import type { HealthSummary } from '../modules/expo-apple-intelligence';
+
+export type ReadinessLevel = 'good' | 'fair' | 'low';
+
+export type ReadinessMetric = 'hrv' | 'restingHeartRate' | 'sleep';
+
+export type ReadinessComponent = {
+  metric: ReadinessMetric;
+  label: string;
+  unit: string;
+  value: number;
+  baseline: number;
+  zScore: number;
+};
+
+export type ReadinessScore = {
+  date: string;
+  score: number;
+  level: ReadinessLevel;
+  components: ReadinessComponent[];
+};
+
+type MetricSeries = {
+  metric: ReadinessMetric;
+  label: string;
+  unit: string;
+  weight: number;
+  direction: 1 | -1;
+  rows: Array<{ date: string; value: number }>;
+};
+
+export const READINESS_SETTINGS = {
+  baselineDays: 28,
+  minBaselineSamples: 5,
+  maxSampleAgeDays: 2,
+  neutralScore: 70,
+  pointsPerSd: 15,
+  goodThreshold: 65,
+  lowThreshold: 50,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const dayKey = (value: string): string => value.slice(0, 10);
+
+const daysBetween = (from: string, to: string): number => Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS);
+
+const mean = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const standardDeviation = (values: number[], average: number): number =>
+  Math.sqrt(values.reduce((sum, value) => sum + (value - average) ** 2, 0) / values.length);
+
+const clamp = (value: number, low: number, high: number): number => Math.min(Math.max(value, low), high);
+
+const metricSeries = (summary: HealthSummary): MetricSeries[] => [
+  {
+    metric: 'hrv',
+    label: 'HRV',
+    unit: 'ms',
+    weight: 0.4,
+    direction: 1,
+    rows: summary.hrv.map((row) => ({ date: dayKey(row.date), value: row.hrvMs })),
+  },
+  {
+    metric: 'restingHeartRate',
+    label: 'Resting HR',
+    unit: 'bpm',
+    weight: 0.35,
+    direction: -1,
+    rows: summary.restingHeartRate.map((row) => ({ date: dayKey(row.date), value: row.restingBpm })),
+  },
+  {
+    metric: 'sleep',
+    label: 'Sleep',
+    unit: 'h',
+    weight: 0.25,
+    direction: 1,
+    rows: summary.sleep.map((row) => ({ date: dayKey(row.date), value: row.hoursAsleep })),
+  },
+];
+
+const scoreComponent = (series: MetricSeries, asOf: string): ReadinessComponent | null => {
+  const rows = series.rows.filter((row) => row.value > 0 && row.date <= asOf).sort((a, b) => a.date.localeCompare(b.date));
+  const latest = rows[rows.length - 1];
+  if (!latest || daysBetween(latest.date, asOf) > READINESS_SETTINGS.maxSampleAgeDays) {
+    return null;
+  }
+  const baselineValues = rows
+    .slice(0, -1)
+    .filter((row) => daysBetween(row.date, latest.date) <= READINESS_SETTINGS.baselineDays)
+    .map((row) => row.value);
+  if (baselineValues.length < READINESS_SETTINGS.minBaselineSamples) {
+    return null;
+  }
+
+  const baseline = mean(baselineValues);
+  const spread = Math.max(standardDeviation(baselineValues, baseline), baseline * 0.05);
+  return {
+    metric: series.metric,
+    label: series.label,
+    unit: series.unit,
+    value: latest.value,
+    baseline,
+    zScore: clamp(((latest.value - baseline) / spread) * series.direction, -3, 3),
+  };
+};
+
+export const readinessLevel = (score: number): ReadinessLevel =>
+  score >= READINESS_SETTINGS.goodThreshold ? 'good' : score >= READINESS_SETTINGS.lowThreshold ? 'fair' : 'low';
+
+export const computeReadiness = (summary: HealthSummary, asOf: Date = new Date()): ReadinessScore | null => {
+  const asOfKey = `${asOf.getFullYear()}-${String(asOf.getMonth() + 1).padStart(2, '0')}-${String(asOf.getDate()).padStart(2, '0')}`;
+  const scored = metricSeries(summary)
+    .map((series) => ({ series, component: scoreComponent(series, asOfKey) }))
+    .filter((entry): entry is { series: MetricSeries; component: ReadinessComponent } => !!entry.component);
+  if (!scored.length) {
+    return null;
+  }
+
+  const totalWeight = scored.reduce((sum, entry) => sum + entry.series.weight, 0);
+  const compositeZ = scored.reduce((sum, entry) => sum + entry.component.zScore * entry.series.weight, 0) / totalWeight;
+  const score = Math.round(clamp(READINESS_SETTINGS.neutralScore + compositeZ * READINESS_SETTINGS.pointsPerSd, 0, 100));
+  return {
+    date: asOfKey,
+    score,
+    level: readinessLevel(score),
+    components: scored.map((entry) => entry.component),
+  };
+};
+
+export const describeReadinessComponent = (component: ReadinessComponent): string =>
+  `${component.label} ${component.value.toFixed(component.unit === 'h' ? 1 : 0)} ${component.unit} (baseline ${component.baseline.toFixed(
+    component.unit === 'h' ? 1 : 0
+  )})`;
@@ -0,0 +1,181 @@
+export type LoadMethod = 'srpe' | 'trimp' | 'estimated';
+
+export type LoadWorkout = {
+  date: string;
+  durationMinutes: number;
+  averageHeartRateBpm?: number;
+};
+
+export type LoadCheckin = {
+  date: string;
+  rpe: number;
+  plannedDurationMinutes: number;
+};
+
+export type HeartRateProfile = {
+  restingBpm: number;
+  maxBpm: number;
+};
+
+export type SessionLoad = {
+  date: string;
+  durationMinutes: number;
+  load: number;
+  method: LoadMethod;
+};
+
+export type DailyLoad = {
+  date: string;
+  load: number;
+};
+
+export type LoadRisk = 'unknown' | 'low' | 'optimal' | 'elevated' | 'high';
+
+export type TrainingLoadSnapshot = {
+  date: string;
+  dailyLoad: number;
+  acuteLoad: number;
+  chronicLoad: number;
+  acwr: number | null;
+  monotony: number | null;
+  strain: number | null;
+  risk: LoadRisk;
+};
+
+export const TRAINING_LOAD_SETTINGS = {
+  acuteDays: 7,
+  chronicDays: 28,
+  minChronicDays: 21,
+  estimatedSessionRpe: 4,
+  lowAcwr: 0.8,
+  elevatedAcwr: 1.3,
+  highAcwr: 1.5,
+};
+
+export const LOAD_RISK_LABELS: Record<LoadRisk, string> = {
+  unknown: 'Not enough history',
+  low: 'Undertrained',
+  optimal: 'Optimal',
+  elevated: 'Elevated',
+  high: 'High injury risk',
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const dayKey = (value: string): string => value.slice(0, 10);
+
+const addDays = (date: string, days: number): string => new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+const mean = (values: number[]): number => (values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0);
+
+export const trimpLoad = (durationMinutes: number, averageHeartRateBpm: number, profile: HeartRateProfile): number | null => {
+  const reserve = profile.maxBpm - profile.restingBpm;
+  if (reserve <= 0 || averageHeartRateBpm <= profile.restingBpm) {
+    return null;
+  }
+  const fraction = Math.min((averageHeartRateBpm - profile.restingBpm) / reserve, 1);
+  return durationMinutes * fraction * 0.64 * Math.exp(1.92 * fraction);
+};
+
+export const buildLoadSessions = (
+  workouts: LoadWorkout[],
+  checkins: LoadCheckin[],
+  profile?: HeartRateProfile
+): SessionLoad[] => {
+  const unmatched = workouts.map((workout) => ({ ...workout, date: dayKey(workout.date) }));
+  const fromCheckins = checkins.map((checkin): SessionLoad => {
+    const date = dayKey(checkin.date);
+    const matchIndex = unmatched.findIndex((workout) => workout.date === date);
+    const matched = matchIndex === -1 ? null : unmatched.splice(matchIndex, 1)[0];
+    const durationMinutes = matched?.durationMinutes || checkin.plannedDurationMinutes;
+    return { date, durationMinutes, load: durationMinutes * checkin.rpe, method: 'srpe' };
+  });
+  const fromWorkouts = unmatched.map((workout): SessionLoad => {
+    const trimp =
+      profile && workout.averageHeartRateBpm ? trimpLoad(workout.durationMinutes, workout.averageHeartRateBpm, profile) : null;
+    return trimp !== null
+      ? { date: workout.date, durationMinutes: workout.durationMinutes, load: trimp, method: 'trimp' }
+      : {
+          date: workout.date,
+          durationMinutes: workout.durationMinutes,
+          load: workout.durationMinutes * TRAINING_LOAD_SETTINGS.estimatedSessionRpe,
+          method: 'estimated',
+        };
+  });
+  return [...fromCheckins, ...fromWorkouts].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const buildDailyLoads = (sessions: SessionLoad[], endDate: string, days: number): DailyLoad[] => {
+  const totals = sessions.reduce<Record<string, number>>((acc, session) => {
+    acc[session.date] = (acc[session.date] ?? 0) + session.load;
+    return acc;
+  }, {});
+  const end = dayKey(endDate);
+  return Array.from({ length: days }, (_, idx) => {
+    const date = addDays(end, idx - days + 1);
+    return { date, load: totals[date] ?? 0 };
+  });
+};
+
+export const loadRisk = (acwr: number | null): LoadRisk => {
+  if (acwr === null) {
+    return 'unknown';
+  }
+  if (acwr < TRAINING_LOAD_SETTINGS.lowAcwr) {
+    return 'low';
+  }
+  if (acwr <= TRAINING_LOAD_SETTINGS.elevatedAcwr) {
+    return 'optimal';
+  }
+  return acwr <= TRAINING_LOAD_SETTINGS.highAcwr ? 'elevated' : 'high';
+};
+
+export const trainingLoadSeries = (dailyLoads: DailyLoad[], firstSessionDate?: string): TrainingLoadSnapshot[] =>
+  dailyLoads.map((day, index) => {
+    const acuteWindow = dailyLoads.slice(Math.max(0, index - TRAINING_LOAD_SETTINGS.acuteDays + 1), index + 1).map((entry) => entry.load);
+    const chronicWindow = dailyLoads
+      .slice(Math.max(0, index - TRAINING_LOAD_SETTINGS.chronicDays + 1), index + 1)
+      .map((entry) => entry.load);
+    const historyDays = firstSessionDate ? Math.round((Date.parse(day.date) - Date.parse(firstSessionDate)) / DAY_MS) + 1 : index + 1;
+    const acuteLoad = mean(acuteWindow);
+    const chronicLoad = mean(chronicWindow);
+    const hasChronicHistory = historyDays >= TRAINING_LOAD_SETTINGS.minChronicDays && chronicWindow.length >= TRAINING_LOAD_SETTINGS.minChronicDays;
+    const acwr = hasChronicHistory && chronicLoad > 0 ? acuteLoad / chronicLoad : null;
+    const spread = Math.sqrt(mean(acuteWindow.map((value) => (value - acuteLoad) ** 2)));
+    const monotony = acuteWindow.length === TRAINING_LOAD_SETTINGS.acuteDays && spread > 0 ? acuteLoad / spread : null;
+    const weeklyLoad = acuteWindow.reduce((sum, value) => sum + value, 0);
+    return {
+      date: day.date,
+      dailyLoad: day.load,
+      acuteLoad,
+      chronicLoad,
+      acwr,
+      monotony,
+      strain: monotony === null ? null : weeklyLoad * monotony,
+      risk: loadRisk(acwr),
+    };
+  });
+
+export const describeTrainingLoadForPrompt = (snapshot: TrainingLoadSnapshot): string => {
+  if (snapshot.acwr === null) {
+    return `Training load: acute ${Math.round(snapshot.acuteLoad)} AU/day; not enough history for an acute:chronic ratio yet.`;
+  }
+  const guidance: Record<LoadRisk, string> = {
+    unknown: '',
+    low: 'Load is below the chronic base; normal progression is fine.',
+    optimal: 'Load is in the optimal band; progress conservatively.',
+    elevated: 'Load is rising quickly; hold weekly volume flat and keep one quality session.',
+    high: 'Load spike: reduce weekly volume 20-30% and drop to one quality session.',
+  };
+  return [
+    `Training load: ACWR ${snapshot.acwr.toFixed(2)} (${LOAD_RISK_LABELS[snapshot.risk]}); acute ${Math.round(
+      snapshot.acuteLoad
+    )} vs chronic ${Math.round(snapshot.chronicLoad)} AU/day.`,
+    snapshot.monotony !== null
+      ? `Monotony ${snapshot.monotony.toFixed(2)}, weekly strain ${Math.round(snapshot.strain ?? 0)}.`
+      : '',
+    guidance[snapshot.risk],
+  ]
+    .filter(Boolean)
+    .join(' ');
+};
@@ -0,0 +1,242 @@
+import type { WorkoutRow } from '../modules/expo-apple-intelligence';
+import { formatPace } from '../plan/paceGuardrails';
+import {
+  DistanceUnit,
+  formatHeartRateZone,
+  formatPaceTarget,
+  HeartRateZoneRange,
+  isRunningCategory,
+  StructuredWorkout,
+  WorkoutStep,
+  WorkoutTarget,
+  workoutDistance,
+  workoutDurationMinutes,
+} from '../plan/workoutModel';
+import { zoneForHeartRate } from './heartRateZones';
+
+export type ComplianceMetric = 'distance' | 'duration' | 'pace' | 'zone';
+
+export type ActualWorkout = {
+  source: 'health' | 'manual';
+  distanceKm?: number;
+  durationMinutes?: number;
+  averagePaceSecondsPerKm?: number;
+  averageHeartRateBpm?: number;
+};
+
+export type ComplianceComponent = {
+  metric: ComplianceMetric;
+  target: string;
+  actual: string;
+  deviation: string;
+  score: number;
+};
+
+export type WorkoutComparison = {
+  score: number;
+  source: ActualWorkout['source'];
+  components: ComplianceComponent[];
+};
+
+export type SessionComparison = {
+  week: number;
+  day: string;
+  workoutType: string;
+  comparison: WorkoutComparison;
+};
+
+export type WeeklyCompliance = {
+  week: number;
+  score: number;
+  sessions: number;
+};
+
+export const COMPLIANCE_SETTINGS = {
+  volumeTolerancePercent: 5,
+  pointsPerVolumePercent: 2,
+  averagePaceTolerancePercent: 5,
+  pointsPerPacePercent: 4,
+  zoneScores: [100, 70, 40, 10],
+};
+
+const METRIC_WEIGHTS: Record<ComplianceMetric, number> = {
+  distance: 0.4,
+  duration: 0.4,
+  pace: 0.4,
+  zone: 0.2,
+};
+
+const KM_PER_MILE = 1.609344;
+
+const clampScore = (value: number): number => Math.round(Math.min(Math.max(value, 0), 100));
+
+const signedPercent = (value: number): string => `${value >= 0 ? '+' : ''}${Math.round(value)}%`;
+
+const toUnit = (km: number, unit: DistanceUnit): number => (unit === 'miles' ? km / KM_PER_MILE : km);
+
+const pacePerUnit = (secondsPerKm: number, unit: DistanceUnit): number => (unit === 'miles' ? secondsPerKm * KM_PER_MILE : secondsPerKm);
+
+const volumeComponent = (metric: 'distance' | 'duration', planned: number, actual: number, label: string): ComplianceComponent => {
+  const deviationPercent = ((actual - planned) / planned) * 100;
+  return {
+    metric,
+    target: `${planned.toFixed(1)} ${label}`,
+    actual: `${actual.toFixed(1)} ${label}`,
+    deviation: signedPercent(deviationPercent),
+    score: clampScore(
+      100 -
+        Math.max(0, Math.abs(deviationPercent) - COMPLIANCE_SETTINGS.volumeTolerancePercent) * COMPLIANCE_SETTINGS.pointsPerVolumePercent
+    ),
+  };
+};
+
+const workSteps = (workout: StructuredWorkout): WorkoutStep[] =>
+  workout.segments.filter((segment) => segment.kind === 'main').flatMap((segment) => segment.steps.filter((step) => step.kind === 'work'));
+
+const continuousTarget = (workout: StructuredWorkout): WorkoutTarget | null => {
+  const allSteps = workout.segments.flatMap((segment) => segment.steps);
+  const steps = workSteps(workout);
+  return allSteps.length === 1 && steps.length === 1 ? steps[0].target ?? null : null;
+};
+
+const paceComponent = (
+  workout: StructuredWorkout,
+  actualSecondsPerKm: number,
+  unit: DistanceUnit
+): ComplianceComponent | null => {
+  const actual = pacePerUnit(actualSecondsPerKm, unit);
+  const unitLabel = unit === 'miles' ? 'mi' : 'km';
+  const target = continuousTarget(workout);
+  if (target?.type === 'pace') {
+    const outside =
+      actual < target.lowSecondsPerUnit
+        ? ((actual - target.lowSecondsPerUnit) / target.lowSecondsPerUnit) * 100
+        : actual > target.highSecondsPerUnit
+          ? ((actual - target.highSecondsPerUnit) / target.highSecondsPerUnit) * 100
+          : 0;
+    return {
+      metric: 'pace',
+      target: formatPaceTarget(target, unit),
+      actual: `${formatPace(actual)}/${unitLabel}`,
+      deviation: outside === 0 ? 'in range' : `${signedPercent(outside)} ${outside > 0 ? 'slower' : 'faster'}`,
+      score: clampScore(100 - Math.abs(outside) * COMPLIANCE_SETTINGS.pointsPerPacePercent),
+    };
+  }
+
+  const plannedDistance = workoutDistance(workout, unit);
+  if (plannedDistance <= 0 || target?.type === 'hrZone') {
+    return null;
+  }
+  const expected = (workoutDurationMinutes(workout, unit) * 60) / plannedDistance;
+  const deviationPercent = ((actual - expected) / expected) * 100;
+  return {
+    metric: 'pace',
+    target: `~${formatPace(expected)}/${unitLabel} avg`,
+    actual: `${formatPace(actual)}/${unitLabel}`,
+    deviation: `${signedPercent(deviationPercent)} ${deviationPercent > 0 ? 'slower' : 'faster'}`,
+    score: clampScore(
+      100 -
+        Math.max(0, Math.abs(deviationPercent) - COMPLIANCE_SETTINGS.averagePaceTolerancePercent) *
+          COMPLIANCE_SETTINGS.pointsPerPacePercent
+    ),
+  };
+};
+
+const zoneComponent = (
+  workout: StructuredWorkout,
+  averageHeartRateBpm: number,
+  zones: HeartRateZoneRange[]
+): ComplianceComponent | null => {
+  const target = workSteps(workout).find((step) => step.target?.type === 'hrZone')?.target;
+  if (target?.type !== 'hrZone') {
+    return null;
+  }
+  const actualZone = zoneForHeartRate(zones, averageHeartRateBpm);
+  const offset = actualZone - target.zone;
+  return {
+    metric: 'zone',
+    target: formatHeartRateZone(zones, target.zone),
+    actual: `Z${actualZone} (${Math.round(averageHeartRateBpm)} bpm)`,
+    deviation: offset === 0 ? 'in zone' : `${Math.abs(offset)} zone${Math.abs(offset) === 1 ? '' : 's'} ${offset > 0 ? 'high' : 'low'}`,
+    score: COMPLIANCE_SETTINGS.zoneScores[Math.min(Math.abs(offset), COMPLIANCE_SETTINGS.zoneScores.length - 1)],
+  };
+};
+
+export const actualFromHealthWorkout = (workout: WorkoutRow): ActualWorkout => ({
+  source: 'health',
+  distanceKm: workout.distanceKm,
+  durationMinutes: workout.durationMinutes,
+  averagePaceSecondsPerKm: workout.averagePaceSecondsPerKm,
+  averageHeartRateBpm: workout.averageHeartRateBpm,
+});
+
+export const compareWorkout = (
+  planned: StructuredWorkout,
+  actual: ActualWorkout,
+  unit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[]
+): WorkoutComparison | null => {
+  if (!isRunningCategory(planned.category) || planned.category === 'race') {
+    return null;
+  }
+  const plannedDistance = workoutDistance(planned, unit);
+  const plannedMinutes = workoutDurationMinutes(planned, unit);
+  const averagePace =
+    actual.averagePaceSecondsPerKm ??
+    (actual.distanceKm && actual.durationMinutes ? (actual.durationMinutes * 60) / actual.distanceKm : undefined);
+
+  const components = [
+    plannedDistance > 0 && actual.distanceKm
+      ? volumeComponent('distance', plannedDistance, toUnit(actual.distanceKm, unit), unit)
+      : actual.durationMinutes
+        ? volumeComponent('duration', plannedMinutes, actual.durationMinutes, 'min')
+        : null,
+    averagePace ? paceComponent(planned, averagePace, unit) : null,
+    actual.averageHeartRateBpm && heartRateZones?.length
+      ? zoneComponent(planned, actual.averageHeartRateBpm, heartRateZones)
+      : null,
+  ].filter((component): component is ComplianceComponent => !!component);
+  if (!components.length) {
+    return null;
+  }
+
+  const totalWeight = components.reduce((sum, component) => sum + METRIC_WEIGHTS[component.metric], 0);
+  return {
+    score: clampScore(components.reduce((sum, component) => sum + component.score * METRIC_WEIGHTS[component.metric], 0) / totalWeight),
+    source: actual.source,
+    components,
+  };
+};
+
+export const weeklyCompliance = (comparisons: SessionComparison[]): WeeklyCompliance[] => {
+  const byWeek = comparisons.reduce<Record<number, number[]>>((acc, entry) => {
+    acc[entry.week] = [...(acc[entry.week] ?? []), entry.comparison.score];
+    return acc;
+  }, {});
+  return Object.entries(byWeek)
+    .map(([week, scores]) => ({
+      week: Number(week),
+      score: clampScore(scores.reduce((sum, score) => sum + score, 0) / scores.length),
+      sessions: scores.length,
+    }))
+    .sort((a, b) => a.week - b.week);
+};
+
+export const describeComplianceComponent = (component: ComplianceComponent): string =>
+  `${component.metric}: ${component.actual} vs ${component.target} (${component.deviation})`;
+
+export const describeWorstDeviations = (comparisons: SessionComparison[], limit = 3): string => {
+  const worst = comparisons
+    .flatMap((entry) => entry.comparison.components.filter((component) => component.score < 100).map((component) => ({ entry, component })))
+    .sort((a, b) => a.component.score - b.component.score)
+    .slice(0, limit);
+  if (!worst.length) {
+    return '';
+  }
+  return [
+    'Largest deviations from the prescription:',
+    ...worst.map(
+      ({ entry, component }) => `- Week ${entry.week} ${entry.day} ${entry.workoutType}: ${describeComplianceComponent(component)}`
+    ),
+  ].join('\n');
+};
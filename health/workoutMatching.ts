@@ -0,0 +1,144 @@
+import type { WorkoutRow } from '../modules/expo-apple-intelligence';
+import { DAY_INDEX, normalizeDayName, PlanTable, tableWeekNumber, workoutForRow } from '../plan/planTables';
+import {
+  DistanceUnit,
+  isRunningCategory,
+  StructuredWorkout,
+  WorkoutCategory,
+  workoutDistance,
+  workoutDurationMinutes,
+} from '../plan/workoutModel';
+
+export type PlannedSession = {
+  week: number;
+  day: string;
+  date: string;
+  workoutType: string;
+  category: WorkoutCategory;
+  workout: StructuredWorkout;
+  plannedKm: number;
+  plannedMinutes: number;
+};
+
+export type SessionStatus = 'completed' | 'missed' | 'upcoming';
+
+export type SessionMatch = {
+  session: PlannedSession;
+  workout: WorkoutRow | null;
+  checkedIn: boolean;
+  status: SessionStatus;
+};
+
+export type WorkoutReconciliation = {
+  sessions: SessionMatch[];
+  extras: WorkoutRow[];
+  dueCount: number;
+  completedCount: number;
+  adherencePercent: number;
+};
+
+export const MATCH_SETTINGS = {
+  maxDayOffset: 1,
+  minDurationShare: 0.3,
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const dayKey = (value: string): string => value.slice(0, 10);
+
+const localDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const daysApart = (a: string, b: string): number => Math.abs(Math.round((Date.parse(a) - Date.parse(b)) / DAY_MS));
+
+export const isRunningWorkout = (workout: WorkoutRow): boolean => workout.activityType.toLowerCase().includes('run');
+
+export const buildPlannedSessions = (tables: PlanTable[], planStartDate: string, unit: DistanceUnit): PlannedSession[] => {
+  const planStart = new Date(planStartDate);
+  const kmPerUnit = unit === 'miles' ? 1.609344 : 1;
+  return tables.flatMap((table, tableIndex) => {
+    const week = tableWeekNumber(table, tableIndex + 1);
+    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+    return table.rows.flatMap((row, rowIndex) => {
+      const day = normalizeDayName(row[dayIndex] ?? '');
+      const workout = workoutForRow(table, rowIndex);
+      if (!day || workout.category === 'rest') {
+        return [];
+      }
+      const date = new Date(planStart);
+      date.setDate(date.getDate() + (week - 1) * 7 + DAY_INDEX[day.toLowerCase()]);
+      return [
+        {
+          week,
+          day,
+          date: localDateKey(date),
+          workoutType: workoutIndex === -1 ? 'Run' : row[workoutIndex] ?? 'Run',
+          category: workout.category,
+          workout,
+          plannedKm: workoutDistance(workout, unit) * kmPerUnit,
+          plannedMinutes: workoutDurationMinutes(workout, unit),
+        },
+      ];
+    });
+  });
+};
+
+const typeMatches = (session: PlannedSession, workout: WorkoutRow): boolean =>
+  isRunningCategory(session.category) === isRunningWorkout(workout);
+
+const matchScore = (session: PlannedSession, workout: WorkoutRow): number => {
+  const dateGap = daysApart(session.date, dayKey(workout.date));
+  const sizeGap =
+    session.plannedKm > 0 && workout.distanceKm
+      ? Math.abs(workout.distanceKm - session.plannedKm) / session.plannedKm
+      : session.plannedMinutes > 0
+        ? Math.abs(workout.durationMinutes - session.plannedMinutes) / session.plannedMinutes
+        : 0;
+  return dateGap * 10 + sizeGap;
+};
+
+export const reconcileWorkouts = (
+  sessions: PlannedSession[],
+  workouts: WorkoutRow[],
+  isCheckedIn: (session: PlannedSession) => boolean,
+  asOf: Date = new Date()
+): WorkoutReconciliation => {
+  const today = localDateKey(asOf);
+  const firstDate = sessions.reduce((first, session) => (session.date < first ? session.date : first), today);
+  const candidates = workouts.filter((workout) => dayKey(workout.date) >= firstDate && dayKey(workout.date) <= today);
+  const matched = new Map<PlannedSession, WorkoutRow>();
+  const used = new Set<WorkoutRow>();
+
+  for (let offset = 0; offset <= MATCH_SETTINGS.maxDayOffset; offset += 1) {
+    sessions
+      .filter((session) => !matched.has(session) && session.date <= today)
+      .forEach((session) => {
+        const best = candidates
+          .filter((workout) => !used.has(workout) && typeMatches(session, workout))
+          .filter((workout) => daysApart(session.date, dayKey(workout.date)) === offset)
+          .filter((workout) => !session.plannedMinutes || workout.durationMinutes >= session.plannedMinutes * MATCH_SETTINGS.minDurationShare)
+          .sort((a, b) => matchScore(session, a) - matchScore(session, b))[0];
+        if (best) {
+          matched.set(session, best);
+          used.add(best);
+        }
+      });
+  }
+
+  const results = sessions.map((session): SessionMatch => {
+    const workout = matched.get(session) ?? null;
+    const checkedIn = isCheckedIn(session);
+    const status: SessionStatus = checkedIn || workout ? 'completed' : session.date < today ? 'missed' : 'upcoming';
+    return { session, workout, checkedIn, status };
+  });
+  const dueCount = results.filter((result) => result.status !== 'upcoming').length;
+  const completedCount = results.filter((result) => result.status === 'completed').length;
+  return {
+    sessions: results,
+    extras: candidates.filter((workout) => !used.has(workout) && isRunningWorkout(workout)),
+    dueCount,
+    completedCount,
+    adherencePercent: dueCount ? Math.round((completedCount / dueCount) * 100) : 0,
+  };
+};
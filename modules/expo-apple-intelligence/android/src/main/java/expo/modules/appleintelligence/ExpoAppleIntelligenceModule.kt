@@ -1,7 +1,21 @@
 package expo.modules.appleintelligence
 
+import android.content.Intent
+import android.util.Base64
+import androidx.core.content.FileProvider
+import expo.modules.kotlin.exception.CodedException
 import expo.modules.kotlin.modules.Module
 import expo.modules.kotlin.modules.ModuleDefinition
+import java.io.File
+
+private val SHARE_FILE_TYPES = mapOf(
+  "csv" to "text/csv",
+  "fit" to "application/vnd.ant.fit",
+  "html" to "text/html",
+  "ics" to "text/calendar",
+  "json" to "application/json",
+  "tcx" to "application/vnd.garmin.tcx+xml"
+)
 
 class ExpoAppleIntelligenceModule : Module() {
   override fun definition() = ModuleDefinition {
@@ -48,5 +62,52 @@ class ExpoAppleIntelligenceModule : Module() {
     AsyncFunction("removeStoredValueAsync") { _: String ->
       throw UnsupportedOperationException("Native storage is only available on iOS.")
     }
+
+    AsyncFunction("shareFileAsync") { fileName: String, contents: String, encoding: String? ->
+      shareFile(fileName, contents, encoding ?: "utf8")
+    }
+
+    AsyncFunction("pickTextFileAsync") {
+      throw UnsupportedOperationException("File import is only available on iOS.")
+    }
+
+    AsyncFunction("scheduleWorkoutKitWorkoutsAsync") { _: String ->
+      throw UnsupportedOperationException("Apple Watch workout scheduling is only available on iOS.")
+    }
+  }
+
+  // The chooser does not report whether a target was picked, so a launched share sheet counts as shared.
+  private fun shareFile(fileName: String, contents: String, encoding: String): Boolean {
+    val trimmedName = fileName.trim()
+    if (trimmedName.isEmpty() || trimmedName.contains("/")) {
+      throw FileNameException()
+    }
+    val activity = appContext.currentActivity ?: throw PresenterUnavailableException()
+
+    val uri = try {
+      val directory = File(activity.cacheDir, "exports").apply { mkdirs() }
+      val file = File(directory, trimmedName)
+      file.writeBytes(
+        if (encoding == "base64") Base64.decode(contents, Base64.DEFAULT) else contents.toByteArray(Charsets.UTF_8)
+      )
+      FileProvider.getUriForFile(activity, "${activity.packageName}.frunna.fileprovider", file)
+    } catch (error: Exception) {
+      throw FileExportException(error.message ?: "Could not write the file.")
+    }
+
+    val intent = Intent(Intent.ACTION_SEND).apply {
+      type = SHARE_FILE_TYPES[trimmedName.substringAfterLast('.', "").lowercase()] ?: "text/plain"
+      putExtra(Intent.EXTRA_STREAM, uri)
+      putExtra(Intent.EXTRA_SUBJECT, trimmedName)
+      addFlags(Intent.FLAG_GRANT_READ_URI_PERMISSION)
+    }
+    activity.startActivity(Intent.createChooser(intent, trimmedName))
+    return true
   }
 }
+
+internal class FileNameException : CodedException("File name cannot be empty or contain a path.")
+
+internal class PresenterUnavailableException : CodedException("No screen is available to present from.")
+
+internal class FileExportException(reason: String) : CodedException("File export failed: $reason")
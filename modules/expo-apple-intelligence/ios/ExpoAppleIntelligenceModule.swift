@@ -1,14 +1,21 @@
 import ExpoModulesCore
 import EventKit
 import HealthKit
+import UIKit
+import UniformTypeIdentifiers
 
 #if canImport(FoundationModels)
 import FoundationModels
 #endif
 
+#if canImport(WorkoutKit)
+import WorkoutKit
+#endif
+
 public class ExpoAppleIntelligenceModule: Module {
   private let healthStore = HKHealthStore()
   private let eventStore = EKEventStore()
+  private var documentPickerDelegate: DocumentPickerDelegate?
 
   public func definition() -> ModuleDefinition {
     Name("ExpoAppleIntelligence")
@@ -78,6 +85,23 @@ public class ExpoAppleIntelligenceModule: Module {
     AsyncFunction("removeStoredValueAsync") { (key: String) async throws -> Bool in
       try self.removeStoredValue(key: key)
     }
+
+    AsyncFunction("shareFileAsync") { (fileName: String, contents: String, encoding: String?) async throws -> Bool in
+      try await self.shareFile(fileName: fileName, contents: contents, encoding: encoding ?? "utf8")
+    }
+
+    AsyncFunction("pickTextFileAsync") { () async throws -> String? in
+      try await self.pickTextFile()
+    }
+
+    AsyncFunction("scheduleWorkoutKitWorkoutsAsync") { (workoutsJson: String) async throws -> Int in
+      #if canImport(WorkoutKit)
+      if #available(iOS 17.0, *) {
+        return try await self.scheduleWorkoutKitWorkouts(workoutsJson)
+      }
+      #endif
+      throw WorkoutKitUnavailableException()
+    }
   }
 
   private func setStoredValue(key: String, value: String) throws -> Bool {
@@ -106,6 +130,81 @@ public class ExpoAppleIntelligenceModule: Module {
     return true
   }
 
+  @MainActor
+  private func shareFile(fileName: String, contents: String, encoding: String) async throws -> Bool {
+    let trimmedName = fileName.trimmingCharacters(in: .whitespacesAndNewlines)
+    guard !trimmedName.isEmpty, !trimmedName.contains("/") else {
+      throw FileNameException()
+    }
+    guard let presenter = appContext?.utilities?.currentViewController() else {
+      throw PresenterUnavailableException()
+    }
+
+    let fileUrl = FileManager.default.temporaryDirectory.appendingPathComponent(trimmedName)
+    let data: Data?
+    if encoding == "base64" {
+      data = Data(base64Encoded: contents)
+    } else {
+      data = contents.data(using: .utf8)
+    }
+    guard let data else {
+      throw FileExportException("Contents could not be decoded as \(encoding).")
+    }
+    do {
+      try data.write(to: fileUrl, options: .atomic)
+    } catch {
+      throw FileExportException(error.localizedDescription)
+    }
+
+    return await withCheckedContinuation { continuation in
+      var resumed = false
+      let controller = UIActivityViewController(activityItems: [fileUrl], applicationActivities: nil)
+      controller.popoverPresentationController?.sourceView = presenter.view
+      controller.completionWithItemsHandler = { _, completed, _, _ in
+        guard !resumed else {
+          return
+        }
+        resumed = true
+        continuation.resume(returning: completed)
+      }
+      presenter.present(controller, animated: true)
+    }
+  }
+
+  @MainActor
+  private func pickTextFile() async throws -> String? {
+    guard let presenter = appContext?.utilities?.currentViewController() else {
+      throw PresenterUnavailableException()
+    }
+
+    let fileUrl: URL? = await withCheckedContinuation { continuation in
+      let picker = UIDocumentPickerViewController(forOpeningContentTypes: [.json, .plainText, .text], asCopy: true)
+      let delegate = DocumentPickerDelegate { url in
+        self.documentPickerDelegate = nil
+        continuation.resume(returning: url)
+      }
+      self.documentPickerDelegate = delegate
+      picker.delegate = delegate
+      picker.allowsMultipleSelection = false
+      presenter.present(picker, animated: true)
+    }
+
+    guard let fileUrl else {
+      return nil
+    }
+    let scoped = fileUrl.startAccessingSecurityScopedResource()
+    defer {
+      if scoped {
+        fileUrl.stopAccessingSecurityScopedResource()
+      }
+    }
+    do {
+      return try String(contentsOf: fileUrl, encoding: .utf8)
+    } catch {
+      throw FileImportException(error.localizedDescription)
+    }
+  }
+
   private func requestCalendarAccess() async throws -> Bool {
     if #available(iOS 17.0, *) {
       return try await withCheckedThrowingContinuation { continuation in
@@ -145,6 +244,7 @@ public class ExpoAppleIntelligenceModule: Module {
     let fallbackFormatter = ISO8601DateFormatter()
     fallbackFormatter.formatOptions = [.withInternetDateTime]
 
+    // One identifier per input event (empty when skipped) so callers can map events back to workouts.
     var createdIds: [String] = []
     for eventPayload in events {
       guard
@@ -152,6 +252,7 @@ public class ExpoAppleIntelligenceModule: Module {
         let startString = eventPayload["startDate"],
         let endString = eventPayload["endDate"]
       else {
+        createdIds.append("")
         continue
       }
 
@@ -159,6 +260,7 @@ public class ExpoAppleIntelligenceModule: Module {
         let startDate = formatter.date(from: startString) ?? fallbackFormatter.date(from: startString),
         let endDate = formatter.date(from: endString) ?? fallbackFormatter.date(from: endString)
       else {
+        createdIds.append("")
         continue
       }
 
@@ -171,9 +273,7 @@ public class ExpoAppleIntelligenceModule: Module {
 
       do {
         try eventStore.save(event, span: .thisEvent, commit: false)
-        if let id = event.eventIdentifier {
-          createdIds.append(id)
-        }
+        createdIds.append(event.eventIdentifier ?? "")
       } catch {
         throw CalendarSyncException(error.localizedDescription)
       }
@@ -210,6 +310,96 @@ public class ExpoAppleIntelligenceModule: Module {
     return removedCount
   }
 
+  #if canImport(WorkoutKit)
+  // Workouts arrive earliest first; only as many as the scheduler's pending cap allows are scheduled.
+  // A day that already holds one of this app's workouts is replaced, so re-sending a plan does not duplicate it.
+  @available(iOS 17.0, *)
+  private func scheduleWorkoutKitWorkouts(_ workoutsJson: String) async throws -> Int {
+    let payloads: [WorkoutKitWorkoutPayload]
+    do {
+      payloads = try JSONDecoder().decode([WorkoutKitWorkoutPayload].self, from: Data(workoutsJson.utf8))
+    } catch {
+      throw WorkoutKitPayloadException(error.localizedDescription)
+    }
+    let workouts = try payloads.map { payload in
+      (plan: WorkoutPlan(.custom(try customWorkout(from: payload))), date: payload.date.components)
+    }
+
+    guard WorkoutScheduler.isSupported else {
+      throw WorkoutKitUnavailableException()
+    }
+    let scheduler = WorkoutScheduler.shared
+    guard await scheduler.requestAuthorization() == .authorized else {
+      throw WorkoutSchedulerAccessDeniedException()
+    }
+
+    let days = Set(payloads.map { [$0.date.year, $0.date.month, $0.date.day] })
+    let existing = await scheduler.scheduledWorkouts
+    for scheduled in existing {
+      let date = scheduled.date
+      if days.contains([date.year ?? 0, date.month ?? 0, date.day ?? 0]) {
+        await scheduler.remove(scheduled.plan, at: date)
+      }
+    }
+
+    let pendingCount = await scheduler.scheduledWorkouts.count
+    let openSlots = max(WorkoutScheduler.maxAllowedScheduledWorkoutCount - pendingCount, 0)
+    for workout in workouts.prefix(openSlots) {
+      await scheduler.schedule(workout.plan, at: workout.date)
+    }
+    return min(workouts.count, openSlots)
+  }
+
+  @available(iOS 17.0, *)
+  private func customWorkout(from payload: WorkoutKitWorkoutPayload) throws -> CustomWorkout {
+    let blocks = try payload.blocks.map { block in
+      IntervalBlock(
+        steps: try block.steps.map { entry in
+          IntervalStep(entry.purpose == "recovery" ? .recovery : .work, step: try workoutStep(from: entry.step))
+        },
+        iterations: max(block.iterations, 1)
+      )
+    }
+    return CustomWorkout(
+      activity: .running,
+      location: .outdoor,
+      displayName: payload.displayName,
+      warmup: try payload.warmup.map { try workoutStep(from: $0) },
+      blocks: blocks,
+      cooldown: try payload.cooldown.map { try workoutStep(from: $0) }
+    )
+  }
+
+  @available(iOS 17.0, *)
+  private func workoutStep(from payload: WorkoutKitStepPayload) throws -> WorkoutStep {
+    let goal: WorkoutGoal
+    switch (payload.goal.type, payload.goal.meters, payload.goal.seconds) {
+    case ("distance", let meters?, _):
+      goal = .distance(meters, .meters)
+    case ("time", _, let seconds?):
+      goal = .time(seconds, .seconds)
+    case ("open", _, _):
+      goal = .open
+    default:
+      throw WorkoutKitPayloadException("unknown goal \(payload.goal.type)")
+    }
+
+    guard let alert = payload.alert else {
+      return WorkoutStep(goal: goal)
+    }
+    switch (alert.type, alert.minMetersPerSecond, alert.maxMetersPerSecond, alert.minBpm, alert.maxBpm, alert.zone) {
+    case ("speed", let low?, let high?, _, _, _):
+      return WorkoutStep(goal: goal, alert: SpeedRangeAlert.speed(low...high, unit: .metersPerSecond, metric: .current))
+    case ("heartRate", _, _, let low?, let high?, _):
+      return WorkoutStep(goal: goal, alert: HeartRateRangeAlert.heartRate(low...high))
+    case ("heartRateZone", _, _, _, _, let zone?):
+      return WorkoutStep(goal: goal, alert: HeartRateZoneAlert.heartRate(zone: zone))
+    default:
+      throw WorkoutKitPayloadException("unknown alert \(alert.type)")
+    }
+  }
+  #endif
+
   private func requestHealthAuthorization() async throws -> Bool {
     guard HKHealthStore.isHealthDataAvailable() else {
       throw HealthDataUnavailableException()
@@ -710,7 +900,7 @@ public class ExpoAppleIntelligenceModule: Module {
 
     let sort = NSSortDescriptor(key: HKSampleSortIdentifierStartDate, ascending: false)
 
-    return try await withCheckedThrowingContinuation { continuation in
+    let workouts: [HKWorkout] = try await withCheckedThrowingContinuation { continuation in
       let query = HKSampleQuery(
         sampleType: HKWorkoutType.workoutType(),
         predicate: predicate,
@@ -722,25 +912,149 @@ public class ExpoAppleIntelligenceModule: Module {
           return
         }
 
-        let formatter = ISO8601DateFormatter()
-        formatter.formatOptions = [.withFullDate]
+        continuation.resume(returning: samples as? [HKWorkout] ?? [])
+      }
+
+      self.healthStore.execute(query)
+    }
+
+    let formatter = ISO8601DateFormatter()
+    formatter.formatOptions = [.withFullDate]
+
+    var rows = [[String: Any]]()
+    for workout in workouts {
+      var row: [String: Any] = [
+        "date": formatter.string(from: workout.startDate),
+        "activityType": self.workoutName(for: workout.workoutActivityType),
+        "durationMinutes": Int((workout.duration / 60).rounded()),
+        "energyKilocalories": Int((workout.totalEnergyBurned?.doubleValue(for: .kilocalorie()) ?? 0).rounded())
+      ]
+      row.merge(await self.fetchWorkoutDetail(workout)) { current, _ in current }
+      rows.append(row)
+    }
+    return rows
+  }
+
+  private func fetchWorkoutDetail(_ workout: HKWorkout) async -> [String: Any] {
+    var detail = [String: Any]()
+    let distanceMeters = workout.totalDistance?.doubleValue(for: .meter()) ?? 0
+    if distanceMeters > 0 {
+      detail["distanceKm"] = Double(round(distanceMeters / 10) / 100)
+      detail["averagePaceSecondsPerKm"] = Int((workout.duration / (distanceMeters / 1000)).rounded())
+    }
+    if let elevation = workout.metadata?[HKMetadataKeyElevationAscended] as? HKQuantity {
+      detail["elevationGainMeters"] = Int(elevation.doubleValue(for: .meter()).rounded())
+    }
+    if let heartRate = await self.fetchWorkoutHeartRate(workout) {
+      detail["averageHeartRateBpm"] = Int(heartRate.average.rounded())
+      detail["maxHeartRateBpm"] = Int(heartRate.max.rounded())
+    }
+
+    let onFootActivities: [HKWorkoutActivityType] = [.running, .walking, .hiking]
+    let isOnFoot = onFootActivities.contains(workout.workoutActivityType)
+    if isOnFoot && distanceMeters > 0 {
+      let samples = await self.fetchWorkoutDistanceSamples(workout)
+      detail["splitsKm"] = self.computeSplits(samples, splitMeters: 1000)
+      detail["splitsMiles"] = self.computeSplits(samples, splitMeters: 1609.344)
+    }
+    return detail
+  }
 
-        let rows = (samples as? [HKWorkout] ?? []).map { workout in
-          [
-            "date": formatter.string(from: workout.startDate),
-            "activityType": self.workoutName(for: workout.workoutActivityType),
-            "durationMinutes": Int((workout.duration / 60).rounded()),
-            "energyKilocalories": Int((workout.totalEnergyBurned?.doubleValue(for: .kilocalorie()) ?? 0).rounded())
-          ] as [String: Any]
+  private func fetchWorkoutHeartRate(_ workout: HKWorkout) async -> (average: Double, max: Double)? {
+    guard let heartRateType = HKObjectType.quantityType(forIdentifier: .heartRate) else {
+      return nil
+    }
+
+    let predicate = HKQuery.predicateForSamples(
+      withStart: workout.startDate,
+      end: workout.endDate,
+      options: .strictStartDate
+    )
+    let unit = HKUnit.count().unitDivided(by: .minute())
+
+    return await withCheckedContinuation { continuation in
+      let query = HKStatisticsQuery(
+        quantityType: heartRateType,
+        quantitySamplePredicate: predicate,
+        options: [.discreteAverage, .discreteMax]
+      ) { _, statistics, _ in
+        guard let average = statistics?.averageQuantity()?.doubleValue(for: unit),
+          let max = statistics?.maximumQuantity()?.doubleValue(for: unit)
+        else {
+          continuation.resume(returning: nil)
+          return
         }
+        continuation.resume(returning: (average: average, max: max))
+      }
 
-        continuation.resume(returning: rows)
+      self.healthStore.execute(query)
+    }
+  }
+
+  private func fetchWorkoutDistanceSamples(_ workout: HKWorkout) async -> [HKQuantitySample] {
+    guard let distanceType = HKObjectType.quantityType(forIdentifier: .distanceWalkingRunning) else {
+      return []
+    }
+
+    let predicate = NSCompoundPredicate(andPredicateWithSubpredicates: [
+      HKQuery.predicateForSamples(withStart: workout.startDate, end: workout.endDate, options: .strictStartDate),
+      HKQuery.predicateForObjects(from: workout.sourceRevision.source)
+    ])
+    let sort = NSSortDescriptor(key: HKSampleSortIdentifierStartDate, ascending: true)
+
+    return await withCheckedContinuation { continuation in
+      let query = HKSampleQuery(
+        sampleType: distanceType,
+        predicate: predicate,
+        limit: HKObjectQueryNoLimit,
+        sortDescriptors: [sort]
+      ) { _, samples, _ in
+        continuation.resume(returning: samples as? [HKQuantitySample] ?? [])
       }
 
       self.healthStore.execute(query)
     }
   }
 
+  private func computeSplits(_ samples: [HKQuantitySample], splitMeters: Double) -> [[String: Any]] {
+    guard let firstSample = samples.first else {
+      return []
+    }
+
+    var splits = [[String: Any]]()
+    var splitStart = firstSample.startDate
+    var splitDistance = 0.0
+    for sample in samples {
+      var remainingMeters = sample.quantity.doubleValue(for: .meter())
+      let sampleSeconds = max(sample.endDate.timeIntervalSince(sample.startDate), 0.001)
+      var cursor = sample.startDate
+      while splitDistance + remainingMeters >= splitMeters {
+        let neededMeters = splitMeters - splitDistance
+        let secondsToBoundary = sampleSeconds * (neededMeters / sample.quantity.doubleValue(for: .meter()))
+        let boundary = cursor.addingTimeInterval(secondsToBoundary)
+        splits.append([
+          "index": splits.count + 1,
+          "distance": 1.0,
+          "durationSeconds": Int(boundary.timeIntervalSince(splitStart).rounded())
+        ])
+        splitStart = boundary
+        cursor = boundary
+        remainingMeters -= neededMeters
+        splitDistance = 0
+      }
+      splitDistance += remainingMeters
+    }
+
+    if splitDistance >= splitMeters * 0.1, let lastSample = samples.last {
+      splits.append([
+        "index": splits.count + 1,
+        "distance": Double(round(100 * splitDistance / splitMeters) / 100),
+        "durationSeconds": Int(lastSample.endDate.timeIntervalSince(splitStart).rounded())
+      ])
+    }
+    return splits
+  }
+
   private func isAsleepValue(_ value: Int) -> Bool {
     if value == HKCategoryValueSleepAnalysis.inBed.rawValue {
       return false
@@ -784,6 +1098,71 @@ public class ExpoAppleIntelligenceModule: Module {
   }
 }
 
+private final class DocumentPickerDelegate: NSObject, UIDocumentPickerDelegate {
+  private let onFinish: (URL?) -> Void
+
+  init(onFinish: @escaping (URL?) -> Void) {
+    self.onFinish = onFinish
+  }
+
+  func documentPicker(_ controller: UIDocumentPickerViewController, didPickDocumentsAt urls: [URL]) {
+    onFinish(urls.first)
+  }
+
+  func documentPickerWasCancelled(_ controller: UIDocumentPickerViewController) {
+    onFinish(nil)
+  }
+}
+
+// Mirrors the WorkoutKit payload built in export/workoutFiles.ts.
+private struct WorkoutKitWorkoutPayload: Decodable {
+  struct ScheduledDate: Decodable {
+    let year: Int
+    let month: Int
+    let day: Int
+
+    var components: DateComponents {
+      DateComponents(year: year, month: month, day: day)
+    }
+  }
+
+  struct Block: Decodable {
+    let iterations: Int
+    let steps: [Entry]
+  }
+
+  struct Entry: Decodable {
+    let purpose: String
+    let step: WorkoutKitStepPayload
+  }
+
+  let displayName: String
+  let date: ScheduledDate
+  let warmup: WorkoutKitStepPayload?
+  let blocks: [Block]
+  let cooldown: WorkoutKitStepPayload?
+}
+
+private struct WorkoutKitStepPayload: Decodable {
+  struct Goal: Decodable {
+    let type: String
+    let meters: Double?
+    let seconds: Double?
+  }
+
+  struct Alert: Decodable {
+    let type: String
+    let minMetersPerSecond: Double?
+    let maxMetersPerSecond: Double?
+    let minBpm: Double?
+    let maxBpm: Double?
+    let zone: Int?
+  }
+
+  let goal: Goal
+  let alert: Alert?
+}
+
 internal final class InvalidPromptException: Exception {
   override var reason: String {
     "Prompt cannot be empty."
@@ -861,3 +1240,45 @@ internal final class StorageKeyException: Exception {
     "Storage key cannot be empty."
   }
 }
+
+internal final class FileNameException: Exception {
+  override var reason: String {
+    "File name cannot be empty or contain a path."
+  }
+}
+
+internal final class PresenterUnavailableException: Exception {
+  override var reason: String {
+    "No screen is available to present from."
+  }
+}
+
+internal final class FileExportException: GenericException<String> {
+  override var reason: String {
+    "File export failed: \(param)"
+  }
+}
+
+internal final class FileImportException: GenericException<String> {
+  override var reason: String {
+    "File import failed: \(param)"
+  }
+}
+
+internal final class WorkoutKitUnavailableException: Exception {
+  override var reason: String {
+    "Scheduling workouts on Apple Watch requires iOS 17.0 or newer with a paired watch."
+  }
+}
+
+internal final class WorkoutSchedulerAccessDeniedException: Exception {
+  override var reason: String {
+    "Workout scheduling access was denied."
+  }
+}
+
+internal final class WorkoutKitPayloadException: GenericException<String> {
+  override var reason: String {
+    "Workout could not be read: \(param)"
+  }
+}
@@ -44,13 +44,28 @@ export type DistanceRow = {
   distanceKm: number;
 };
 
+export type WorkoutSplit = {
+  index: number;
+  distance: number;
+  durationSeconds: number;
+};
+
 export type WorkoutRow = {
   date: string;
   activityType: string;
   durationMinutes: number;
   energyKilocalories: number;
+  distanceKm?: number;
+  averagePaceSecondsPerKm?: number;
+  averageHeartRateBpm?: number;
+  maxHeartRateBpm?: number;
+  elevationGainMeters?: number;
+  splitsKm?: WorkoutSplit[];
+  splitsMiles?: WorkoutSplit[];
 };
 
+export type FileEncoding = 'utf8' | 'base64';
+
 export type CalendarWorkoutEvent = {
   title: string;
   startDate: string;
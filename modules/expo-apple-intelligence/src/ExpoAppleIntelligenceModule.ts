@@ -3,6 +3,7 @@ import { NativeModule, requireNativeModule } from 'expo';
 import {
   CalendarWorkoutEvent,
   ExpoAppleIntelligenceModuleEvents,
+  FileEncoding,
   HealthSummary,
   QueryResult,
   StepCountRow,
@@ -19,6 +20,9 @@ declare class ExpoAppleIntelligenceModule extends NativeModule<ExpoAppleIntellig
   setStoredValueAsync(key: string, value: string): Promise<boolean>;
   getStoredValueAsync(key: string): Promise<string | null>;
   removeStoredValueAsync(key: string): Promise<boolean>;
+  shareFileAsync(fileName: string, contents: string, encoding?: FileEncoding): Promise<boolean>;
+  pickTextFileAsync(): Promise<string | null>;
+  scheduleWorkoutKitWorkoutsAsync(workoutsJson: string): Promise<number>;
 }
 
 export default requireNativeModule<ExpoAppleIntelligenceModule>('ExpoAppleIntelligence');
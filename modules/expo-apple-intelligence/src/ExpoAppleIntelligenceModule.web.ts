@@ -3,11 +3,21 @@ import { NativeModule, registerWebModule } from 'expo';
 import {
   CalendarWorkoutEvent,
   ExpoAppleIntelligenceModuleEvents,
+  FileEncoding,
   HealthSummary,
   QueryResult,
   StepCountRow,
 } from './ExpoAppleIntelligence.types';
 
+const WEB_FILE_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  fit: 'application/vnd.ant.fit',
+  html: 'text/html',
+  ics: 'text/calendar',
+  json: 'application/json',
+  tcx: 'application/vnd.garmin.tcx+xml',
+};
+
 class ExpoAppleIntelligenceModule extends NativeModule<ExpoAppleIntelligenceModuleEvents> {
   async queryAsync(_: string): Promise<QueryResult> {
     throw new Error('Apple Intelligence querying is only available on iOS development builds.');
@@ -48,6 +58,27 @@ class ExpoAppleIntelligenceModule extends NativeModule<ExpoAppleIntelligenceModu
   async removeStoredValueAsync(_: string): Promise<boolean> {
     throw new Error('Native storage is only available on iOS development builds.');
   }
+
+  async shareFileAsync(fileName: string, contents: string, encoding: FileEncoding = 'utf8'): Promise<boolean> {
+    const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+    const data = encoding === 'base64' ? Uint8Array.from(atob(contents), (character) => character.charCodeAt(0)) : contents;
+    const blob = new Blob([data], { type: WEB_FILE_TYPES[extension] ?? 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+    return true;
+  }
+
+  async pickTextFileAsync(): Promise<string | null> {
+    throw new Error('File import is only available on iOS development builds.');
+  }
+
+  async scheduleWorkoutKitWorkoutsAsync(_: string): Promise<number> {
+    throw new Error('Apple Watch workout scheduling is only available on iOS development builds.');
+  }
 }
 
 export default registerWebModule(ExpoAppleIntelligenceModule, 'ExpoAppleIntelligence');
@@ -0,0 +1,147 @@
+import { DAY_INDEX, normalizeDayName, PlanTable, workoutForRow } from './planTables';
+import {
+  describeWorkout,
+  DistanceUnit,
+  isQualityCategory,
+  singleStepWorkout,
+  StructuredWorkout,
+  workoutDistance,
+} from './workoutModel';
+
+export type DailyAdjustmentMode = 'easy' | 'rest';
+
+export type DailyAdjustmentResult = {
+  table: PlanTable;
+  movedTo: string | null;
+  message: string;
+};
+
+type DayEntry = {
+  rowIndex: number;
+  order: number;
+  day: string;
+  workout: StructuredWorkout;
+};
+
+const isHardWorkout = (workout: StructuredWorkout): boolean =>
+  workout.category === 'long' || workout.category === 'race' || isQualityCategory(workout.category);
+
+export const isDowngradableSession = (workout: StructuredWorkout): boolean =>
+  isQualityCategory(workout.category) && workout.category !== 'race';
+
+const dayEntries = (table: PlanTable): DayEntry[] => {
+  const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+  return table.rows.flatMap((row, rowIndex) => {
+    const day = normalizeDayName(row[dayIndex] ?? '');
+    return day ? [{ rowIndex, order: DAY_INDEX[day.toLowerCase()], day, workout: workoutForRow(table, rowIndex) }] : [];
+  });
+};
+
+const findShiftTarget = (entries: DayEntry[], today: DayEntry, mode: DailyAdjustmentMode): DayEntry | null => {
+  const hardOrders = new Set(entries.filter((entry) => entry !== today && isHardWorkout(entry.workout)).map((entry) => entry.order));
+  return (
+    entries
+      .filter((entry) => entry.order > today.order)
+      .filter((entry) =>
+        mode === 'rest'
+          ? ['easy', 'recovery', 'rest'].includes(entry.workout.category)
+          : ['easy', 'recovery'].includes(entry.workout.category)
+      )
+      .filter((entry) => !hardOrders.has(entry.order - 1) && !hardOrders.has(entry.order + 1))
+      .sort((a, b) => a.order - b.order)[0] ?? null
+  );
+};
+
+export const adjustSessionForReadiness = (
+  table: PlanTable,
+  dayName: string,
+  mode: DailyAdjustmentMode,
+  unit: DistanceUnit
+): DailyAdjustmentResult | null => {
+  const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+  const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
+  const rationaleIndex = table.headers.findIndex((header) => header.toLowerCase().includes('rationale'));
+  const entries = dayEntries(table);
+  const today = entries.find((entry) => entry.day === normalizeDayName(dayName));
+  if (!today || workoutIndex === -1 || !isDowngradableSession(today.workout)) {
+    return null;
+  }
+
+  const target = findShiftTarget(entries, today, mode);
+  const todayRow = table.rows[today.rowIndex];
+  const setCells = (row: string[], cells: { workoutType: string; details: string; rationale: string }): string[] => {
+    const nextRow = [...row];
+    nextRow[workoutIndex] = cells.workoutType;
+    if (detailsIndex !== -1) {
+      nextRow[detailsIndex] = cells.details;
+    }
+    if (rationaleIndex !== -1) {
+      nextRow[rationaleIndex] = cells.rationale;
+    }
+    return nextRow;
+  };
+
+  const easyDistance = Math.round(workoutDistance(today.workout, unit) * 0.6 * 10) / 10 || (unit === 'miles' ? 3 : 5);
+  const easyWorkout = singleStepWorkout('easy', easyDistance, { type: 'hrZone', zone: 2 });
+  const replacement: { workout: StructuredWorkout; cells: { workoutType: string; details: string; rationale: string } } =
+    mode === 'rest'
+      ? {
+          workout: { category: 'rest', segments: [] },
+          cells: { workoutType: 'Rest Day', details: 'Recovery / optional mobility', rationale: 'Low readiness: rest today' },
+        }
+      : target
+        ? {
+            workout: target.workout,
+            cells: {
+              workoutType: table.rows[target.rowIndex][workoutIndex] ?? 'Easy Run',
+              details: detailsIndex === -1 ? '' : table.rows[target.rowIndex][detailsIndex] ?? '',
+              rationale: 'Low readiness: easy running today',
+            },
+          }
+        : {
+            workout: easyWorkout,
+            cells: {
+              workoutType: 'Easy Run',
+              details: describeWorkout(easyWorkout, unit),
+              rationale: 'Low readiness: easy running today',
+            },
+          };
+
+  const rows = table.rows.map((row, rowIndex) => {
+    if (rowIndex === today.rowIndex) {
+      return setCells(row, replacement.cells);
+    }
+    if (target && rowIndex === target.rowIndex) {
+      return setCells(row, {
+        workoutType: todayRow[workoutIndex] ?? 'Run',
+        details: detailsIndex === -1 ? '' : todayRow[detailsIndex] ?? '',
+        rationale: `Moved from ${today.day} after a low readiness score`,
+      });
+    }
+    return row;
+  });
+  const workouts = table.rows.map((_, rowIndex) =>
+    rowIndex === today.rowIndex
+      ? replacement.workout
+      : target && rowIndex === target.rowIndex
+        ? today.workout
+        : workoutForRow(table, rowIndex)
+  );
+  const paceCorrections = table.rows.map((_, rowIndex) =>
+    target && rowIndex === target.rowIndex
+      ? table.paceCorrections?.[today.rowIndex] ?? null
+      : rowIndex === today.rowIndex
+        ? null
+        : table.paceCorrections?.[rowIndex] ?? null
+  );
+
+  const sessionName = todayRow[workoutIndex] ?? 'Quality session';
+  const todayNote = mode === 'rest' ? `${today.day} is now a rest day` : `${today.day} is now an easy run`;
+  return {
+    table: { headers: table.headers, rows, workouts, paceCorrections },
+    movedTo: target?.day ?? null,
+    message: target
+      ? `Moved ${sessionName} to ${target.day}; ${todayNote}.`
+      : `${todayNote}; no later day this week could take ${sessionName} without stacking hard days.`,
+  };
+};
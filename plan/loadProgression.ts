@@ -0,0 +1,244 @@
+import { DAY_INDEX, PlanTable, workoutForRow } from './planTables';
+import {
+  describeWorkout,
+  DistanceUnit,
+  isQualityCategory,
+  isRunningCategory,
+  scaleWorkout,
+  singleStepWorkout,
+  StructuredWorkout,
+  workoutDistance,
+} from './workoutModel';
+
+export type LoadIssueCode = 'weekly-jump' | 'long-run-share' | 'back-to-back-hard';
+
+export type LoadIssue = {
+  code: LoadIssueCode;
+  message: string;
+  rowIndex?: number;
+};
+
+export type LoadContext = {
+  priorWeeklyDistances: number[];
+  runDayCap: number;
+  distanceUnit: DistanceUnit;
+};
+
+export const LOAD_PROGRESSION_LIMITS = {
+  maxWeeklyIncrease: 0.1,
+  minWeeklyIncreaseKm: 3,
+  lookbackWeeks: 3,
+  maxLongRunShare: 0.35,
+  maxLongRunShareFewRunDays: 0.55,
+};
+
+const KM_PER_MILE = 1.609344;
+// Fallback distance for rewritten runs; the long-run share cap never trims a long run below it.
+const MIN_RUN_DISTANCE: Record<DistanceUnit, number> = { km: 5, miles: 3 };
+const DISTANCE_TOLERANCE = 0.2;
+
+const roundTenth = (value: number): number => Math.round(value * 10) / 10;
+
+const isHardWorkout = (workout: StructuredWorkout): boolean =>
+  workout.category === 'long' || isQualityCategory(workout.category);
+
+const columnIndexes = (table: PlanTable) => ({
+  day: table.headers.findIndex((header) => header.toLowerCase() === 'day'),
+  workout: table.headers.findIndex((header) => header.toLowerCase().includes('workout')),
+  details: table.headers.findIndex((header) => header.toLowerCase().includes('details')),
+  rationale: table.headers.findIndex((header) => header.toLowerCase().includes('rationale')),
+});
+
+export const maxWeeklyDistance = (context: LoadContext): number | null => {
+  const recent = context.priorWeeklyDistances.slice(-LOAD_PROGRESSION_LIMITS.lookbackWeeks).filter((value) => value > 0);
+  if (!recent.length) {
+    return null;
+  }
+  const reference = Math.max(...recent);
+  const minStep =
+    context.distanceUnit === 'miles'
+      ? LOAD_PROGRESSION_LIMITS.minWeeklyIncreaseKm / KM_PER_MILE
+      : LOAD_PROGRESSION_LIMITS.minWeeklyIncreaseKm;
+  return Math.max(reference * (1 + LOAD_PROGRESSION_LIMITS.maxWeeklyIncrease), reference + minStep);
+};
+
+// Race rows are fixed by the race schedule, so they are left out of the volume the progression rules act on.
+export const trainingDistance = (table: PlanTable, unit: DistanceUnit): number =>
+  table.rows.reduce((total, _, rowIndex) => {
+    const workout = workoutForRow(table, rowIndex);
+    return workout.category === 'race' ? total : total + workoutDistance(workout, unit);
+  }, 0);
+
+const maxLongRunShare = (runDayCap: number): number =>
+  runDayCap <= 2 ? LOAD_PROGRESSION_LIMITS.maxLongRunShareFewRunDays : LOAD_PROGRESSION_LIMITS.maxLongRunShare;
+
+const longestRunRow = (table: PlanTable, unit: DistanceUnit): { rowIndex: number; distance: number } | null =>
+  table.rows.reduce<{ rowIndex: number; distance: number } | null>((longest, _, rowIndex) => {
+    const workout = workoutForRow(table, rowIndex);
+    if (workout.category !== 'long') {
+      return longest;
+    }
+    const distance = workoutDistance(workout, unit);
+    return !longest || distance > longest.distance ? { rowIndex, distance } : longest;
+  }, null);
+
+const rowsInDayOrder = (table: PlanTable): number[] => {
+  const { day } = columnIndexes(table);
+  return table.rows
+    .map((row, rowIndex) => ({ rowIndex, order: DAY_INDEX[(row[day] ?? '').trim().toLowerCase()] ?? 7 + rowIndex }))
+    .sort((a, b) => a.order - b.order)
+    .map(({ rowIndex }) => rowIndex);
+};
+
+export const checkWeekLoad = (table: PlanTable, context: LoadContext): LoadIssue[] => {
+  const issues: LoadIssue[] = [];
+  const unit = context.distanceUnit;
+  const total = trainingDistance(table, unit);
+  const allowedTotal = maxWeeklyDistance(context);
+
+  if (allowedTotal !== null && total > allowedTotal + DISTANCE_TOLERANCE) {
+    issues.push({
+      code: 'weekly-jump',
+      message: `Weekly distance ${roundTenth(total)} ${unit} exceeds the ${roundTenth(allowedTotal)} ${unit} progression cap.`,
+    });
+  }
+
+  const longest = longestRunRow(table, unit);
+  const shareLimit = maxLongRunShare(context.runDayCap);
+  if (longest && total > 0 && longest.distance > Math.max(total * shareLimit, MIN_RUN_DISTANCE[unit]) + DISTANCE_TOLERANCE) {
+    issues.push({
+      code: 'long-run-share',
+      rowIndex: longest.rowIndex,
+      message: `Long run ${roundTenth(longest.distance)} ${unit} is more than ${Math.round(shareLimit * 100)}% of weekly distance.`,
+    });
+  }
+
+  const { day } = columnIndexes(table);
+  const ordered = rowsInDayOrder(table);
+  ordered.forEach((rowIndex, position) => {
+    const previousIndex = ordered[position - 1];
+    if (previousIndex === undefined) {
+      return;
+    }
+    if (isHardWorkout(workoutForRow(table, previousIndex)) && isHardWorkout(workoutForRow(table, rowIndex))) {
+      issues.push({
+        code: 'back-to-back-hard',
+        rowIndex,
+        message: `${table.rows[previousIndex][day] ?? 'Previous day'} and ${table.rows[rowIndex][day] ?? 'next day'} are both hard sessions.`,
+      });
+    }
+  });
+
+  return issues;
+};
+
+const replaceRow = (
+  table: PlanTable,
+  rowIndex: number,
+  workout: StructuredWorkout,
+  unit: DistanceUnit,
+  changes: { workoutType?: string; rationale?: string }
+): PlanTable => {
+  const indexes = columnIndexes(table);
+  const rows = table.rows.map((row, idx) => {
+    if (idx !== rowIndex) {
+      return row;
+    }
+    const nextRow = [...row];
+    if (changes.workoutType && indexes.workout !== -1) {
+      nextRow[indexes.workout] = changes.workoutType;
+    }
+    if (indexes.details !== -1) {
+      nextRow[indexes.details] = describeWorkout(workout, unit);
+    }
+    if (changes.rationale && indexes.rationale !== -1) {
+      nextRow[indexes.rationale] = changes.rationale;
+    }
+    return nextRow;
+  });
+  const workouts = table.rows.map((_, idx) => (idx === rowIndex ? workout : workoutForRow(table, idx)));
+  return { headers: table.headers, rows, workouts };
+};
+
+const downgradeToEasy = (table: PlanTable, rowIndex: number, unit: DistanceUnit): PlanTable => {
+  const current = workoutForRow(table, rowIndex);
+  const distance = roundTenth(workoutDistance(current, unit)) || MIN_RUN_DISTANCE[unit];
+  return replaceRow(table, rowIndex, singleStepWorkout('easy', distance, { type: 'hrZone', zone: 2 }), unit, {
+    workoutType: 'Easy Run',
+    rationale: 'Easy day between hard sessions',
+  });
+};
+
+const scaleRunningRows = (table: PlanTable, factor: number, unit: DistanceUnit): PlanTable =>
+  table.rows.reduce((current, _, rowIndex) => {
+    const workout = workoutForRow(current, rowIndex);
+    if (!isRunningCategory(workout.category) || workout.category === 'race' || !workout.segments.length) {
+      return current;
+    }
+    return replaceRow(current, rowIndex, scaleWorkout(workout, factor), unit, {});
+  }, table);
+
+export const enforceLoadProgression = (
+  table: PlanTable,
+  context: LoadContext
+): { table: PlanTable; adjustments: string[] } => {
+  const unit = context.distanceUnit;
+  const adjustments: string[] = [];
+  let adjusted = table;
+
+  checkWeekLoad(adjusted, context)
+    .filter((issue) => issue.code === 'back-to-back-hard' && issue.rowIndex !== undefined)
+    .forEach((issue) => {
+      const ordered = rowsInDayOrder(adjusted);
+      const laterIndex = issue.rowIndex as number;
+      const earlierIndex = ordered[ordered.indexOf(laterIndex) - 1];
+      const candidates = [laterIndex, earlierIndex].filter((rowIndex) => rowIndex !== undefined);
+      const isDowngradable = (rowIndex: number) => {
+        const workout = workoutForRow(adjusted, rowIndex);
+        return isQualityCategory(workout.category) && workout.category !== 'race';
+      };
+      if (!candidates.every((rowIndex) => isHardWorkout(workoutForRow(adjusted, rowIndex)))) {
+        return;
+      }
+      const target = candidates.find(isDowngradable);
+      if (target === undefined) {
+        return;
+      }
+      adjusted = downgradeToEasy(adjusted, target, unit);
+      adjustments.push(issue.message);
+    });
+
+  const longRunIssue = checkWeekLoad(adjusted, context).find((issue) => issue.code === 'long-run-share');
+  if (longRunIssue && longRunIssue.rowIndex !== undefined) {
+    const longWorkout = workoutForRow(adjusted, longRunIssue.rowIndex);
+    const longDistance = workoutDistance(longWorkout, unit);
+    const otherDistance = trainingDistance(adjusted, unit) - longDistance;
+    const share = maxLongRunShare(context.runDayCap);
+    const targetDistance = Math.max((share * otherDistance) / (1 - share), MIN_RUN_DISTANCE[unit]);
+    if (longDistance > 0 && targetDistance > 0) {
+      adjusted = replaceRow(adjusted, longRunIssue.rowIndex, scaleWorkout(longWorkout, targetDistance / longDistance), unit, {});
+      adjustments.push(longRunIssue.message);
+    }
+  }
+
+  const allowedTotal = maxWeeklyDistance(context);
+  const total = trainingDistance(adjusted, unit);
+  if (allowedTotal !== null && total > allowedTotal + DISTANCE_TOLERANCE) {
+    adjusted = scaleRunningRows(adjusted, allowedTotal / total, unit);
+    adjustments.push(
+      `Weekly distance ${roundTenth(total)} ${unit} scaled to ${roundTenth(trainingDistance(adjusted, unit))} ${unit}.`
+    );
+  }
+
+  return { table: adjusted, adjustments };
+};
+
+export const withLoadCorrection = (prompt: string, weekNumber: number, issues: LoadIssue[]): string =>
+  [
+    prompt,
+    '',
+    `Critical Fix: Week ${weekNumber} breaks the load progression rules:`,
+    ...issues.map((issue) => `- ${issue.message}`),
+    'Critical Fix: Reduce distances or move sessions so no two hard days (quality or long run) are back-to-back.',
+    'Critical Fix: Return ONLY corrected JSON for that week using the same schema.',
+  ].join('\n');
@@ -0,0 +1,363 @@
+import { PlanTable, workoutForRow } from './planTables';
+import {
+  describeWorkoutSegments,
+  DistanceUnit,
+  formatPaceTarget,
+  isRunningCategory,
+  StructuredWorkout,
+  WorkoutCategory,
+  WorkoutStep,
+  WorkoutTarget,
+} from './workoutModel';
+import { clampVdot, timeForVdot, vdotFromPerformance, VdotPaceRange, VdotPaceTable, vdotPaceTable } from './vdot';
+
+export type PaceBand = {
+  lowSecondsPerUnit: number;
+  highSecondsPerUnit: number;
+};
+
+export type PaceBandKey = 'easy' | 'threshold' | 'interval' | 'race';
+
+export const PACING_MODES = ['target', 'fitness'] as const;
+export type PacingMode = (typeof PACING_MODES)[number];
+
+export type RecentRaceResult = {
+  distanceKm: number;
+  timeSeconds: number;
+};
+
+export type PaceGuardrailBands = Record<PaceBandKey, PaceBand> & {
+  unit: DistanceUnit;
+  source: PacingMode;
+  goalSecondsPerUnit: number;
+  continuousMaxFastSecondsPerUnit: number;
+  vdotTable?: VdotPaceTable;
+};
+
+export type PaceGuardrailInput = {
+  selectedGoal: string;
+  targetTime?: string;
+  targetTimeSeconds?: number;
+  recentRace?: RecentRaceResult;
+  pacingMode?: PacingMode;
+};
+
+export type PaceCorrection = {
+  rowIndex: number;
+  day: string;
+  message: string;
+};
+
+export const GOAL_DISTANCE_KM: Record<string, number> = {
+  '5K': 5,
+  '10K': 10,
+  'Half Marathon': 21.0975,
+  Marathon: 42.195,
+};
+
+const PACE_BAND_OFFSETS: Record<DistanceUnit, Record<PaceBandKey, [number, number]> & { continuousMaxFast: number }> = {
+  km: { easy: [45, 90], threshold: [8, 25], interval: [-10, 12], race: [-5, 5], continuousMaxFast: 8 },
+  miles: { easy: [75, 150], threshold: [13, 40], interval: [-16, 19], race: [-8, 8], continuousMaxFast: 13 },
+};
+
+const CATEGORY_PACE_BAND: Partial<Record<WorkoutCategory, PaceBandKey>> = {
+  easy: 'easy',
+  recovery: 'easy',
+  long: 'easy',
+  tempo: 'threshold',
+  progression: 'threshold',
+  intervals: 'interval',
+  fartlek: 'interval',
+  'race-pace': 'race',
+  race: 'race',
+};
+
+const PACE_TOLERANCE_SECONDS = 3;
+const CONTINUOUS_EFFORT_KM = 1.609344;
+
+export const parseDurationToSeconds = (value?: string): number | null => {
+  if (!value) {
+    return null;
+  }
+  const cleaned = value.trim();
+  if (!cleaned) {
+    return null;
+  }
+
+  if (/^\d+$/.test(cleaned)) {
+    const minutes = Number.parseInt(cleaned, 10);
+    return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 : null;
+  }
+
+  const parts = cleaned.split(':').map((part) => part.trim());
+  if (parts.length === 2) {
+    const first = Number.parseInt(parts[0], 10);
+    const second = Number.parseInt(parts[1], 10);
+    if (!Number.isFinite(first) || !Number.isFinite(second) || first < 0 || second < 0) {
+      return null;
+    }
+    if (second >= 60) {
+      return first * 60 + second;
+    }
+    return first * 3600 + second * 60;
+  }
+
+  if (parts.length === 3) {
+    const [hours, minutes, seconds] = parts.map((part) => Number.parseInt(part, 10));
+    if (![hours, minutes, seconds].every((valuePart) => Number.isFinite(valuePart) && valuePart >= 0)) {
+      return null;
+    }
+    return hours * 3600 + minutes * 60 + seconds;
+  }
+
+  return null;
+};
+
+export const formatPace = (secondsPerUnit: number): string => {
+  const rounded = Math.round(secondsPerUnit);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+export const formatPaceBand = (band: PaceBand, unit: DistanceUnit): string =>
+  formatPaceTarget({ type: 'pace', ...band }, unit);
+
+export const recentRaceVdot = (race: RecentRaceResult | undefined): number | null => {
+  const vdot = race ? vdotFromPerformance(race.distanceKm * 1000, race.timeSeconds) : null;
+  return vdot ? clampVdot(vdot) : null;
+};
+
+const toUnitSeconds = (secondsPerKm: number, unit: DistanceUnit): number =>
+  unit === 'miles' ? secondsPerKm * 1.609344 : secondsPerKm;
+
+export const vdotPaceBand = (range: VdotPaceRange, unit: DistanceUnit): PaceBand => ({
+  lowSecondsPerUnit: toUnitSeconds(range.fastSecondsPerKm, unit),
+  highSecondsPerUnit: toUnitSeconds(range.slowSecondsPerKm, unit),
+});
+
+const buildFitnessBands = (input: PaceGuardrailInput, unit: DistanceUnit): PaceGuardrailBands | null => {
+  const distanceKm = GOAL_DISTANCE_KM[input.selectedGoal];
+  const vdot = recentRaceVdot(input.recentRace);
+  if (!distanceKm || !vdot) {
+    return null;
+  }
+
+  const table = vdotPaceTable(vdot);
+  const goalSecondsPerUnit = toUnitSeconds(timeForVdot(vdot, distanceKm * 1000) / distanceKm, unit);
+  const offsets = PACE_BAND_OFFSETS[unit];
+  const interval = vdotPaceBand(table.interval, unit);
+  const repetition = vdotPaceBand(table.repetition, unit);
+  return {
+    unit,
+    source: 'fitness',
+    goalSecondsPerUnit,
+    continuousMaxFastSecondsPerUnit: goalSecondsPerUnit + offsets.continuousMaxFast,
+    easy: vdotPaceBand(table.easy, unit),
+    threshold: vdotPaceBand(table.threshold, unit),
+    interval: { lowSecondsPerUnit: repetition.lowSecondsPerUnit, highSecondsPerUnit: interval.highSecondsPerUnit },
+    race: {
+      lowSecondsPerUnit: goalSecondsPerUnit + offsets.race[0],
+      highSecondsPerUnit: goalSecondsPerUnit + offsets.race[1],
+    },
+    vdotTable: table,
+  };
+};
+
+const buildTargetBands = (input: PaceGuardrailInput, unit: DistanceUnit): PaceGuardrailBands | null => {
+  const distanceKm = GOAL_DISTANCE_KM[input.selectedGoal];
+  const totalSeconds = input.targetTimeSeconds ?? parseDurationToSeconds(input.targetTime);
+  if (!distanceKm || !totalSeconds || totalSeconds <= 0) {
+    return null;
+  }
+
+  const goalSecondsPerUnit = unit === 'miles' ? totalSeconds / (distanceKm * 0.621371) : totalSeconds / distanceKm;
+  const offsets = PACE_BAND_OFFSETS[unit];
+  const band = (key: PaceBandKey): PaceBand => ({
+    lowSecondsPerUnit: goalSecondsPerUnit + offsets[key][0],
+    highSecondsPerUnit: goalSecondsPerUnit + offsets[key][1],
+  });
+
+  return {
+    unit,
+    source: 'target',
+    goalSecondsPerUnit,
+    continuousMaxFastSecondsPerUnit: goalSecondsPerUnit + offsets.continuousMaxFast,
+    easy: band('easy'),
+    threshold: band('threshold'),
+    interval: band('interval'),
+    race: band('race'),
+  };
+};
+
+export const buildPaceGuardrailBands = (input: PaceGuardrailInput, unit: DistanceUnit): PaceGuardrailBands | null =>
+  (input.pacingMode === 'fitness' ? buildFitnessBands(input, unit) : null) ?? buildTargetBands(input, unit);
+
+export const paceBandForCategory = (bands: PaceGuardrailBands, category: WorkoutCategory): PaceBand | null => {
+  const key = CATEGORY_PACE_BAND[category];
+  return key ? bands[key] : null;
+};
+
+const isWithinBand = (low: number, high: number, band: PaceBand): boolean =>
+  low >= band.lowSecondsPerUnit - PACE_TOLERANCE_SECONDS && high <= band.highSecondsPerUnit + PACE_TOLERANCE_SECONDS;
+
+const clampToBand = (value: number, band: PaceBand): number =>
+  Math.min(Math.max(value, band.lowSecondsPerUnit), band.highSecondsPerUnit);
+
+const correctTarget = (
+  target: Extract<WorkoutTarget, { type: 'pace' }>,
+  band: PaceBand,
+  fastOnly: boolean
+): Extract<WorkoutTarget, { type: 'pace' }> | null => {
+  const tooFast = target.lowSecondsPerUnit < band.lowSecondsPerUnit - PACE_TOLERANCE_SECONDS;
+  if (fastOnly ? !tooFast : isWithinBand(target.lowSecondsPerUnit, target.highSecondsPerUnit, band)) {
+    return null;
+  }
+  if (fastOnly) {
+    const shift = band.lowSecondsPerUnit - target.lowSecondsPerUnit;
+    return {
+      type: 'pace',
+      lowSecondsPerUnit: band.lowSecondsPerUnit,
+      highSecondsPerUnit: Math.max(band.lowSecondsPerUnit, target.highSecondsPerUnit + shift),
+    };
+  }
+  if (target.highSecondsPerUnit < band.lowSecondsPerUnit || target.lowSecondsPerUnit > band.highSecondsPerUnit) {
+    return { type: 'pace', ...band };
+  }
+  return {
+    type: 'pace',
+    lowSecondsPerUnit: clampToBand(target.lowSecondsPerUnit, band),
+    highSecondsPerUnit: clampToBand(target.highSecondsPerUnit, band),
+  };
+};
+
+const isContinuousEffort = (step: WorkoutStep, unit: DistanceUnit): boolean => {
+  const distanceKm = unit === 'miles' ? (step.distance ?? 0) * CONTINUOUS_EFFORT_KM : step.distance ?? 0;
+  return distanceKm > CONTINUOUS_EFFORT_KM || (step.durationMinutes ?? 0) > 8;
+};
+
+const stepBand = (
+  bands: PaceGuardrailBands,
+  category: WorkoutCategory,
+  step: WorkoutStep,
+  isMainSet: boolean
+): { band: PaceBand; fastOnly: boolean } | null => {
+  if (!isMainSet || step.kind === 'recovery') {
+    return { band: bands.easy, fastOnly: true };
+  }
+  const band = paceBandForCategory(bands, category);
+  if (!band) {
+    return null;
+  }
+  if (category !== 'race' && isContinuousEffort(step, bands.unit) && band.lowSecondsPerUnit < bands.continuousMaxFastSecondsPerUnit) {
+    return {
+      band: {
+        lowSecondsPerUnit: bands.continuousMaxFastSecondsPerUnit,
+        highSecondsPerUnit: Math.max(band.highSecondsPerUnit, bands.continuousMaxFastSecondsPerUnit),
+      },
+      fastOnly: false,
+    };
+  }
+  return { band, fastOnly: false };
+};
+
+export const correctWorkoutPaces = (
+  workout: StructuredWorkout,
+  bands: PaceGuardrailBands
+): { workout: StructuredWorkout; messages: string[] } => {
+  const messages: string[] = [];
+  const segments = workout.segments.map((segment) => ({
+    ...segment,
+    steps: segment.steps.map((step) => {
+      if (step.target?.type !== 'pace') {
+        return step;
+      }
+      const rule = stepBand(bands, workout.category, step, segment.kind === 'main');
+      const corrected = rule ? correctTarget(step.target, rule.band, rule.fastOnly) : null;
+      if (!corrected) {
+        return step;
+      }
+      messages.push(`${formatPaceTarget(step.target, bands.unit)} → ${formatPaceTarget(corrected, bands.unit)}`);
+      return { ...step, target: corrected };
+    }),
+  }));
+  return { workout: { ...workout, segments }, messages };
+};
+
+const DETAILS_PACE_PATTERN = /(\d{1,2}:[0-5]\d)(?:\s*-\s*(\d{1,2}:[0-5]\d))?\s*\/\s*(km|mi)\b/g;
+
+const paceTextSeconds = (value: string): number => {
+  const [minutes, seconds] = value.split(':').map((part) => Number.parseInt(part, 10));
+  return minutes * 60 + seconds;
+};
+
+export const correctDetailsPaces = (
+  details: string,
+  category: WorkoutCategory,
+  bands: PaceGuardrailBands
+): { details: string; messages: string[] } => {
+  const band = paceBandForCategory(bands, category);
+  if (!band) {
+    return { details, messages: [] };
+  }
+  const unitLabel = bands.unit === 'miles' ? 'mi' : 'km';
+  const messages: string[] = [];
+  const corrected = details.replace(DETAILS_PACE_PATTERN, (match, first: string, second: string | undefined, unit: string) => {
+    if (unit !== unitLabel) {
+      return match;
+    }
+    const low = Math.min(paceTextSeconds(first), paceTextSeconds(second ?? first));
+    const high = Math.max(paceTextSeconds(first), paceTextSeconds(second ?? first));
+    if (isWithinBand(low, high, band) || isWithinBand(low, high, bands.easy)) {
+      return match;
+    }
+    const replacement = formatPaceBand(band, bands.unit);
+    messages.push(`${match} → ${replacement}`);
+    return replacement;
+  });
+  return { details: corrected, messages };
+};
+
+export const applyPaceGuardrails = (
+  table: PlanTable,
+  bands: PaceGuardrailBands
+): { table: PlanTable; corrections: PaceCorrection[] } => {
+  const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+  const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
+  const corrections: PaceCorrection[] = [];
+
+  const updated = table.rows.map((row, rowIndex) => {
+    const original = workoutForRow(table, rowIndex);
+    if (!isRunningCategory(original.category)) {
+      return { row, workout: original, correction: table.paceCorrections?.[rowIndex] ?? null };
+    }
+    const workoutResult = correctWorkoutPaces(original, bands);
+    const detailsResult =
+      detailsIndex === -1
+        ? { details: '', messages: [] }
+        : correctDetailsPaces(row[detailsIndex] ?? '', original.category, bands);
+    const messages = workoutResult.messages.length ? workoutResult.messages : detailsResult.messages;
+    if (!messages.length) {
+      return { row, workout: original, correction: table.paceCorrections?.[rowIndex] ?? null };
+    }
+
+    const nextRow = [...row];
+    if (detailsIndex !== -1) {
+      // Step targets use the continuous-effort band, so the text is rebuilt from them rather than patched separately.
+      nextRow[detailsIndex] = workoutResult.messages.length
+        ? describeWorkoutSegments(workoutResult.workout, bands.unit).join('; ')
+        : detailsResult.details;
+    }
+    const message = `Pace adjusted: ${messages.join('; ')}`;
+    corrections.push({ rowIndex, day: dayIndex === -1 ? `Row ${rowIndex + 1}` : row[dayIndex] ?? '', message });
+    return { row: nextRow, workout: workoutResult.workout, correction: message };
+  });
+
+  return {
+    table: {
+      ...table,
+      rows: updated.map((entry) => entry.row),
+      workouts: updated.map((entry) => entry.workout),
+      paceCorrections: updated.map((entry) => entry.correction),
+    },
+    corrections,
+  };
+};
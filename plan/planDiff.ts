@@ -0,0 +1,64 @@
+import {
+  findWeekTableIndex,
+  normalizeDayName,
+  PlanTable,
+  tableWeekNumber,
+  WEEKDAY_NAMES,
+  weeklyDistance,
+} from './planTables';
+import { DistanceUnit } from './workoutModel';
+
+export type PlanDayChange = {
+  day: string;
+  before: string;
+  after: string;
+};
+
+export type PlanWeekDiff = {
+  week: number;
+  distanceBefore: number;
+  distanceAfter: number;
+  changes: PlanDayChange[];
+};
+
+const roundTenth = (value: number): number => Math.round(value * 10) / 10;
+
+const describeDays = (table: PlanTable | undefined): Map<string, string> => {
+  const days = new Map<string, string>();
+  if (!table) {
+    return days;
+  }
+  const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+  const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+  const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
+  table.rows.forEach((row) => {
+    const day = normalizeDayName(row[dayIndex] ?? '');
+    if (!day || days.has(day)) {
+      return;
+    }
+    const workout = workoutIndex === -1 ? 'Run' : row[workoutIndex] ?? 'Rest Day';
+    const details = detailsIndex === -1 ? '' : row[detailsIndex] ?? '';
+    days.set(day, details ? `${workout} (${details})` : workout);
+  });
+  return days;
+};
+
+export const diffPlanWeeks = (before: PlanTable[], after: PlanTable[], unit: DistanceUnit): PlanWeekDiff[] =>
+  after
+    .map((table, tableIndex): PlanWeekDiff => {
+      const week = tableWeekNumber(table, tableIndex + 1);
+      const previousIndex = findWeekTableIndex(before, week);
+      const previous = previousIndex === -1 ? undefined : before[previousIndex];
+      const beforeDays = describeDays(previous);
+      const afterDays = describeDays(table);
+      const changes = WEEKDAY_NAMES.filter((day) => (beforeDays.get(day) ?? 'Rest Day') !== (afterDays.get(day) ?? 'Rest Day')).map(
+        (day) => ({ day, before: beforeDays.get(day) ?? 'Rest Day', after: afterDays.get(day) ?? 'Rest Day' })
+      );
+      return {
+        week,
+        distanceBefore: previous ? roundTenth(weeklyDistance(previous, unit)) : 0,
+        distanceAfter: roundTenth(weeklyDistance(table, unit)),
+        changes,
+      };
+    })
+    .filter((diff) => diff.changes.length > 0 || diff.distanceBefore !== diff.distanceAfter);
@@ -0,0 +1,245 @@
+import {
+  categoryForWorkoutType,
+  DistanceUnit,
+  isQualityCategory,
+  isRunningCategory,
+  StructuredWorkout,
+  workoutDistance,
+  workoutFromType,
+} from './workoutModel';
+
+export type PlanTable = {
+  headers: string[];
+  rows: string[][];
+  workouts?: StructuredWorkout[];
+  paceCorrections?: Array<string | null>;
+};
+export type StructuredPlanDay = {
+  day: string;
+  workoutType: string;
+  details: string;
+  rationale: string;
+  distance?: number | null;
+  pace?: string | null;
+  workout?: StructuredWorkout;
+};
+export type StructuredPlanWeek = {
+  week: number;
+  verdict: string;
+  reasoning: string;
+  days: StructuredPlanDay[];
+};
+
+export const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'] as const;
+export const DAY_INDEX: Record<string, number> = {
+  monday: 0,
+  mon: 0,
+  tuesday: 1,
+  tue: 1,
+  tues: 1,
+  wednesday: 2,
+  wed: 2,
+  thursday: 3,
+  thu: 3,
+  thurs: 3,
+  friday: 4,
+  fri: 4,
+  saturday: 5,
+  sat: 5,
+  sunday: 6,
+  sun: 6,
+};
+
+export const normalizeDayName = (value: string): string | null => {
+  const normalized = value.trim().toLowerCase();
+  const index = DAY_INDEX[normalized];
+  return index === undefined ? null : WEEKDAY_NAMES[index];
+};
+
+export const structuredWeekToTable = (weekPlan: StructuredPlanWeek): PlanTable => ({
+  headers: ['Week', 'Day', 'Workout Type', 'Details (Distance/Pace/Zone)', 'Rationale'],
+  rows: weekPlan.days.map((day) => [
+    `Week ${weekPlan.week}`,
+    day.day,
+    day.workoutType,
+    day.details,
+    day.rationale,
+  ]),
+  workouts: weekPlan.days.map((day) => day.workout ?? workoutFromType(day.workoutType)),
+});
+
+export const workoutForRow = (table: Pick<PlanTable, 'headers' | 'rows' | 'workouts'>, rowIndex: number): StructuredWorkout => {
+  const stored = table.workouts?.[rowIndex];
+  if (stored) {
+    return stored;
+  }
+  const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+  return workoutFromType(workoutIndex === -1 ? 'Run' : table.rows[rowIndex]?.[workoutIndex] ?? 'Rest Day');
+};
+
+export const weeklyDistance = (table: Pick<PlanTable, 'headers' | 'rows' | 'workouts'>, unit: DistanceUnit): number =>
+  table.rows.reduce((total, _, rowIndex) => total + workoutDistance(workoutForRow(table, rowIndex), unit), 0);
+
+export const extractWeekNumber = (title: string, fallback: number): number => {
+  const match = title.match(/week\s+(\d+)/i);
+  if (!match) {
+    return fallback;
+  }
+  const parsed = Number.parseInt(match[1], 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+export const tableWeekNumber = (table: PlanTable, fallback: number): number => {
+  const weekIndex = table.headers.findIndex((header) => header.toLowerCase() === 'week');
+  return extractWeekNumber(weekIndex === -1 ? '' : table.rows.find((row) => row[weekIndex])?.[weekIndex] ?? '', fallback);
+};
+
+export const findWeekTableIndex = (tables: PlanTable[], weekNumber: number): number =>
+  tables.findIndex((table, tableIndex) => tableWeekNumber(table, tableIndex + 1) === weekNumber);
+
+export const swapDays = (table: PlanTable, dayA: string, dayB: string): PlanTable | null => {
+  const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+  if (dayIndex === -1) {
+    return null;
+  }
+  const rowFor = (dayName: string) => table.rows.findIndex((row) => normalizeDayName(row[dayIndex] ?? '') === normalizeDayName(dayName));
+  const first = rowFor(dayA);
+  const second = rowFor(dayB);
+  if (first === -1 || second === -1 || first === second) {
+    return null;
+  }
+
+  const swapped = (rowIndex: number): number => (rowIndex === first ? second : rowIndex === second ? first : rowIndex);
+  return {
+    headers: table.headers,
+    rows: table.rows.map((row, rowIndex) => {
+      const source = table.rows[swapped(rowIndex)];
+      return row.map((cell, cellIndex) =>
+        cellIndex === dayIndex || table.headers[cellIndex].toLowerCase() === 'week' ? cell : source[cellIndex] ?? ''
+      );
+    }),
+    workouts: table.rows.map((_, rowIndex) => workoutForRow(table, swapped(rowIndex))),
+    paceCorrections: table.rows.map((_, rowIndex) => table.paceCorrections?.[swapped(rowIndex)] ?? null),
+  };
+};
+
+export const isRestLikeWorkout = (workoutType: string): boolean => categoryForWorkoutType(workoutType) === 'rest';
+
+export const parseRunDayCap = (value: string): number => {
+  const parsed = Number.parseInt(value.trim(), 10);
+  if (!Number.isFinite(parsed)) {
+    return 4;
+  }
+  return Math.min(Math.max(parsed, 1), 7);
+};
+
+export const clampWeekToRunDayCap = (tables: PlanTable[], runDayCap: number, longRunDay: string): PlanTable[] =>
+  tables.map((table) => {
+    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+    const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
+    const rationaleIndex = table.headers.findIndex((header) => header.toLowerCase().includes('rationale'));
+
+    if (dayIndex === -1 || workoutIndex === -1) {
+      return table;
+    }
+
+    const activeRows = table.rows
+      .map((row, idx) => ({ row, idx, workout: workoutForRow(table, idx) }))
+      .filter(({ workout }) => isRunningCategory(workout.category));
+
+    if (activeRows.length <= runDayCap) {
+      return table;
+    }
+
+    const longRunDayIndex = DAY_INDEX[longRunDay.toLowerCase()] ?? 6;
+
+    const scoredRows = activeRows.map(({ row, idx, workout }) => {
+      const day = (row[dayIndex] ?? '').toString().toLowerCase();
+      const dayOrder = DAY_INDEX[day] ?? 7;
+      const isLong = workout.category === 'long';
+      const isLongOnPreferredDay = isLong && dayOrder === longRunDayIndex;
+      const isQuality = isQualityCategory(workout.category);
+      const score = (isLongOnPreferredDay ? 100 : 0) + (isQuality ? 50 : 0) + (isLong ? 25 : 0) - dayOrder * 0.1 - idx * 0.01;
+
+      return { idx, score };
+    });
+
+    scoredRows.sort((a, b) => b.score - a.score);
+    const keepIndexes = new Set(scoredRows.slice(0, runDayCap).map((entry) => entry.idx));
+
+    const droppedIndexes = new Set(
+      activeRows.filter(({ idx }) => !keepIndexes.has(idx)).map(({ idx }) => idx)
+    );
+
+    const rows = table.rows.map((row, idx) => {
+      if (!droppedIndexes.has(idx)) {
+        return row;
+      }
+
+      const nextRow = [...row];
+      nextRow[workoutIndex] = 'Rest Day';
+      if (detailsIndex !== -1) {
+        nextRow[detailsIndex] = 'Recovery / optional mobility';
+      }
+      if (rationaleIndex !== -1) {
+        nextRow[rationaleIndex] = `Respect ${runDayCap} training days/week`;
+      }
+      return nextRow;
+    });
+    const workouts = table.rows.map((_, idx): StructuredWorkout =>
+      droppedIndexes.has(idx) ? { category: 'rest', segments: [] } : workoutForRow(table, idx)
+    );
+
+    return { headers: table.headers, rows, workouts };
+  });
+
+export const countPlannedRunDays = (tables: PlanTable[]): number => {
+  const runDays = new Set<string>();
+
+  tables.forEach((table) => {
+    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+    if (dayIndex === -1 || workoutIndex === -1) {
+      return;
+    }
+
+    table.rows.forEach((row, rowIndex) => {
+      const day = (row[dayIndex] ?? '').trim().toLowerCase();
+      if (!day || !isRunningCategory(workoutForRow(table, rowIndex).category)) {
+        return;
+      }
+      runDays.add(day);
+    });
+  });
+
+  return runDays.size;
+};
+
+export const summarizeWeekForHistory = (tables: PlanTable[], weekNumber: number, distanceUnit?: DistanceUnit): string => {
+  const summaryLines: string[] = [];
+  let totalDistance = 0;
+
+  tables.forEach((table) => {
+    const weekIndex = table.headers.findIndex((header) => header.toLowerCase() === 'week');
+    const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+    const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+    const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
+
+    table.rows.forEach((row, rowIndex) => {
+      if (weekIndex !== -1 && row[weekIndex] && !row[weekIndex].toLowerCase().includes(`week ${weekNumber}`.toLowerCase())) {
+        return;
+      }
+      if (distanceUnit) {
+        totalDistance += workoutDistance(workoutForRow(table, rowIndex), distanceUnit);
+      }
+      const day = dayIndex === -1 ? 'Day' : row[dayIndex] ?? 'Day';
+      const workout = workoutIndex === -1 ? 'Run' : row[workoutIndex] ?? 'Run';
+      const details = detailsIndex === -1 ? '' : row[detailsIndex] ?? '';
+      summaryLines.push(`- ${day}: ${workout}${details ? ` (${details})` : ''}`);
+    });
+  });
+
+  const totalLine = distanceUnit && totalDistance > 0 ? [`Total distance: ${totalDistance.toFixed(1)} ${distanceUnit}`] : [];
+  return [`Week ${weekNumber} Summary:`, ...summaryLines.slice(0, 7), ...totalLine].join('\n');
+};
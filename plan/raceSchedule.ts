@@ -0,0 +1,200 @@
+import { GOAL_DISTANCE_KM } from './paceGuardrails';
+import { DAY_INDEX, normalizeDayName, PlanTable, WEEKDAY_NAMES, workoutForRow } from './planTables';
+import { DistanceUnit, singleStepWorkout, StructuredWorkout } from './workoutModel';
+
+export const MIN_PLAN_WEEKS = 4;
+export const MAX_PLAN_WEEKS = 24;
+
+export const RACE_PRIORITIES = ['A', 'B', 'C'] as const;
+export type RacePriority = (typeof RACE_PRIORITIES)[number];
+export type TuneUpPriority = Exclude<RacePriority, 'A'>;
+
+export type SeasonRace = {
+  id: string;
+  goal: string;
+  date: string;
+  priority: TuneUpPriority;
+};
+
+export type TuneUpRaceWeek = {
+  week: number;
+  day: string;
+  goal: string;
+  priority: TuneUpPriority;
+};
+
+export type PlanWindow = {
+  planStartDate: Date;
+  planLengthWeeks: number;
+  raceDate: Date;
+  raceDay: string;
+};
+
+export type PlanWindowResult = { ok: true; window: PlanWindow } | { ok: false; error: string };
+
+export type TuneUpScheduleResult = { ok: true; races: TuneUpRaceWeek[] } | { ok: false; error: string };
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const KM_PER_MILE = 1.609344;
+
+export const parseDateInput = (value: string): Date | null => {
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const year = Number.parseInt(match[1], 10);
+  const month = Number.parseInt(match[2], 10) - 1;
+  const day = Number.parseInt(match[3], 10);
+  const date = new Date(year, month, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month || date.getDate() !== day) {
+    return null;
+  }
+  return date;
+};
+
+export const formatDateInput = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+export const weekdayName = (date: Date): string => WEEKDAY_NAMES[(date.getDay() + 6) % 7];
+
+export const mondayOnOrBefore = (date: Date): Date => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return monday;
+};
+
+const weeksBetweenMondays = (start: Date, end: Date): number => Math.round((end.getTime() - start.getTime()) / (DAY_MS * 7));
+
+export const derivePlanWindow = (
+  raceDateInput: string,
+  startDateInput: string,
+  defaultStart: Date
+): PlanWindowResult => {
+  const raceDate = parseDateInput(raceDateInput);
+  if (!raceDate) {
+    return { ok: false, error: 'Enter the race date as YYYY-MM-DD.' };
+  }
+  const explicitStart = startDateInput.trim() ? parseDateInput(startDateInput) : null;
+  if (startDateInput.trim() && !explicitStart) {
+    return { ok: false, error: 'Enter the start date as YYYY-MM-DD, or leave it blank.' };
+  }
+
+  const raceWeekMonday = mondayOnOrBefore(raceDate);
+  let planStart = mondayOnOrBefore(explicitStart ?? defaultStart);
+  let planLengthWeeks = weeksBetweenMondays(planStart, raceWeekMonday) + 1;
+
+  if (!explicitStart && planLengthWeeks > MAX_PLAN_WEEKS) {
+    planStart = new Date(raceWeekMonday);
+    planStart.setDate(planStart.getDate() - (MAX_PLAN_WEEKS - 1) * 7);
+    planLengthWeeks = MAX_PLAN_WEEKS;
+  }
+  if (planLengthWeeks < MIN_PLAN_WEEKS) {
+    return {
+      ok: false,
+      error: `Race is only ${Math.max(planLengthWeeks, 0)} week${planLengthWeeks === 1 ? '' : 's'} out; plans need at least ${MIN_PLAN_WEEKS} weeks.`,
+    };
+  }
+  if (planLengthWeeks > MAX_PLAN_WEEKS) {
+    return { ok: false, error: `Start date is ${planLengthWeeks} weeks before the race; plans support up to ${MAX_PLAN_WEEKS} weeks.` };
+  }
+
+  return {
+    ok: true,
+    window: { planStartDate: planStart, planLengthWeeks, raceDate, raceDay: weekdayName(raceDate) },
+  };
+};
+
+export const scheduleTuneUpRaces = (
+  races: SeasonRace[],
+  planStartDate: Date,
+  planLengthWeeks: number
+): TuneUpScheduleResult => {
+  const start = mondayOnOrBefore(planStartDate);
+  const scheduled: TuneUpRaceWeek[] = [];
+  for (const race of races) {
+    const date = parseDateInput(race.date);
+    if (!date) {
+      return { ok: false, error: `Enter the ${race.goal} tune-up date as YYYY-MM-DD.` };
+    }
+    const week = weeksBetweenMondays(start, mondayOnOrBefore(date)) + 1;
+    if (week < 1 || week >= planLengthWeeks) {
+      return { ok: false, error: `The ${race.goal} tune-up on ${race.date} must fall before the goal race week.` };
+    }
+    if (scheduled.some((entry) => entry.week === week)) {
+      return { ok: false, error: `Only one tune-up race is supported per week (week ${week}).` };
+    }
+    scheduled.push({ week, day: weekdayName(date), goal: race.goal, priority: race.priority });
+  }
+  return { ok: true, races: scheduled.sort((a, b) => a.week - b.week) };
+};
+
+export const raceDistanceFor = (goal: string, unit: DistanceUnit): number => {
+  const distanceKm = GOAL_DISTANCE_KM[goal] ?? 5;
+  return Math.round((unit === 'miles' ? distanceKm / KM_PER_MILE : distanceKm) * 10) / 10;
+};
+
+export const placeRaceDay = (
+  table: PlanTable,
+  raceDay: string,
+  goal: string,
+  unit: DistanceUnit,
+  priority: RacePriority = 'A'
+): PlanTable => {
+  const dayIndex = table.headers.findIndex((header) => header.toLowerCase() === 'day');
+  const workoutIndex = table.headers.findIndex((header) => header.toLowerCase().includes('workout'));
+  const detailsIndex = table.headers.findIndex((header) => header.toLowerCase().includes('details'));
+  const rationaleIndex = table.headers.findIndex((header) => header.toLowerCase().includes('rationale'));
+  const raceDayOrder = DAY_INDEX[raceDay.toLowerCase()];
+  if (dayIndex === -1 || workoutIndex === -1 || raceDayOrder === undefined) {
+    return table;
+  }
+
+  const raceDistance = raceDistanceFor(goal, unit);
+  const setCells = (row: string[], workoutType: string, details: string, rationale: string): string[] => {
+    const nextRow = [...row];
+    nextRow[workoutIndex] = workoutType;
+    if (detailsIndex !== -1) {
+      nextRow[detailsIndex] = details;
+    }
+    if (rationaleIndex !== -1) {
+      nextRow[rationaleIndex] = rationale;
+    }
+    return nextRow;
+  };
+
+  const updated = table.rows.map((row, rowIndex): { row: string[]; workout: StructuredWorkout } => {
+    const current = workoutForRow(table, rowIndex);
+    const dayName = normalizeDayName(row[dayIndex] ?? '');
+    const order = dayName ? DAY_INDEX[dayName.toLowerCase()] : undefined;
+    if (order === raceDayOrder) {
+      return {
+        row: setCells(
+          row,
+          'Race Day',
+          `${goal} race • ${raceDistance} ${unit}`,
+          priority === 'A' ? 'Goal race' : `${priority}-priority tune-up race`
+        ),
+        workout: singleStepWorkout('race', raceDistance),
+      };
+    }
+    if (priority === 'A' && order !== undefined && order > raceDayOrder) {
+      return {
+        row: setCells(row, 'Rest Day', 'Post-race recovery', 'Recover after race day'),
+        workout: { category: 'rest', segments: [] },
+      };
+    }
+    if (current.category === 'race') {
+      return {
+        row: setCells(row, 'Easy Run', 'Short easy shakeout', 'Stay fresh for race day'),
+        workout: singleStepWorkout('easy', unit === 'miles' ? 2 : 3, { type: 'hrZone', zone: 1 }),
+      };
+    }
+    return { row, workout: current };
+  });
+
+  return {
+    ...table,
+    rows: updated.map((entry) => entry.row),
+    workouts: updated.map((entry) => entry.workout),
+  };
+};
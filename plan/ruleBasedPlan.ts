@@ -0,0 +1,294 @@
+import { buildPaceGuardrailBands, formatPaceBand } from './paceGuardrails';
+import { DAY_INDEX, parseRunDayCap, StructuredPlanDay, StructuredPlanWeek, WEEKDAY_NAMES } from './planTables';
+import { raceDistanceFor } from './raceSchedule';
+import { buildPhaseSchedule, PhaseWeek } from './trainingPhases';
+import type { PlanInput } from './weeklyPlanPipeline';
+import {
+  describeWorkout,
+  paceTargetFromString,
+  singleStepWorkout,
+  StructuredWorkout,
+  WorkoutCategory,
+  workoutDistance,
+  WorkoutSegment,
+  WorkoutTarget,
+} from './workoutModel';
+
+const KM_PER_MILE = 1.609344;
+
+const LEVEL_BASE_WEEKLY_KM: Record<PlanInput['runningLevel'], number> = {
+  Beginner: 20,
+  Intermediate: 35,
+  Advanced: 50,
+  Elite: 70,
+};
+
+const GOAL_VOLUME_MULTIPLIER: Record<string, number> = {
+  '5K': 0.8,
+  '10K': 0.9,
+  'Half Marathon': 1.0,
+  Marathon: 1.2,
+};
+
+const LONG_RUN_CAP_KM: Record<string, number> = {
+  '5K': 14,
+  '10K': 18,
+  'Half Marathon': 22,
+  Marathon: 32,
+};
+
+// Run days are picked in this order relative to the long run day so sessions spread across the week.
+const RUN_DAY_OFFSETS = [0, -5, -3, -6, -2, -4, -1];
+
+type PaceBands = {
+  easy: string;
+  threshold: string;
+  interval: string;
+  goal: string;
+};
+
+type SessionKind = 'long' | 'intervals' | 'tempo' | 'easy' | 'race';
+
+const SESSION_PACE_BAND: Record<SessionKind, keyof PaceBands> = {
+  long: 'easy',
+  easy: 'easy',
+  tempo: 'threshold',
+  intervals: 'interval',
+  race: 'goal',
+};
+
+const trendPercent = (trend: string, direction: 'up' | 'down'): number => {
+  const match = trend.match(/\((up|down) ([\d.]+)%/);
+  if (!match || match[1] !== direction) {
+    return 0;
+  }
+  const value = Number.parseFloat(match[2]);
+  return Number.isFinite(value) ? value : 0;
+};
+
+const recoveryVolumeFactor = (input: PlanInput): number => {
+  const restingHrRise = trendPercent(input.restingHrTrend, 'up');
+  const hrvDrop = trendPercent(input.hrvTrend, 'down');
+  const sleepDrop = trendPercent(input.sleepTrend, 'down');
+  const flags = [restingHrRise >= 5, hrvDrop >= 10, sleepDrop >= 10].filter(Boolean).length;
+  return Math.max(0.8, 1 - flags * 0.07);
+};
+
+const buildPaceBands = (input: PlanInput): PaceBands | null => {
+  const bands = buildPaceGuardrailBands(input, input.distanceUnit);
+  if (!bands) {
+    return null;
+  }
+
+  const goal = { lowSecondsPerUnit: bands.goalSecondsPerUnit, highSecondsPerUnit: bands.goalSecondsPerUnit };
+  return {
+    easy: formatPaceBand(bands.easy, input.distanceUnit),
+    threshold: formatPaceBand(bands.threshold, input.distanceUnit),
+    interval: formatPaceBand(bands.interval, input.distanceUnit),
+    goal: formatPaceBand(goal, input.distanceUnit),
+  };
+};
+
+const weeklyVolumeKm = (input: PlanInput, schedule: PhaseWeek[], phaseWeek: PhaseWeek): number => {
+  const startKm =
+    LEVEL_BASE_WEEKLY_KM[input.runningLevel] *
+    (GOAL_VOLUME_MULTIPLIER[input.selectedGoal] ?? 1) *
+    (0.6 + parseRunDayCap(input.runDaysPerWeek) * 0.1) *
+    recoveryVolumeFactor(input);
+
+  let volume = startKm;
+  let lastLoadingVolume = startKm;
+  for (const current of schedule) {
+    if (current.week === 1) {
+      volume = startKm;
+    } else if (current.phase === 'Taper') {
+      volume = lastLoadingVolume * (current.isRaceWeek ? 0.5 : 0.7);
+    } else if (current.isRecoveryWeek || current.isMiniTaper) {
+      volume = lastLoadingVolume * 0.8;
+    } else if (current.phase === 'Peak') {
+      volume = lastLoadingVolume;
+    } else {
+      volume = lastLoadingVolume * (current.phase === 'Base' ? 1.08 : 1.06);
+    }
+
+    if (!current.isRecoveryWeek && !current.isMiniTaper && current.phase !== 'Taper') {
+      lastLoadingVolume = volume;
+    }
+    if (current.week === phaseWeek.week) {
+      break;
+    }
+  }
+
+  return volume;
+};
+
+const qualitySessionCount = (input: PlanInput, phaseWeek: PhaseWeek, runDays: number): number => {
+  if (phaseWeek.isRecoveryWeek || phaseWeek.isMiniTaper || phaseWeek.tuneUpRace || runDays < 3) {
+    return 0;
+  }
+  if (phaseWeek.phase === 'Base') {
+    return input.runningLevel === 'Beginner' ? 0 : 1;
+  }
+  if (phaseWeek.phase === 'Taper') {
+    return 1;
+  }
+  return runDays >= 4 && input.runningLevel !== 'Beginner' ? 2 : 1;
+};
+
+// In race week nothing is scheduled after the race, so offsets that would wrap past it are skipped.
+const pickRunDays = (runDays: number, anchorIndex: number, beforeAnchorOnly: boolean): number[] =>
+  RUN_DAY_OFFSETS.filter((offset) => !beforeAnchorOnly || anchorIndex + offset >= 0)
+    .slice(0, runDays)
+    .map((offset) => (anchorIndex + offset + 7) % 7);
+
+const roundDistance = (value: number): number => Math.max(1, Math.round(value * 2) / 2);
+
+const SESSION_DETAILS: Record<SessionKind, Pick<StructuredPlanDay, 'workoutType' | 'rationale'>> = {
+  race: { workoutType: 'Race Day', rationale: 'Goal race' },
+  long: { workoutType: 'Long Run', rationale: 'Aerobic endurance' },
+  intervals: { workoutType: 'Intervals', rationale: 'VO2max and speed' },
+  tempo: { workoutType: 'Tempo Run', rationale: 'Lactate threshold' },
+  easy: { workoutType: 'Easy Run', rationale: 'Aerobic base' },
+};
+
+const SESSION_CATEGORY: Record<SessionKind, WorkoutCategory> = {
+  race: 'race',
+  long: 'long',
+  intervals: 'intervals',
+  tempo: 'tempo',
+  easy: 'easy',
+};
+
+const SESSION_FALLBACK_ZONE: Record<SessionKind, number> = {
+  race: 5,
+  long: 2,
+  intervals: 5,
+  tempo: 4,
+  easy: 2,
+};
+
+const buildSessionWorkout = (
+  kind: SessionKind,
+  distance: number,
+  unit: PlanInput['distanceUnit'],
+  paces: PaceBands | null
+): StructuredWorkout => {
+  const category = SESSION_CATEGORY[kind];
+  const target: WorkoutTarget = paceTargetFromString(paces?.[SESSION_PACE_BAND[kind]]) ?? {
+    type: 'hrZone',
+    zone: SESSION_FALLBACK_ZONE[kind],
+  };
+  if (kind !== 'tempo' && kind !== 'intervals') {
+    return singleStepWorkout(category, distance, target);
+  }
+
+  const warmupDistance = unit === 'miles' ? 1.5 : 2;
+  const cooldownDistance = unit === 'miles' ? 1 : 1.5;
+  const easyTarget: WorkoutTarget = { type: 'hrZone', zone: 2 };
+  const mainDistance = Math.max(unit === 'miles' ? 1.5 : 2, distance - warmupDistance - cooldownDistance);
+  const repDistance = unit === 'miles' ? 0.25 : 0.4;
+  const mainSegment: WorkoutSegment =
+    kind === 'tempo'
+      ? { kind: 'main', repeats: 1, steps: [{ kind: 'work', distance: roundDistance(mainDistance), target }] }
+      : {
+          kind: 'main',
+          repeats: Math.max(3, Math.min(12, Math.round(mainDistance / (repDistance * 1.5)))),
+          steps: [
+            { kind: 'work', distance: repDistance, target },
+            { kind: 'recovery', durationMinutes: 1.5 },
+          ],
+        };
+
+  return {
+    category,
+    segments: [
+      { kind: 'warmup', repeats: 1, steps: [{ kind: 'work', distance: warmupDistance, target: easyTarget }] },
+      mainSegment,
+      { kind: 'cooldown', repeats: 1, steps: [{ kind: 'work', distance: cooldownDistance, target: easyTarget }] },
+    ],
+  };
+};
+
+export const buildRuleBasedWeek = (input: PlanInput, weekNumber: number): StructuredPlanWeek => {
+  const schedule = buildPhaseSchedule(input.planLengthWeeks, input.selectedGoal, input.tuneUpRaces);
+  const phaseWeek = schedule[Math.min(Math.max(weekNumber, 1), schedule.length) - 1];
+  const runDays = parseRunDayCap(input.runDaysPerWeek);
+  const anchorDay = phaseWeek.isRaceWeek && input.raceDay ? input.raceDay : input.longRunDay;
+  const longRunIndex = DAY_INDEX[anchorDay.toLowerCase()] ?? 6;
+  const paces = buildPaceBands(input);
+  const unitFactor = input.distanceUnit === 'miles' ? 1 / KM_PER_MILE : 1;
+
+  const volumeKm = weeklyVolumeKm(input, schedule, phaseWeek);
+  const longRunKm = Math.min(LONG_RUN_CAP_KM[input.selectedGoal] ?? 20, volumeKm * (runDays <= 2 ? 0.5 : 0.3));
+  const selectedDays = pickRunDays(runDays, longRunIndex, phaseWeek.isRaceWeek && !!input.raceDay);
+  const tuneUpIndex = phaseWeek.tuneUpRace ? DAY_INDEX[phaseWeek.tuneUpRace.day.toLowerCase()] : undefined;
+  if (tuneUpIndex !== undefined && !selectedDays.includes(tuneUpIndex) && selectedDays.length > 1) {
+    selectedDays[selectedDays.length - 1] = tuneUpIndex;
+  }
+  const qualityCount = qualitySessionCount(input, phaseWeek, runDays);
+
+  const kindsByDay = new Map<number, SessionKind>();
+  selectedDays.forEach((dayIndex, order) => {
+    if (dayIndex === tuneUpIndex) {
+      kindsByDay.set(dayIndex, 'race');
+    } else if (order === 0) {
+      kindsByDay.set(dayIndex, phaseWeek.isRaceWeek ? 'race' : phaseWeek.tuneUpRace ? 'easy' : 'long');
+    } else if (order <= qualityCount) {
+      kindsByDay.set(dayIndex, order === 1 && phaseWeek.phase !== 'Base' ? 'intervals' : 'tempo');
+    } else {
+      kindsByDay.set(dayIndex, 'easy');
+    }
+  });
+
+  const kinds = [...kindsByDay.values()];
+  const tuneUpKm = phaseWeek.tuneUpRace ? raceDistanceFor(phaseWeek.tuneUpRace.goal, 'km') : 0;
+  const reservedKm = (kinds.includes('long') || phaseWeek.isRaceWeek ? longRunKm : 0) + tuneUpKm;
+  const otherDays = kinds.filter((kind) => kind !== 'long' && kind !== 'race').length;
+  const otherDistanceKm = otherDays > 0 ? Math.min(longRunKm * 0.8, Math.max(3, (volumeKm - reservedKm) / otherDays)) : 0;
+  const postRaceIndex = tuneUpIndex === undefined || tuneUpIndex === 6 ? undefined : tuneUpIndex + 1;
+
+  const days: StructuredPlanDay[] = WEEKDAY_NAMES.map((day, dayIndex) => {
+    const kind = kindsByDay.get(dayIndex);
+    if (!kind) {
+      return {
+        day,
+        workoutType: 'Rest Day',
+        details: 'Recovery / mobility',
+        rationale: 'Absorb training load',
+        distance: null,
+        pace: null,
+        workout: { category: 'rest', segments: [] },
+      };
+    }
+    const plannedDistance =
+      kind === 'race'
+        ? raceDistanceFor(phaseWeek.tuneUpRace && dayIndex === tuneUpIndex ? phaseWeek.tuneUpRace.goal : input.selectedGoal, input.distanceUnit)
+        : kind === 'easy' && dayIndex === postRaceIndex
+          ? roundDistance(Math.min(otherDistanceKm, 6) * unitFactor)
+          : roundDistance((kind === 'long' ? longRunKm : otherDistanceKm) * unitFactor);
+    const workout = buildSessionWorkout(kind, plannedDistance, input.distanceUnit, paces);
+    return {
+      day,
+      ...SESSION_DETAILS[kind],
+      details: describeWorkout(workout, input.distanceUnit),
+      distance: Math.round(workoutDistance(workout, input.distanceUnit) * 10) / 10,
+      pace: paces ? paces[SESSION_PACE_BAND[kind]] : null,
+      workout,
+    };
+  });
+
+  const verdict = phaseWeek.isRecoveryWeek || phaseWeek.isMiniTaper || phaseWeek.phase === 'Taper' ? 'Deload' : phaseWeek.phase === 'Peak' ? 'Maintenance' : 'Push';
+  const totalDistance = Math.round(days.reduce((sum, day) => sum + (day.distance ?? 0), 0) * 10) / 10;
+
+  return {
+    week: phaseWeek.week,
+    verdict,
+    reasoning: `${phaseWeek.phase} phase${phaseWeek.isRecoveryWeek ? ' recovery week' : ''}${
+      phaseWeek.tuneUpRace ? ` with a ${phaseWeek.tuneUpRace.priority}-priority ${phaseWeek.tuneUpRace.goal} tune-up` : ''
+    }: about ${totalDistance} ${input.distanceUnit} planned by the rule-based engine.`,
+    days,
+  };
+};
+
+export const buildRuleBasedPlan = (input: PlanInput): StructuredPlanWeek[] =>
+  Array.from({ length: input.planLengthWeeks }, (_, idx) => buildRuleBasedWeek(input, idx + 1));
@@ -0,0 +1,113 @@
+import type { TuneUpRaceWeek } from './raceSchedule';
+
+export const TRAINING_PHASES = ['Base', 'Build', 'Peak', 'Taper'] as const;
+export type TrainingPhase = (typeof TRAINING_PHASES)[number];
+
+export type PhaseWeek = {
+  week: number;
+  phase: TrainingPhase;
+  isRecoveryWeek: boolean;
+  isRaceWeek: boolean;
+  isMiniTaper: boolean;
+  tuneUpRace?: TuneUpRaceWeek;
+};
+
+const taperWeeksFor = (planLengthWeeks: number, goal: string): number => {
+  if (goal === 'Marathon') {
+    return planLengthWeeks >= 14 ? 3 : planLengthWeeks >= 8 ? 2 : 1;
+  }
+  if (goal === 'Half Marathon') {
+    return planLengthWeeks >= 12 ? 2 : 1;
+  }
+  return 1;
+};
+
+export const buildPhaseSchedule = (
+  planLengthWeeks: number,
+  goal: string,
+  tuneUpRaces: TuneUpRaceWeek[] = []
+): PhaseWeek[] => {
+  const totalWeeks = Math.max(1, Math.round(planLengthWeeks));
+  const taperWeeks = Math.min(totalWeeks, taperWeeksFor(totalWeeks, goal));
+  const peakWeeks = Math.min(totalWeeks - taperWeeks, Math.max(1, Math.round(totalWeeks * 0.15)));
+  const remaining = totalWeeks - taperWeeks - peakWeeks;
+  const buildWeeks = Math.round(remaining * 0.45);
+  const baseWeeks = remaining - buildWeeks;
+
+  const schedule = Array.from({ length: totalWeeks }, (_, idx): PhaseWeek => {
+    const week = idx + 1;
+    const phase: TrainingPhase =
+      week <= baseWeeks
+        ? 'Base'
+        : week <= baseWeeks + buildWeeks
+          ? 'Build'
+          : week <= baseWeeks + buildWeeks + peakWeeks
+            ? 'Peak'
+            : 'Taper';
+    const isRecoveryWeek = (phase === 'Base' || phase === 'Build') && week % 4 === 0;
+    return { week, phase, isRecoveryWeek, isRaceWeek: week === totalWeeks, isMiniTaper: false };
+  });
+
+  tuneUpRaces.forEach((race) => {
+    const raceWeek = schedule[race.week - 1];
+    if (!raceWeek || raceWeek.isRaceWeek) {
+      return;
+    }
+    raceWeek.tuneUpRace = race;
+    if (race.priority !== 'B' || raceWeek.phase === 'Taper') {
+      return;
+    }
+    raceWeek.isMiniTaper = true;
+    raceWeek.isRecoveryWeek = false;
+    const following = schedule[race.week];
+    if (following && following.phase !== 'Taper') {
+      following.isRecoveryWeek = true;
+    }
+  });
+
+  return schedule;
+};
+
+export const PHASE_INTENTS: Record<TrainingPhase, string> = {
+  Base: 'Build aerobic volume with mostly easy running; at most one light quality session (strides or short tempo).',
+  Build: 'Add race-specific quality (threshold and intervals) while volume keeps progressing conservatively.',
+  Peak: 'Hold volume near its high point and sharpen with goal-pace work; no new volume increases.',
+  Taper: 'Cut volume 30-50% while keeping short touches of intensity so race day starts fresh.',
+};
+
+export const phaseLabel = (phaseWeek: PhaseWeek): string => {
+  if (phaseWeek.isRaceWeek) {
+    return 'Race Week';
+  }
+  if (phaseWeek.tuneUpRace) {
+    return `${phaseWeek.phase} (${phaseWeek.tuneUpRace.priority} race)`;
+  }
+  return phaseWeek.isRecoveryWeek ? `${phaseWeek.phase} (recovery)` : phaseWeek.phase;
+};
+
+export const phaseRules = (phaseWeek: PhaseWeek, raceDay: string): string[] => {
+  const rules = [`Phase Intent: ${PHASE_INTENTS[phaseWeek.phase]}`];
+  if (phaseWeek.isRecoveryWeek) {
+    rules.push('Recovery Week: reduce volume about 20% vs the prior week, verdict Deload, no hard intervals.');
+  }
+  if (phaseWeek.tuneUpRace) {
+    const { goal, day, priority } = phaseWeek.tuneUpRace;
+    rules.push(`Tune-up Race: ${priority}-priority ${goal} on ${day}; put workoutType "Race Day" on ${day}.`);
+    rules.push(
+      priority === 'B'
+        ? 'Mini-Taper Rule: cut volume about 20%, no quality session in the 2 days before the race, easy day after it.'
+        : 'C Race Rule: treat the race as this week\'s quality session; no taper and no extra speed work.'
+    );
+  }
+  if (phaseWeek.phase === 'Taper' && !phaseWeek.isRaceWeek) {
+    rules.push('Taper Rule: verdict Deload; keep one short quality session at goal pace; long run no more than 60-70% of peak.');
+  }
+  if (phaseWeek.isRaceWeek) {
+    rules.push(
+      'Race Week Rule: verdict Deload; about 50% of peak volume; one short goal-pace sharpener early in the week.',
+      'Race Week Rule: the 2 days before the race are Rest Day or a short easy shakeout.',
+      `Race Week Rule: put workoutType "Race Day" on ${raceDay} with the goal race distance; days after it are Rest Day.`
+    );
+  }
+  return rules;
+};
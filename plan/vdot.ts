@@ -0,0 +1,83 @@
+export const VDOT_LIMITS = {
+  min: 20,
+  max: 85,
+};
+
+// Daniels & Gilbert: oxygen cost of running at a velocity, and the share of VO2 max sustainable for a duration.
+const oxygenCost = (metersPerMinute: number): number => -4.6 + 0.182258 * metersPerMinute + 0.000104 * metersPerMinute ** 2;
+
+const sustainableFraction = (minutes: number): number =>
+  0.8 + 0.1894393 * Math.exp(-0.012778 * minutes) + 0.2989558 * Math.exp(-0.1932605 * minutes);
+
+export const vdotFromPerformance = (distanceMeters: number, timeSeconds: number): number | null => {
+  if (distanceMeters <= 0 || timeSeconds <= 0) {
+    return null;
+  }
+  const minutes = timeSeconds / 60;
+  const vdot = oxygenCost(distanceMeters / minutes) / sustainableFraction(minutes);
+  return Number.isFinite(vdot) ? vdot : null;
+};
+
+export const timeForVdot = (vdot: number, distanceMeters: number): number => {
+  let fastest = 60;
+  let slowest = 60 * 60 * 10;
+  for (let iteration = 0; iteration < 60; iteration += 1) {
+    const middle = (fastest + slowest) / 2;
+    const implied = vdotFromPerformance(distanceMeters, middle) ?? 0;
+    if (implied > vdot) {
+      fastest = middle;
+    } else {
+      slowest = middle;
+    }
+  }
+  return (fastest + slowest) / 2;
+};
+
+export const clampVdot = (vdot: number): number => Math.min(Math.max(vdot, VDOT_LIMITS.min), VDOT_LIMITS.max);
+
+export const VDOT_PACE_KEYS = ['easy', 'marathon', 'threshold', 'interval', 'repetition'] as const;
+export type VdotPaceKey = (typeof VDOT_PACE_KEYS)[number];
+
+export type VdotPaceRange = {
+  fastSecondsPerKm: number;
+  slowSecondsPerKm: number;
+};
+
+export type VdotPaceTable = Record<VdotPaceKey, VdotPaceRange> & {
+  vdot: number;
+};
+
+// Share of VDOT each training intensity runs at (Daniels' Running Formula).
+const INTENSITY_FRACTIONS: Record<'easy' | 'threshold' | 'interval', [number, number]> = {
+  easy: [0.74, 0.59],
+  threshold: [0.88, 0.83],
+  interval: [1, 0.95],
+};
+
+const secondsPerKmAtFraction = (vdot: number, fraction: number): number => {
+  const oxygen = vdot * fraction;
+  const metersPerMinute = (-0.182258 + Math.sqrt(0.182258 ** 2 + 4 * 0.000104 * (4.6 + oxygen))) / (2 * 0.000104);
+  return 60000 / metersPerMinute;
+};
+
+const fractionRange = (vdot: number, key: keyof typeof INTENSITY_FRACTIONS): VdotPaceRange => ({
+  fastSecondsPerKm: secondsPerKmAtFraction(vdot, INTENSITY_FRACTIONS[key][0]),
+  slowSecondsPerKm: secondsPerKmAtFraction(vdot, INTENSITY_FRACTIONS[key][1]),
+});
+
+const racePaceRange = (vdot: number, fastMeters: number, slowMeters: number): VdotPaceRange => ({
+  fastSecondsPerKm: (timeForVdot(vdot, fastMeters) / fastMeters) * 1000,
+  slowSecondsPerKm: (timeForVdot(vdot, slowMeters) / slowMeters) * 1000,
+});
+
+export const vdotPaceTable = (vdot: number): VdotPaceTable => {
+  const marathon = (timeForVdot(vdot, 42195) / 42195) * 1000;
+  return {
+    vdot,
+    easy: fractionRange(vdot, 'easy'),
+    marathon: { fastSecondsPerKm: marathon - 3, slowSecondsPerKm: marathon + 3 },
+    threshold: fractionRange(vdot, 'threshold'),
+    interval: fractionRange(vdot, 'interval'),
+    repetition: racePaceRange(vdot, 1500, 3000),
+  };
+};
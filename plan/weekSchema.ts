@@ -0,0 +1,476 @@
+import { StructuredPlanDay, StructuredPlanWeek, WEEKDAY_NAMES } from './planTables';
+import {
+  categoryForWorkoutType,
+  paceTargetFromString,
+  SEGMENT_KINDS,
+  SegmentKind,
+  singleStepWorkout,
+  STEP_KINDS,
+  StepKind,
+  StructuredWorkout,
+  WORKOUT_CATEGORIES,
+  WorkoutCategory,
+  WorkoutSegment,
+  WorkoutStep,
+  WorkoutTarget,
+} from './workoutModel';
+
+export const WEEK_VERDICTS = ['Push', 'Maintenance', 'Deload'] as const;
+export type WeekVerdict = (typeof WEEK_VERDICTS)[number];
+
+export const WORKOUT_TYPES = [
+  'Easy Run',
+  'Recovery Run',
+  'Long Run',
+  'Tempo Run',
+  'Intervals',
+  'Hill Repeats',
+  'Fartlek',
+  'Progression Run',
+  'Race Pace',
+  'Race Day',
+  'Cross-Training',
+  'Strength',
+  'Rest Day',
+] as const;
+export type WorkoutTypeName = (typeof WORKOUT_TYPES)[number];
+
+export const NON_RUNNING_WORKOUT_TYPES: readonly WorkoutTypeName[] = ['Cross-Training', 'Strength', 'Rest Day'];
+
+const MAX_SESSION_DISTANCE: Record<'km' | 'miles', number> = {
+  km: 60,
+  miles: 40,
+};
+
+const PACE_PATTERN = /^\d{1,2}:[0-5]\d(-\d{1,2}:[0-5]\d)?\/(km|mi)$/;
+const MAX_SEGMENT_REPEATS = 30;
+
+export type WeekSchemaErrorCode =
+  | 'invalid_json'
+  | 'missing'
+  | 'invalid_type'
+  | 'invalid_enum'
+  | 'invalid_format'
+  | 'out_of_range'
+  | 'duplicate'
+  | 'wrong_count'
+  | 'mismatch';
+
+export type WeekSchemaError = {
+  path: string;
+  code: WeekSchemaErrorCode;
+  message: string;
+};
+
+export type WeekValidationResult =
+  | { ok: true; week: StructuredPlanWeek }
+  | { ok: false; errors: WeekSchemaError[] };
+
+export const isRunningWorkoutType = (workoutType: string): boolean =>
+  !NON_RUNNING_WORKOUT_TYPES.includes(workoutType as WorkoutTypeName);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const readText = (
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: WeekSchemaError[]
+): string | null => {
+  const value = source[key];
+  const fieldPath = path ? `${path}.${key}` : key;
+  if (value === undefined || value === null) {
+    errors.push({ path: fieldPath, code: 'missing', message: `"${key}" is required.` });
+    return null;
+  }
+  if (typeof value !== 'string') {
+    errors.push({ path: fieldPath, code: 'invalid_type', message: `"${key}" must be a string.` });
+    return null;
+  }
+  if (!value.trim()) {
+    errors.push({ path: fieldPath, code: 'missing', message: `"${key}" must not be empty.` });
+    return null;
+  }
+  return value.trim();
+};
+
+export const extractJsonCandidate = (text: string): string | null => {
+  const withoutFence = text
+    .trim()
+    .replace(/^```json/i, '')
+    .replace(/^```/i, '')
+    .replace(/```$/i, '')
+    .trim();
+
+  const firstBrace = withoutFence.indexOf('{');
+  const lastBrace = withoutFence.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace === -1 || lastBrace <= firstBrace) {
+    return null;
+  }
+  return withoutFence.slice(firstBrace, lastBrace + 1);
+};
+
+const readPositiveNumber = (
+  source: Record<string, unknown>,
+  key: string,
+  path: string,
+  errors: WeekSchemaError[]
+): number | undefined => {
+  const value = source[key];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    errors.push({ path: `${path}.${key}`, code: 'out_of_range', message: `"${key}" must be a positive number.` });
+    return undefined;
+  }
+  return value;
+};
+
+// Model output writes targets as {"pace": "5:30/km"} or {"hrZone": 2}; stored workouts keep the parsed shape.
+type TargetReader = (raw: unknown, path: string, errors: WeekSchemaError[]) => WorkoutTarget | undefined;
+
+const validateTarget = (
+  raw: unknown,
+  path: string,
+  distanceUnit: 'km' | 'miles',
+  errors: WeekSchemaError[]
+): WorkoutTarget | undefined => {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (!isRecord(raw)) {
+    errors.push({ path, code: 'invalid_type', message: '"target" must be an object like {"pace": "..."} or {"hrZone": 2}.' });
+    return undefined;
+  }
+  if (typeof raw.pace === 'string') {
+    const expectedSuffix = distanceUnit === 'miles' ? '/mi' : '/km';
+    const target = raw.pace.trim().endsWith(expectedSuffix) ? paceTargetFromString(raw.pace) : undefined;
+    if (!target) {
+      errors.push({
+        path: `${path}.pace`,
+        code: 'invalid_format',
+        message: `"pace" must look like "5:30${expectedSuffix}" or "5:20-5:40${expectedSuffix}".`,
+      });
+    }
+    return target;
+  }
+  if (raw.hrZone !== undefined) {
+    if (typeof raw.hrZone !== 'number' || !Number.isInteger(raw.hrZone) || raw.hrZone < 1 || raw.hrZone > 5) {
+      errors.push({ path: `${path}.hrZone`, code: 'out_of_range', message: '"hrZone" must be an integer from 1 to 5.' });
+      return undefined;
+    }
+    return { type: 'hrZone', zone: raw.hrZone };
+  }
+  errors.push({ path, code: 'missing', message: '"target" needs either "pace" or "hrZone".' });
+  return undefined;
+};
+
+const validateStoredTarget: TargetReader = (raw, path, errors) => {
+  if (raw === undefined || raw === null) {
+    return undefined;
+  }
+  if (isRecord(raw) && raw.type === 'pace') {
+    const errorCount = errors.length;
+    const low = readPositiveNumber(raw, 'lowSecondsPerUnit', path, errors);
+    const high = readPositiveNumber(raw, 'highSecondsPerUnit', path, errors);
+    if (low === undefined || high === undefined) {
+      if (errors.length > errorCount) {
+        return undefined;
+      }
+      errors.push({ path, code: 'missing', message: 'A pace target needs "lowSecondsPerUnit" and "highSecondsPerUnit".' });
+      return undefined;
+    }
+    return { type: 'pace', lowSecondsPerUnit: low, highSecondsPerUnit: high };
+  }
+  if (isRecord(raw) && raw.type === 'hrZone') {
+    if (typeof raw.zone !== 'number' || !Number.isInteger(raw.zone) || raw.zone < 1 || raw.zone > 5) {
+      errors.push({ path: `${path}.zone`, code: 'out_of_range', message: '"zone" must be an integer from 1 to 5.' });
+      return undefined;
+    }
+    return { type: 'hrZone', zone: raw.zone };
+  }
+  errors.push({ path, code: 'invalid_type', message: '"target" must be a pace or hrZone target.' });
+  return undefined;
+};
+
+const validateStep = (
+  raw: unknown,
+  path: string,
+  readTarget: TargetReader,
+  errors: WeekSchemaError[]
+): WorkoutStep | null => {
+  if (!isRecord(raw)) {
+    errors.push({ path, code: 'invalid_type', message: 'Each step must be an object.' });
+    return null;
+  }
+  const errorCount = errors.length;
+  const kind = raw.kind;
+  if (typeof kind !== 'string' || !STEP_KINDS.includes(kind as StepKind)) {
+    errors.push({ path: `${path}.kind`, code: 'invalid_enum', message: `"kind" must be one of ${STEP_KINDS.join(', ')}.` });
+  }
+  const distance = readPositiveNumber(raw, 'distance', path, errors);
+  const durationMinutes = readPositiveNumber(raw, 'durationMinutes', path, errors);
+  if (distance === undefined && durationMinutes === undefined && errors.length === errorCount) {
+    errors.push({ path, code: 'missing', message: 'Each step needs "distance" or "durationMinutes".' });
+  }
+  const target = readTarget(raw.target, `${path}.target`, errors);
+  if (errors.length > errorCount) {
+    return null;
+  }
+  return {
+    kind: kind as StepKind,
+    ...(distance !== undefined ? { distance } : {}),
+    ...(durationMinutes !== undefined ? { durationMinutes } : {}),
+    ...(target ? { target } : {}),
+  };
+};
+
+const validateSegments = (
+  raw: unknown,
+  path: string,
+  readTarget: TargetReader,
+  errors: WeekSchemaError[]
+): WorkoutSegment[] | null => {
+  if (!Array.isArray(raw)) {
+    errors.push({ path, code: 'invalid_type', message: '"segments" must be an array.' });
+    return null;
+  }
+  const errorCount = errors.length;
+  const segments = raw.map((entry, index): WorkoutSegment | null => {
+    const segmentPath = `${path}[${index}]`;
+    if (!isRecord(entry)) {
+      errors.push({ path: segmentPath, code: 'invalid_type', message: 'Each segment must be an object.' });
+      return null;
+    }
+    if (typeof entry.kind !== 'string' || !SEGMENT_KINDS.includes(entry.kind as SegmentKind)) {
+      errors.push({ path: `${segmentPath}.kind`, code: 'invalid_enum', message: `"kind" must be one of ${SEGMENT_KINDS.join(', ')}.` });
+    }
+    const repeats = entry.repeats ?? 1;
+    if (typeof repeats !== 'number' || !Number.isInteger(repeats) || repeats < 1 || repeats > MAX_SEGMENT_REPEATS) {
+      errors.push({ path: `${segmentPath}.repeats`, code: 'out_of_range', message: `"repeats" must be an integer from 1 to ${MAX_SEGMENT_REPEATS}.` });
+    }
+    if (!Array.isArray(entry.steps) || !entry.steps.length) {
+      errors.push({ path: `${segmentPath}.steps`, code: 'missing', message: '"steps" must be a non-empty array.' });
+      return null;
+    }
+    const steps = entry.steps.map((step, stepIndex) => validateStep(step, `${segmentPath}.steps[${stepIndex}]`, readTarget, errors));
+    if (steps.some((step) => !step)) {
+      return null;
+    }
+    return { kind: entry.kind as SegmentKind, repeats: repeats as number, steps: steps as WorkoutStep[] };
+  });
+  return errors.length > errorCount ? null : (segments as WorkoutSegment[]);
+};
+
+const validateDay = (
+  entry: unknown,
+  index: number,
+  distanceUnit: 'km' | 'miles',
+  errors: WeekSchemaError[]
+): StructuredPlanDay | null => {
+  const path = `days[${index}]`;
+  if (!isRecord(entry)) {
+    errors.push({ path, code: 'invalid_type', message: 'Each day must be an object.' });
+    return null;
+  }
+
+  const errorCount = errors.length;
+  const dayName = readText(entry, 'day', path, errors);
+  if (dayName && !WEEKDAY_NAMES.includes(dayName as (typeof WEEKDAY_NAMES)[number])) {
+    errors.push({ path: `${path}.day`, code: 'invalid_enum', message: `"${dayName}" is not one of ${WEEKDAY_NAMES.join(', ')}.` });
+  }
+
+  const workoutType = readText(entry, 'workoutType', path, errors);
+  if (workoutType && !WORKOUT_TYPES.includes(workoutType as WorkoutTypeName)) {
+    errors.push({
+      path: `${path}.workoutType`,
+      code: 'invalid_enum',
+      message: `"${workoutType}" is not one of ${WORKOUT_TYPES.join(', ')}.`,
+    });
+  }
+
+  const details = readText(entry, 'details', path, errors);
+  const rationale = readText(entry, 'rationale', path, errors);
+  const isRunning = workoutType ? isRunningWorkoutType(workoutType) : false;
+
+  const rawDistance = entry.distance;
+  let distance: number | null = null;
+  if (rawDistance === undefined) {
+    errors.push({ path: `${path}.distance`, code: 'missing', message: '"distance" is required (number, or null on non-running days).' });
+  } else if (rawDistance !== null && (typeof rawDistance !== 'number' || !Number.isFinite(rawDistance))) {
+    errors.push({ path: `${path}.distance`, code: 'invalid_type', message: '"distance" must be a number or null.' });
+  } else if (typeof rawDistance === 'number') {
+    if (rawDistance <= 0 || rawDistance > MAX_SESSION_DISTANCE[distanceUnit]) {
+      errors.push({
+        path: `${path}.distance`,
+        code: 'out_of_range',
+        message: `"distance" must be between 0 and ${MAX_SESSION_DISTANCE[distanceUnit]} ${distanceUnit}.`,
+      });
+    } else {
+      distance = rawDistance;
+    }
+  }
+  if (isRunning && rawDistance === null) {
+    errors.push({ path: `${path}.distance`, code: 'missing', message: `"distance" is required for ${workoutType}.` });
+  }
+
+  const rawPace = entry.pace;
+  let pace: string | null = null;
+  if (rawPace === undefined) {
+    errors.push({ path: `${path}.pace`, code: 'missing', message: '"pace" is required (string, or null when not applicable).' });
+  } else if (rawPace !== null && typeof rawPace !== 'string') {
+    errors.push({ path: `${path}.pace`, code: 'invalid_type', message: '"pace" must be a string or null.' });
+  } else if (typeof rawPace === 'string') {
+    const expectedSuffix = distanceUnit === 'miles' ? '/mi' : '/km';
+    if (!PACE_PATTERN.test(rawPace.trim()) || !rawPace.trim().endsWith(expectedSuffix)) {
+      errors.push({
+        path: `${path}.pace`,
+        code: 'invalid_format',
+        message: `"pace" must look like "5:30${expectedSuffix}" or "5:20-5:40${expectedSuffix}".`,
+      });
+    } else {
+      pace = rawPace.trim();
+    }
+  }
+
+  let workout: StructuredWorkout | null = null;
+  if (workoutType) {
+    const category = categoryForWorkoutType(workoutType);
+    if (entry.segments === undefined || entry.segments === null) {
+      workout = singleStepWorkout(category, distance, paceTargetFromString(pace));
+    } else {
+      const segments = validateSegments(
+        entry.segments,
+        `${path}.segments`,
+        (target, targetPath, targetErrors) => validateTarget(target, targetPath, distanceUnit, targetErrors),
+        errors
+      );
+      workout = segments ? { category, segments: isRunning ? segments : [] } : null;
+    }
+  }
+
+  if (errors.length > errorCount || !dayName || !workoutType || !details || !rationale || !workout) {
+    return null;
+  }
+
+  return { day: dayName, workoutType, details, rationale, distance, pace, workout };
+};
+
+export const validateWeekJson = (
+  raw: unknown,
+  expectedWeek: number,
+  distanceUnit: 'km' | 'miles'
+): WeekValidationResult => {
+  const errors: WeekSchemaError[] = [];
+  if (!isRecord(raw)) {
+    return { ok: false, errors: [{ path: '$', code: 'invalid_type', message: 'Response must be a JSON object.' }] };
+  }
+
+  if (raw.week === undefined) {
+    errors.push({ path: 'week', code: 'missing', message: '"week" is required.' });
+  } else if (typeof raw.week !== 'number' || !Number.isInteger(raw.week)) {
+    errors.push({ path: 'week', code: 'invalid_type', message: '"week" must be an integer.' });
+  } else if (raw.week !== expectedWeek) {
+    errors.push({ path: 'week', code: 'mismatch', message: `"week" must be ${expectedWeek}.` });
+  }
+
+  const verdict = readText(raw, 'verdict', '', errors);
+  if (verdict && !WEEK_VERDICTS.includes(verdict as WeekVerdict)) {
+    errors.push({ path: 'verdict', code: 'invalid_enum', message: `"verdict" must be one of ${WEEK_VERDICTS.join(', ')}.` });
+  }
+  const reasoning = readText(raw, 'reasoning', '', errors);
+
+  const days: StructuredPlanDay[] = [];
+  if (!Array.isArray(raw.days)) {
+    errors.push({ path: 'days', code: raw.days === undefined ? 'missing' : 'invalid_type', message: '"days" must be an array.' });
+  } else {
+    if (raw.days.length !== WEEKDAY_NAMES.length) {
+      errors.push({
+        path: 'days',
+        code: 'wrong_count',
+        message: `"days" must contain exactly ${WEEKDAY_NAMES.length} entries (got ${raw.days.length}).`,
+      });
+    }
+    const seen = new Set<string>();
+    raw.days.forEach((entry, index) => {
+      const day = validateDay(entry, index, distanceUnit, errors);
+      if (!day) {
+        return;
+      }
+      if (seen.has(day.day)) {
+        errors.push({ path: `days[${index}].day`, code: 'duplicate', message: `"${day.day}" appears more than once.` });
+        return;
+      }
+      seen.add(day.day);
+      days.push(day);
+    });
+    WEEKDAY_NAMES.filter((day) => !seen.has(day)).forEach((day) => {
+      errors.push({ path: 'days', code: 'missing', message: `No entry for ${day}.` });
+    });
+  }
+
+  if (errors.length || !verdict || !reasoning) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    week: {
+      week: expectedWeek,
+      verdict,
+      reasoning,
+      days: WEEKDAY_NAMES.map((name) => days.find((day) => day.day === name) as StructuredPlanDay),
+    },
+  };
+};
+
+export const parseAndValidateWeek = (
+  text: string,
+  expectedWeek: number,
+  distanceUnit: 'km' | 'miles'
+): WeekValidationResult => {
+  const candidate = extractJsonCandidate(text);
+  if (!candidate) {
+    return { ok: false, errors: [{ path: '$', code: 'invalid_json', message: 'No JSON object found in the response.' }] };
+  }
+
+  try {
+    return validateWeekJson(JSON.parse(candidate), expectedWeek, distanceUnit);
+  } catch (caught) {
+    const reason = caught instanceof Error ? caught.message : 'unparseable JSON';
+    return { ok: false, errors: [{ path: '$', code: 'invalid_json', message: `Response is not valid JSON (${reason}).` }] };
+  }
+};
+
+// Saved and imported plans carry workouts in the stored shape; they must pass the same step and segment rules.
+export const validateStoredWorkout = (raw: unknown, path: string): WeekSchemaError[] => {
+  if (!isRecord(raw)) {
+    return [{ path, code: 'invalid_type', message: 'Each workout must be an object.' }];
+  }
+  const errors: WeekSchemaError[] = [];
+  if (typeof raw.category !== 'string' || !WORKOUT_CATEGORIES.includes(raw.category as WorkoutCategory)) {
+    errors.push({ path: `${path}.category`, code: 'invalid_enum', message: `"category" must be one of ${WORKOUT_CATEGORIES.join(', ')}.` });
+  }
+  validateSegments(raw.segments, `${path}.segments`, validateStoredTarget, errors);
+  return errors;
+};
+
+export const withSchemaRepair = (
+  prompt: string,
+  weekNumber: number,
+  errors: WeekSchemaError[],
+  previousResponse: string
+): string =>
+  [
+    prompt,
+    '',
+    `Critical Fix: Your previous JSON for Week ${weekNumber} was:`,
+    '```json',
+    extractJsonCandidate(previousResponse) ?? previousResponse.trim(),
+    '```',
+    'It failed validation:',
+    ...errors.slice(0, 12).map((error) => `- ${error.path}: ${error.message}`),
+    'Critical Fix: Correct ONLY those fields, keep everything else the same, and return ONLY the corrected JSON object.',
+  ].join('\n');
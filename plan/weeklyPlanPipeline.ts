@@ -0,0 +1,522 @@
+import {
+  AdaptiveRunningCoachPromptInput,
+  buildAdaptiveRunningCoachPrompt,
+  WEEK_PARTS,
+} from '../prompts/adaptiveRunningCoachPrompt';
+import type { CoachModelProvider } from '../providers/coachModelProvider';
+import { checkWeekLoad, enforceLoadProgression, LoadContext, trainingDistance, withLoadCorrection } from './loadProgression';
+import { applyPaceGuardrails, buildPaceGuardrailBands, PaceCorrection, PaceGuardrailBands } from './paceGuardrails';
+import {
+  clampWeekToRunDayCap,
+  countPlannedRunDays,
+  findWeekTableIndex,
+  parseRunDayCap,
+  PlanTable,
+  StructuredPlanWeek,
+  structuredWeekToTable,
+  summarizeWeekForHistory,
+} from './planTables';
+import { placeRaceDay, TuneUpRaceWeek } from './raceSchedule';
+import { buildRuleBasedWeek } from './ruleBasedPlan';
+import { buildPhaseSchedule, PhaseWeek } from './trainingPhases';
+import { parseAndValidateWeek, WeekSchemaError, withSchemaRepair } from './weekSchema';
+
+export type PlanInput = AdaptiveRunningCoachPromptInput & {
+  planLengthWeeks: number;
+  tuneUpRaces?: TuneUpRaceWeek[];
+};
+
+export type WeeklyDebugPrompt = {
+  week: number;
+  mode:
+    | 'full'
+    | 'compact'
+    | 'full-corrective'
+    | 'compact-corrective'
+    | 'full-repair'
+    | 'compact-repair'
+    | 'full-load'
+    | 'compact-load';
+  prompt: string;
+};
+
+export type FallbackWeek = {
+  week: number;
+  reason: string;
+};
+
+export type LoadAdjustment = {
+  week: number;
+  adjustments: string[];
+};
+
+export type WeekPaceCorrection = PaceCorrection & {
+  week: number;
+};
+
+export type WeeklyPlanProgress = {
+  combined: string;
+  tables: PlanTable[];
+  debugPrompts: WeeklyDebugPrompt[];
+  fallbackWeeks: FallbackWeek[];
+  loadAdjustments: LoadAdjustment[];
+  paceCorrections: WeekPaceCorrection[];
+};
+
+export type WeeklyPlanResult = WeeklyPlanProgress;
+
+class MalformedWeekError extends Error {
+  errors: WeekSchemaError[];
+
+  constructor(weekNumber: number, errors: WeekSchemaError[]) {
+    const firstError = errors[0] ? ` (${errors[0].path}: ${errors[0].message})` : '';
+    super(`Model returned invalid JSON for Week ${weekNumber} twice${firstError}.`);
+    this.name = 'MalformedWeekError';
+    this.errors = errors;
+  }
+}
+
+type BuildWeeklyPlanOptions = {
+  provider: CoachModelProvider;
+  onProgress?: (progress: WeeklyPlanProgress) => void;
+};
+
+type RegenerateWeekOptions = {
+  provider: CoachModelProvider;
+  tables: PlanTable[];
+  weekNumber: number;
+};
+
+export type GuardedWeek = {
+  table: PlanTable;
+  loadAdjustments: string[];
+  paceCorrections: PaceCorrection[];
+};
+
+type ReplanRemainingWeeksOptions = {
+  provider: CoachModelProvider;
+  tables: PlanTable[];
+  fromWeek: number;
+  onProgress?: (progress: { completedWeek: number; tables: PlanTable[] }) => void;
+};
+
+export type ReplanResult = Pick<
+  WeeklyPlanResult,
+  'tables' | 'fallbackWeeks' | 'loadAdjustments' | 'paceCorrections' | 'debugPrompts'
+>;
+
+export type RegeneratedWeek = GuardedWeek & {
+  fallbackReason: string | null;
+  debugPrompts: WeeklyDebugPrompt[];
+};
+
+export type WeekGuardrailInput = Pick<
+  PlanInput,
+  | 'planLengthWeeks'
+  | 'selectedGoal'
+  | 'runDaysPerWeek'
+  | 'distanceUnit'
+  | 'targetTime'
+  | 'targetTimeSeconds'
+  | 'raceDay'
+  | 'tuneUpRaces'
+  | 'recentRace'
+  | 'pacingMode'
+>;
+
+type WeekRules = {
+  input: WeekGuardrailInput;
+  runDayCap: number;
+  phaseSchedule: PhaseWeek[];
+  paceBands: PaceGuardrailBands | null;
+};
+
+type WeekGenerationContext = WeekRules & {
+  input: PlanInput;
+  provider: CoachModelProvider;
+  debugPrompts: WeeklyDebugPrompt[];
+};
+
+type GeneratedWeek = {
+  table: PlanTable;
+  fallbackReason: string | null;
+  providerUnavailable: boolean;
+};
+
+type PromptWeekKey = (typeof WEEK_PARTS)[number];
+type GenerationMode = 'full' | 'compact';
+
+export const looksLikeContextWindowError = (message: string): boolean => {
+  const normalized = message.toLowerCase();
+  return normalized.includes('context window') || normalized.includes('model size') || normalized.includes('token');
+};
+
+const toCompactInput = (input: PlanInput): PlanInput => ({
+  ...input,
+  workoutNarrative: input.workoutNarrative.slice(0, 3),
+  vo2Trend: `VO2: ${input.vo2Trend}`,
+  distanceTrend: `Distance: ${input.distanceTrend}`,
+  stepTrend: `Steps: ${input.stepTrend}`,
+});
+
+const withRunDayCorrection = (prompt: string, weekNumber: number, runDayCap: number): string =>
+  [
+    prompt,
+    '',
+    `Critical Fix: Rewrite Week ${weekNumber} so it has EXACTLY ${runDayCap} run days.`,
+    `Critical Fix: The other ${7 - runDayCap} days must be Rest or non-running cross-training.`,
+    'Critical Fix: Return ONLY corrected JSON for that week using the same schema.',
+  ].join('\n');
+
+const buildWeekRules = (input: WeekGuardrailInput): WeekRules => ({
+  input,
+  runDayCap: parseRunDayCap(input.runDaysPerWeek),
+  phaseSchedule: buildPhaseSchedule(input.planLengthWeeks, input.selectedGoal, input.tuneUpRaces),
+  paceBands: buildPaceGuardrailBands(input, input.distanceUnit),
+});
+
+const promptWeekKey = (weekNumber: number): PromptWeekKey => {
+  const key = `week${weekNumber}` as PromptWeekKey;
+  if (!WEEK_PARTS.includes(key)) {
+    throw new Error(`Unsupported week prompt key: ${key}`);
+  }
+  return key;
+};
+
+const loadContextFor = (rules: WeekRules, priorWeeklyDistances: number[]): LoadContext => ({
+  priorWeeklyDistances,
+  runDayCap: rules.runDayCap,
+  distanceUnit: rules.input.distanceUnit,
+});
+
+const describeError = (caught: unknown): string => (caught instanceof Error ? caught.message : 'Unknown planning error.');
+
+const requestValidWeek = async (
+  context: WeekGenerationContext,
+  prompt: string,
+  expectedWeekNumber: number,
+  mode: GenerationMode
+): Promise<{ text: string; week: StructuredPlanWeek }> => {
+  const { input, provider, debugPrompts } = context;
+  let text = await provider.query(prompt);
+  let result = parseAndValidateWeek(text, expectedWeekNumber, input.distanceUnit);
+  if (!result.ok) {
+    const repairPrompt = withSchemaRepair(prompt, expectedWeekNumber, result.errors, text);
+    debugPrompts.push({ week: expectedWeekNumber, mode: `${mode}-repair`, prompt: repairPrompt });
+    text = await provider.query(repairPrompt);
+    result = parseAndValidateWeek(text, expectedWeekNumber, input.distanceUnit);
+    if (!result.ok) {
+      throw new MalformedWeekError(expectedWeekNumber, result.errors);
+    }
+  }
+  return { text, week: result.week };
+};
+
+const generateModelWeek = async (
+  context: WeekGenerationContext,
+  prompt: string,
+  expectedWeekNumber: number,
+  mode: GenerationMode,
+  priorWeeklyDistances: number[]
+): Promise<{ text: string; tables: PlanTable[] }> => {
+  const { input, provider, debugPrompts, runDayCap } = context;
+  debugPrompts.push({ week: expectedWeekNumber, mode, prompt });
+  let { text, week } = await requestValidWeek(context, prompt, expectedWeekNumber, mode);
+  let normalizedTables = [structuredWeekToTable(week)];
+  if (countPlannedRunDays(normalizedTables) > runDayCap) {
+    const correctionPrompt = withRunDayCorrection(prompt, expectedWeekNumber, runDayCap);
+    debugPrompts.push({ week: expectedWeekNumber, mode: `${mode}-corrective`, prompt: correctionPrompt });
+    const correctedText = await provider.query(correctionPrompt);
+    const corrected = parseAndValidateWeek(correctedText, expectedWeekNumber, input.distanceUnit);
+    if (corrected.ok) {
+      text = correctedText;
+      week = corrected.week;
+      normalizedTables = [structuredWeekToTable(week)];
+    }
+  }
+  normalizedTables = clampWeekToRunDayCap(normalizedTables, runDayCap, input.longRunDay);
+
+  const loadContext = loadContextFor(context, priorWeeklyDistances);
+  const loadIssues = checkWeekLoad(normalizedTables[0], loadContext);
+  if (loadIssues.length) {
+    const loadPrompt = withLoadCorrection(prompt, expectedWeekNumber, loadIssues);
+    debugPrompts.push({ week: expectedWeekNumber, mode: `${mode}-load`, prompt: loadPrompt });
+    const loadText = await provider.query(loadPrompt);
+    const reloaded = parseAndValidateWeek(loadText, expectedWeekNumber, input.distanceUnit);
+    if (reloaded.ok) {
+      const reloadedTables = clampWeekToRunDayCap([structuredWeekToTable(reloaded.week)], runDayCap, input.longRunDay);
+      if (checkWeekLoad(reloadedTables[0], loadContext).length < loadIssues.length) {
+        text = loadText;
+        normalizedTables = reloadedTables;
+      }
+    }
+  }
+
+  return { text, tables: normalizedTables };
+};
+
+const guardWeek = (
+  rules: WeekRules,
+  table: PlanTable,
+  weekNumber: number,
+  priorWeeklyDistances: number[]
+): GuardedWeek => {
+  const { input, phaseSchedule, paceBands } = rules;
+  const isRaceWeek = weekNumber === input.planLengthWeeks && !!input.raceDay;
+  const tuneUpRace = phaseSchedule[weekNumber - 1]?.tuneUpRace;
+  const withRace = isRaceWeek
+    ? placeRaceDay(table, input.raceDay ?? '', input.selectedGoal, input.distanceUnit)
+    : tuneUpRace
+      ? placeRaceDay(table, tuneUpRace.day, tuneUpRace.goal, input.distanceUnit, tuneUpRace.priority)
+      : table;
+  const enforced = enforceLoadProgression(withRace, loadContextFor(rules, priorWeeklyDistances));
+  if (!paceBands) {
+    return { table: enforced.table, loadAdjustments: enforced.adjustments, paceCorrections: [] };
+  }
+  const paced = applyPaceGuardrails(enforced.table, paceBands);
+  return { table: paced.table, loadAdjustments: enforced.adjustments, paceCorrections: paced.corrections };
+};
+
+const weekDistancesBefore = (tables: PlanTable[], weekNumber: number, unit: PlanInput['distanceUnit']): number[] =>
+  Array.from({ length: weekNumber - 1 }, (_, idx) => {
+    const tableIndex = findWeekTableIndex(tables, idx + 1);
+    return tableIndex === -1 ? 0 : trainingDistance(tables[tableIndex], unit);
+  });
+
+const neighbourHistoryContext = (
+  tables: PlanTable[],
+  weekNumber: number,
+  unit: PlanInput['distanceUnit'],
+  includeFollowingWeek: boolean
+): string => {
+  const summaryFor = (week: number): string | null => {
+    const tableIndex = findWeekTableIndex(tables, week);
+    return tableIndex === -1 ? null : summarizeWeekForHistory([tables[tableIndex]], week, unit);
+  };
+  const prior = Array.from({ length: weekNumber - 1 }, (_, idx) => summaryFor(idx + 1));
+  const following = includeFollowingWeek ? summaryFor(weekNumber + 1) : null;
+  return [
+    ...prior,
+    following ? `Following week (already planned, keep this week a sensible lead-in):\n${following}` : null,
+  ]
+    .filter((summary): summary is string => !!summary)
+    .join('\n\n');
+};
+
+const modelWeekOrFallback = async (
+  context: WeekGenerationContext,
+  weekNumber: number,
+  historyContext: string,
+  priorWeeklyDistances: number[]
+): Promise<GeneratedWeek> => {
+  const { input } = context;
+  const key = promptWeekKey(weekNumber);
+  const phase = context.phaseSchedule[weekNumber - 1];
+  const attempt = async (mode: GenerationMode) => {
+    const promptInput = mode === 'full' ? input : toCompactInput(input);
+    const prompt = buildAdaptiveRunningCoachPrompt({ ...promptInput, historyContext, phase }, key);
+    return (await generateModelWeek(context, prompt, weekNumber, mode, priorWeeklyDistances)).tables[0];
+  };
+  const ruleBased = (reason: string, providerUnavailable: boolean) => ({
+    table: structuredWeekToTable(buildRuleBasedWeek(input, weekNumber)),
+    fallbackReason: reason,
+    providerUnavailable,
+  });
+
+  try {
+    return { table: await attempt('full'), fallbackReason: null, providerUnavailable: false };
+  } catch (caught) {
+    const message = describeError(caught);
+    if (!looksLikeContextWindowError(message)) {
+      return ruleBased(message, !(caught instanceof MalformedWeekError));
+    }
+    try {
+      return { table: await attempt('compact'), fallbackReason: null, providerUnavailable: false };
+    } catch (compactCaught) {
+      return ruleBased(describeError(compactCaught), false);
+    }
+  }
+};
+
+export const rerunWeekGuardrails = (
+  input: WeekGuardrailInput,
+  tables: PlanTable[],
+  weekNumber: number
+): GuardedWeek | null => {
+  const tableIndex = findWeekTableIndex(tables, weekNumber);
+  if (tableIndex === -1) {
+    return null;
+  }
+  return guardWeek(
+    buildWeekRules(input),
+    tables[tableIndex],
+    weekNumber,
+    weekDistancesBefore(tables, weekNumber, input.distanceUnit)
+  );
+};
+
+export const regenerateWeek = async (
+  input: PlanInput,
+  { provider, tables, weekNumber }: RegenerateWeekOptions
+): Promise<RegeneratedWeek> => {
+  const context: WeekGenerationContext = { ...buildWeekRules(input), input, provider, debugPrompts: [] };
+  const priorWeeklyDistances = weekDistancesBefore(tables, weekNumber, input.distanceUnit);
+  const historyContext = neighbourHistoryContext(tables, weekNumber, input.distanceUnit, true);
+  const generated = await modelWeekOrFallback(context, weekNumber, historyContext, priorWeeklyDistances);
+  return {
+    ...guardWeek(context, generated.table, weekNumber, priorWeeklyDistances),
+    fallbackReason: generated.fallbackReason,
+    debugPrompts: context.debugPrompts,
+  };
+};
+
+export const replanRemainingWeeks = async (
+  input: PlanInput,
+  { provider, tables, fromWeek, onProgress }: ReplanRemainingWeeksOptions
+): Promise<ReplanResult> => {
+  const context: WeekGenerationContext = { ...buildWeekRules(input), input, provider, debugPrompts: [] };
+  const fallbackWeeks: FallbackWeek[] = [];
+  const loadAdjustments: LoadAdjustment[] = [];
+  const paceCorrections: WeekPaceCorrection[] = [];
+  let replanned = [...tables];
+  let providerUnavailableReason: string | null = null;
+
+  for (let weekNumber = Math.max(1, fromWeek); weekNumber <= input.planLengthWeeks; weekNumber += 1) {
+    const priorWeeklyDistances = weekDistancesBefore(replanned, weekNumber, input.distanceUnit);
+    const generated: GeneratedWeek = providerUnavailableReason
+      ? {
+          table: structuredWeekToTable(buildRuleBasedWeek(input, weekNumber)),
+          fallbackReason: providerUnavailableReason,
+          providerUnavailable: true,
+        }
+      : await modelWeekOrFallback(
+          context,
+          weekNumber,
+          neighbourHistoryContext(replanned, weekNumber, input.distanceUnit, false),
+          priorWeeklyDistances
+        );
+    if (generated.providerUnavailable) {
+      providerUnavailableReason = generated.fallbackReason;
+    }
+    if (generated.fallbackReason) {
+      fallbackWeeks.push({ week: weekNumber, reason: generated.fallbackReason });
+    }
+
+    const guarded = guardWeek(context, generated.table, weekNumber, priorWeeklyDistances);
+    if (guarded.loadAdjustments.length) {
+      loadAdjustments.push({ week: weekNumber, adjustments: guarded.loadAdjustments });
+    }
+    paceCorrections.push(...guarded.paceCorrections.map((correction) => ({ ...correction, week: weekNumber })));
+    const tableIndex = findWeekTableIndex(replanned, weekNumber);
+    replanned =
+      tableIndex === -1
+        ? [...replanned, guarded.table]
+        : replanned.map((table, index) => (index === tableIndex ? guarded.table : table));
+
+    onProgress?.({ completedWeek: weekNumber, tables: replanned });
+  }
+
+  return { tables: replanned, fallbackWeeks, loadAdjustments, paceCorrections, debugPrompts: context.debugPrompts };
+};
+
+export const buildWeeklyPlan = async (
+  input: PlanInput,
+  { provider, onProgress }: BuildWeeklyPlanOptions
+): Promise<WeeklyPlanResult> => {
+  const parts = Array.from({ length: input.planLengthWeeks }, (_, idx) => {
+    const week = idx + 1;
+    return { key: promptWeekKey(week), label: String(week), title: `## Week ${week}` };
+  });
+  const compactInput = toCompactInput(input);
+  const debugPrompts: WeeklyDebugPrompt[] = [];
+  const context: WeekGenerationContext = { ...buildWeekRules(input), input, provider, debugPrompts };
+  const partResponses: string[] = [];
+  const accumulatedTables: PlanTable[] = [];
+  const historySummaries: string[] = [];
+  const fallbackWeeks: FallbackWeek[] = [];
+  const loadAdjustments: LoadAdjustment[] = [];
+  const weeklyDistances: number[] = [];
+  const paceCorrections: WeekPaceCorrection[] = [];
+  let providerUnavailableReason: string | null = null;
+
+  const acceptWeek = (tables: PlanTable[], expectedWeekNumber: number) => {
+    const normalizedTables = tables.map((table) => {
+      const guarded = guardWeek(context, table, expectedWeekNumber, weeklyDistances);
+      if (guarded.loadAdjustments.length) {
+        loadAdjustments.push({ week: expectedWeekNumber, adjustments: guarded.loadAdjustments });
+      }
+      paceCorrections.push(...guarded.paceCorrections.map((correction) => ({ ...correction, week: expectedWeekNumber })));
+      return guarded.table;
+    });
+    accumulatedTables.push(...normalizedTables);
+    weeklyDistances.push(normalizedTables.reduce((sum, table) => sum + trainingDistance(table, input.distanceUnit), 0));
+    historySummaries.push(summarizeWeekForHistory(normalizedTables, expectedWeekNumber, input.distanceUnit));
+  };
+
+  const generateWeek = async (prompt: string, expectedWeekNumber: number, mode: GenerationMode) => {
+    const generated = await generateModelWeek(context, prompt, expectedWeekNumber, mode, weeklyDistances);
+    partResponses.push(generated.text);
+    acceptWeek(generated.tables, expectedWeekNumber);
+  };
+
+  const applyRuleBasedWeek = (expectedWeekNumber: number, reason: string) => {
+    fallbackWeeks.push({ week: expectedWeekNumber, reason });
+    partResponses.push(`Rule-based fallback (${reason})`);
+    acceptWeek([structuredWeekToTable(buildRuleBasedWeek(input, expectedWeekNumber))], expectedWeekNumber);
+  };
+
+  const combineResponses = (count: number): string =>
+    parts
+      .slice(0, count)
+      .map((part, index) => [part.title, partResponses[index] ?? ''].join('\n'))
+      .join('\n\n');
+
+  for (const part of parts) {
+    const expectedWeekNumber = Number.parseInt(part.label, 10);
+    const historyContext = historySummaries.join('\n\n');
+    const phase = context.phaseSchedule[expectedWeekNumber - 1];
+    if (providerUnavailableReason) {
+      applyRuleBasedWeek(expectedWeekNumber, providerUnavailableReason);
+    } else {
+      try {
+        await generateWeek(buildAdaptiveRunningCoachPrompt({ ...input, historyContext, phase }, part.key), expectedWeekNumber, 'full');
+      } catch (caught) {
+        const message = describeError(caught);
+        if (!looksLikeContextWindowError(message)) {
+          if (!(caught instanceof MalformedWeekError)) {
+            providerUnavailableReason = message;
+          }
+          applyRuleBasedWeek(expectedWeekNumber, message);
+        } else {
+          try {
+            await generateWeek(
+              buildAdaptiveRunningCoachPrompt({ ...compactInput, historyContext, phase }, part.key),
+              expectedWeekNumber,
+              'compact'
+            );
+          } catch (compactCaught) {
+            applyRuleBasedWeek(expectedWeekNumber, describeError(compactCaught));
+          }
+        }
+      }
+    }
+
+    onProgress?.({
+      combined: combineResponses(partResponses.length),
+      tables: [...accumulatedTables],
+      debugPrompts: [...debugPrompts],
+      fallbackWeeks: [...fallbackWeeks],
+      loadAdjustments: [...loadAdjustments],
+      paceCorrections: [...paceCorrections],
+    });
+  }
+
+  return {
+    combined: combineResponses(parts.length),
+    tables: [...accumulatedTables],
+    debugPrompts,
+    fallbackWeeks,
+    loadAdjustments,
+    paceCorrections,
+  };
+};
@@ -0,0 +1,345 @@
+import type { WorkoutTypeName } from './weekSchema';
+
+export const WORKOUT_CATEGORIES = [
+  'rest',
+  'easy',
+  'recovery',
+  'long',
+  'tempo',
+  'intervals',
+  'hills',
+  'fartlek',
+  'progression',
+  'race-pace',
+  'race',
+  'cross-training',
+  'strength',
+] as const;
+export type WorkoutCategory = (typeof WORKOUT_CATEGORIES)[number];
+
+export const SEGMENT_KINDS = ['warmup', 'main', 'cooldown'] as const;
+export type SegmentKind = (typeof SEGMENT_KINDS)[number];
+
+export const STEP_KINDS = ['work', 'recovery'] as const;
+export type StepKind = (typeof STEP_KINDS)[number];
+
+export type DistanceUnit = 'km' | 'miles';
+
+export type WorkoutTarget =
+  | { type: 'pace'; lowSecondsPerUnit: number; highSecondsPerUnit: number }
+  | { type: 'hrZone'; zone: number };
+
+export type WorkoutStep = {
+  kind: StepKind;
+  distance?: number;
+  durationMinutes?: number;
+  target?: WorkoutTarget;
+};
+
+export type WorkoutSegment = {
+  kind: SegmentKind;
+  repeats: number;
+  steps: WorkoutStep[];
+};
+
+export type StructuredWorkout = {
+  category: WorkoutCategory;
+  segments: WorkoutSegment[];
+};
+
+export type HeartRateZoneRange = {
+  zone: number;
+  lowBpm: number;
+  highBpm: number;
+};
+
+const KM_PER_MILE = 1.609344;
+
+const WORKOUT_TYPE_CATEGORY: Record<WorkoutTypeName, WorkoutCategory> = {
+  'Easy Run': 'easy',
+  'Recovery Run': 'recovery',
+  'Long Run': 'long',
+  'Tempo Run': 'tempo',
+  Intervals: 'intervals',
+  'Hill Repeats': 'hills',
+  Fartlek: 'fartlek',
+  'Progression Run': 'progression',
+  'Race Pace': 'race-pace',
+  'Race Day': 'race',
+  'Cross-Training': 'cross-training',
+  Strength: 'strength',
+  'Rest Day': 'rest',
+};
+
+const NON_RUNNING_CATEGORIES: readonly WorkoutCategory[] = ['rest', 'cross-training', 'strength'];
+const QUALITY_CATEGORIES: readonly WorkoutCategory[] = ['tempo', 'intervals', 'hills', 'fartlek', 'progression', 'race-pace', 'race'];
+
+// Heart-rate zone a session's work runs in when the step itself has no zone target.
+const IMPLIED_WORK_ZONE: Partial<Record<WorkoutCategory, number>> = {
+  easy: 2,
+  recovery: 1,
+  long: 2,
+  tempo: 4,
+  intervals: 5,
+  hills: 5,
+  fartlek: 4,
+  progression: 3,
+  'race-pace': 4,
+  race: 4,
+};
+
+// Seconds per km used when a step has no pace target to convert between distance and duration.
+const DEFAULT_PACE_PER_KM = {
+  easy: 375,
+  work: 285,
+  recovery: 420,
+};
+
+export const categoryForWorkoutType = (workoutType: string): WorkoutCategory => {
+  const known = WORKOUT_TYPE_CATEGORY[workoutType.trim() as WorkoutTypeName];
+  if (known) {
+    return known;
+  }
+
+  const normalized = workoutType.toLowerCase();
+  if (normalized.includes('rest') || normalized.includes('off')) {
+    return 'rest';
+  }
+  if (normalized.includes('cross')) {
+    return 'cross-training';
+  }
+  if (normalized.includes('strength')) {
+    return 'strength';
+  }
+  if (normalized.includes('long')) {
+    return 'long';
+  }
+  if (normalized.includes('interval') || normalized.includes('speed')) {
+    return 'intervals';
+  }
+  if (normalized.includes('tempo') || normalized.includes('threshold')) {
+    return 'tempo';
+  }
+  if (normalized.includes('hill')) {
+    return 'hills';
+  }
+  if (normalized.includes('recovery')) {
+    return 'recovery';
+  }
+  return 'easy';
+};
+
+export const isRunningCategory = (category: WorkoutCategory): boolean => !NON_RUNNING_CATEGORIES.includes(category);
+
+export const isQualityCategory = (category: WorkoutCategory): boolean => QUALITY_CATEGORIES.includes(category);
+
+export const workoutFromType = (workoutType: string): StructuredWorkout => ({
+  category: categoryForWorkoutType(workoutType),
+  segments: [],
+});
+
+export const parsePaceRange = (value: string): { low: number; high: number; unit: DistanceUnit } | null => {
+  const match = value.trim().match(/^(\d{1,2}):([0-5]\d)(?:-(\d{1,2}):([0-5]\d))?\/(km|mi)$/);
+  if (!match) {
+    return null;
+  }
+  const first = Number.parseInt(match[1], 10) * 60 + Number.parseInt(match[2], 10);
+  const second = match[3] ? Number.parseInt(match[3], 10) * 60 + Number.parseInt(match[4], 10) : first;
+  return {
+    low: Math.min(first, second),
+    high: Math.max(first, second),
+    unit: match[5] === 'mi' ? 'miles' : 'km',
+  };
+};
+
+const formatPaceSeconds = (secondsPerUnit: number): string => {
+  const rounded = Math.round(secondsPerUnit);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+};
+
+export const formatPaceTarget = (target: WorkoutTarget, unit: DistanceUnit): string => {
+  if (target.type === 'hrZone') {
+    return `Z${target.zone}`;
+  }
+  const unitLabel = unit === 'miles' ? 'mi' : 'km';
+  if (Math.round(target.lowSecondsPerUnit) === Math.round(target.highSecondsPerUnit)) {
+    return `${formatPaceSeconds(target.lowSecondsPerUnit)}/${unitLabel}`;
+  }
+  return `${formatPaceSeconds(target.lowSecondsPerUnit)}-${formatPaceSeconds(target.highSecondsPerUnit)}/${unitLabel}`;
+};
+
+const stepPaceSeconds = (step: WorkoutStep, category: WorkoutCategory, unit: DistanceUnit): number => {
+  if (step.target?.type === 'pace') {
+    return (step.target.lowSecondsPerUnit + step.target.highSecondsPerUnit) / 2;
+  }
+  const perKm =
+    step.kind === 'recovery'
+      ? DEFAULT_PACE_PER_KM.recovery
+      : isQualityCategory(category)
+        ? DEFAULT_PACE_PER_KM.work
+        : DEFAULT_PACE_PER_KM.easy;
+  return unit === 'miles' ? perKm * KM_PER_MILE : perKm;
+};
+
+const stepDistance = (step: WorkoutStep, category: WorkoutCategory, unit: DistanceUnit): number => {
+  if (step.distance !== undefined) {
+    return step.distance;
+  }
+  if (step.durationMinutes !== undefined) {
+    return (step.durationMinutes * 60) / stepPaceSeconds(step, category, unit);
+  }
+  return 0;
+};
+
+const stepMinutes = (step: WorkoutStep, category: WorkoutCategory, unit: DistanceUnit): number => {
+  if (step.durationMinutes !== undefined) {
+    return step.durationMinutes;
+  }
+  if (step.distance !== undefined) {
+    return (step.distance * stepPaceSeconds(step, category, unit)) / 60;
+  }
+  return 0;
+};
+
+const sumSteps = (workout: StructuredWorkout, measure: (step: WorkoutStep) => number): number =>
+  workout.segments.reduce(
+    (total, segment) => total + segment.repeats * segment.steps.reduce((sum, step) => sum + measure(step), 0),
+    0
+  );
+
+export const workoutDistance = (workout: StructuredWorkout, unit: DistanceUnit): number =>
+  sumSteps(workout, (step) => stepDistance(step, workout.category, unit));
+
+const FALLBACK_DURATION_MINUTES: Partial<Record<WorkoutCategory, number>> = {
+  long: 90,
+  strength: 45,
+  'cross-training': 45,
+  recovery: 40,
+  easy: 50,
+};
+
+export const workoutDurationMinutes = (workout: StructuredWorkout, unit: DistanceUnit): number => {
+  const computed = sumSteps(workout, (step) => stepMinutes(step, workout.category, unit));
+  if (computed > 0) {
+    return Math.round(computed);
+  }
+  return FALLBACK_DURATION_MINUTES[workout.category] ?? 60;
+};
+
+const roundQuantity = (value: number): number => Math.round(value * 100) / 100;
+
+export const impliedHeartRateZone = (step: WorkoutStep, segmentKind: SegmentKind, category: WorkoutCategory): number | null => {
+  if (step.target?.type === 'hrZone') {
+    return step.target.zone;
+  }
+  if (step.kind === 'recovery' || segmentKind === 'cooldown') {
+    return 1;
+  }
+  return segmentKind === 'warmup' ? 2 : IMPLIED_WORK_ZONE[category] ?? null;
+};
+
+export const formatHeartRateZone = (zones: HeartRateZoneRange[], zone: number): string => {
+  const range = zones.find((entry) => entry.zone === zone);
+  return range ? `Z${zone} ${range.lowBpm}-${range.highBpm} bpm` : `Z${zone}`;
+};
+
+const describeStep = (step: WorkoutStep, unit: DistanceUnit, heartRate?: string): string => {
+  const unitLabel = unit === 'miles' ? 'mi' : 'km';
+  const quantity =
+    step.distance !== undefined
+      ? `${roundQuantity(step.distance)} ${unitLabel}`
+      : `${roundQuantity(step.durationMinutes ?? 0)} min`;
+  if (step.target?.type === 'hrZone' && heartRate) {
+    return `${quantity} @ ${heartRate}`;
+  }
+  const base = step.target
+    ? `${quantity} @ ${formatPaceTarget(step.target, unit)}`
+    : step.kind === 'recovery'
+      ? `${quantity} jog`
+      : quantity;
+  return heartRate ? `${base} (${heartRate})` : base;
+};
+
+const SEGMENT_LABELS: Record<SegmentKind, string> = {
+  warmup: 'Warm-up',
+  main: 'Main set',
+  cooldown: 'Cool-down',
+};
+
+export const describeSegment = (
+  segment: WorkoutSegment,
+  unit: DistanceUnit,
+  category?: WorkoutCategory,
+  heartRateZones?: HeartRateZoneRange[]
+): string => {
+  const steps = segment.steps
+    .map((step) => {
+      const zone = heartRateZones?.length && category ? impliedHeartRateZone(step, segment.kind, category) : null;
+      return describeStep(step, unit, zone && heartRateZones ? formatHeartRateZone(heartRateZones, zone) : undefined);
+    })
+    .join(', ');
+  return segment.repeats > 1 ? `${segment.repeats}x (${steps})` : steps;
+};
+
+export const describeWorkoutSegments = (
+  workout: StructuredWorkout,
+  unit: DistanceUnit,
+  heartRateZones?: HeartRateZoneRange[]
+): string[] => {
+  if (!workout.segments.length && heartRateZones?.length && IMPLIED_WORK_ZONE[workout.category]) {
+    return [`Heart rate: ${formatHeartRateZone(heartRateZones, IMPLIED_WORK_ZONE[workout.category] ?? 2)}`];
+  }
+  return workout.segments.map(
+    (segment) => `${SEGMENT_LABELS[segment.kind]}: ${describeSegment(segment, unit, workout.category, heartRateZones)}`
+  );
+};
+
+export const describeWorkout = (workout: StructuredWorkout, unit: DistanceUnit): string =>
+  workout.segments
+    .map((segment) => {
+      const prefix = segment.kind === 'warmup' ? 'WU ' : segment.kind === 'cooldown' ? 'CD ' : '';
+      return `${prefix}${describeSegment(segment, unit)}`;
+    })
+    .join('; ');
+
+export const singleStepWorkout = (
+  category: WorkoutCategory,
+  distance: number | null | undefined,
+  target?: WorkoutTarget
+): StructuredWorkout => ({
+  category,
+  segments:
+    distance && isRunningCategory(category)
+      ? [{ kind: 'main', repeats: 1, steps: [{ kind: 'work', distance, ...(target ? { target } : {}) }] }]
+      : [],
+});
+
+export const paceTargetFromString = (value: string | null | undefined): WorkoutTarget | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const parsed = parsePaceRange(value);
+  return parsed ? { type: 'pace', lowSecondsPerUnit: parsed.low, highSecondsPerUnit: parsed.high } : undefined;
+};
+
+const roundTenth = (value: number): number => Math.round(value * 10) / 10;
+
+export const scaleWorkout = (workout: StructuredWorkout, factor: number): StructuredWorkout => ({
+  ...workout,
+  segments: workout.segments.map((segment) =>
+    segment.kind !== 'main'
+      ? segment
+      : {
+          ...segment,
+          steps: segment.steps.map((step) =>
+            step.kind !== 'work'
+              ? step
+              : {
+                  ...step,
+                  ...(step.distance !== undefined ? { distance: roundTenth(step.distance * factor) } : {}),
+                  ...(step.durationMinutes !== undefined ? { durationMinutes: roundTenth(step.durationMinutes * factor) } : {}),
+                }
+          ),
+        }
+  ),
+});
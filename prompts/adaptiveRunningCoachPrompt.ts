@@ -1,3 +1,15 @@
+import {
+  buildPaceGuardrailBands,
+  formatPace,
+  PaceBandKey,
+  PacingMode,
+  RecentRaceResult,
+  vdotPaceBand,
+} from '../plan/paceGuardrails';
+import { VDOT_PACE_KEYS } from '../plan/vdot';
+import { PhaseWeek, phaseLabel, phaseRules } from '../plan/trainingPhases';
+import { WORKOUT_TYPES } from '../plan/weekSchema';
+
 export const WEEK_PARTS = [
   'week1',
   'week2',
@@ -11,6 +23,18 @@ export const WEEK_PARTS = [
   'week10',
   'week11',
   'week12',
+  'week13',
+  'week14',
+  'week15',
+  'week16',
+  'week17',
+  'week18',
+  'week19',
+  'week20',
+  'week21',
+  'week22',
+  'week23',
+  'week24',
 ] as const;
 type PromptPart = (typeof WEEK_PARTS)[number];
 
@@ -20,6 +44,8 @@ export type AdaptiveRunningCoachPromptInput = {
   runningLevel: 'Beginner' | 'Intermediate' | 'Advanced' | 'Elite';
   targetTime?: string;
   targetTimeSeconds?: number;
+  recentRace?: RecentRaceResult;
+  pacingMode?: PacingMode;
   runDaysPerWeek: string;
   longRunDay: string;
   distanceUnit: 'km' | 'miles';
@@ -32,13 +58,11 @@ export type AdaptiveRunningCoachPromptInput = {
   workoutNarrative: string[];
   historyContext?: string;
   adaptationContext?: string;
-};
-
-const GOAL_DISTANCE_KM: Record<string, number> = {
-  '5K': 5,
-  '10K': 10,
-  'Half Marathon': 21.0975,
-  Marathon: 42.195,
+  trainingLoadContext?: string;
+  heartRateZonesContext?: string;
+  phase?: PhaseWeek;
+  raceDate?: string;
+  raceDay?: string;
 };
 
 const PART_WEEK_MAP: Record<PromptPart, number> = {
@@ -54,82 +78,57 @@ const PART_WEEK_MAP: Record<PromptPart, number> = {
   week10: 10,
   week11: 11,
   week12: 12,
-};
-
-const parseDurationToSeconds = (value?: string): number | null => {
-  if (!value) {
-    return null;
-  }
-  const cleaned = value.trim();
-  if (!cleaned) {
-    return null;
-  }
-
-  if (/^\d+$/.test(cleaned)) {
-    const minutes = Number.parseInt(cleaned, 10);
-    return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 : null;
-  }
-
-  const parts = cleaned.split(':').map((part) => part.trim());
-  if (parts.length === 2) {
-    const first = Number.parseInt(parts[0], 10);
-    const second = Number.parseInt(parts[1], 10);
-    if (!Number.isFinite(first) || !Number.isFinite(second) || first < 0 || second < 0) {
-      return null;
-    }
-    if (second >= 60) {
-      return first * 60 + second;
-    }
-    return first * 3600 + second * 60;
-  }
-
-  if (parts.length === 3) {
-    const [hours, minutes, seconds] = parts.map((part) => Number.parseInt(part, 10));
-    if (![hours, minutes, seconds].every((valuePart) => Number.isFinite(valuePart) && valuePart >= 0)) {
-      return null;
-    }
-    return hours * 3600 + minutes * 60 + seconds;
-  }
-
-  return null;
-};
-
-const formatPace = (secondsPerUnit: number): string => {
-  const minutes = Math.floor(secondsPerUnit / 60);
-  const seconds = Math.round(secondsPerUnit % 60);
-  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+  week13: 13,
+  week14: 14,
+  week15: 15,
+  week16: 16,
+  week17: 17,
+  week18: 18,
+  week19: 19,
+  week20: 20,
+  week21: 21,
+  week22: 22,
+  week23: 23,
+  week24: 24,
 };
 
 const buildPaceGuardrails = (input: AdaptiveRunningCoachPromptInput): string[] => {
-  const distanceKm = GOAL_DISTANCE_KM[input.selectedGoal];
-  const totalSeconds = input.targetTimeSeconds ?? parseDurationToSeconds(input.targetTime);
-  if (!distanceKm || !totalSeconds || totalSeconds <= 0) {
+  const km = buildPaceGuardrailBands(input, 'km');
+  const miles = buildPaceGuardrailBands(input, 'miles');
+  if (!km || !miles) {
     return ['Target Pace Context: unavailable (no valid target time provided).'];
   }
 
-  const goalPacePerKm = totalSeconds / distanceKm;
-  const goalPacePerMile = totalSeconds / (distanceKm * 0.621371);
-  const easyLowPerKm = goalPacePerKm + 45;
-  const easyHighPerKm = goalPacePerKm + 90;
-  const easyLowPerMile = goalPacePerMile + 75;
-  const easyHighPerMile = goalPacePerMile + 150;
-  const thresholdLowPerKm = goalPacePerKm + 8;
-  const thresholdHighPerKm = goalPacePerKm + 25;
-  const thresholdLowPerMile = goalPacePerMile + 13;
-  const thresholdHighPerMile = goalPacePerMile + 40;
-  const intervalLowPerKm = goalPacePerKm - 10;
-  const intervalHighPerKm = goalPacePerKm + 12;
-  const intervalLowPerMile = goalPacePerMile - 16;
-  const intervalHighPerMile = goalPacePerMile + 19;
-  const continuousMaxFastPerKm = goalPacePerKm + 8;
-  const continuousMaxFastPerMile = goalPacePerMile + 13;
+  const range = (key: PaceBandKey) =>
+    `${formatPace(km[key].lowSecondsPerUnit)}-${formatPace(km[key].highSecondsPerUnit)}/km (${formatPace(
+      miles[key].lowSecondsPerUnit
+    )}-${formatPace(miles[key].highSecondsPerUnit)}/mile)`;
+
+  const vdotTable = km.vdotTable;
+  const fitnessLines = vdotTable
+    ? [
+        `Training paces from current fitness (VDOT ${vdotTable.vdot.toFixed(1)}): ${VDOT_PACE_KEYS.map((key) => {
+          const kmBand = vdotPaceBand(vdotTable[key], 'km');
+          const mileBand = vdotPaceBand(vdotTable[key], 'miles');
+          return `${key} ${formatPace(kmBand.lowSecondsPerUnit)}-${formatPace(kmBand.highSecondsPerUnit)}/km (${formatPace(
+            mileBand.lowSecondsPerUnit
+          )}-${formatPace(mileBand.highSecondsPerUnit)}/mile)`;
+        }).join('; ')}.`,
+        'Use these fitness-based paces rather than goal pace for easy, threshold, interval, and repetition work.',
+      ]
+    : [];
 
   return [
-    `Target Pace Context: goal pace is about ${formatPace(goalPacePerKm)}/km (${formatPace(goalPacePerMile)}/mile).`,
-    `Easy pace guardrail: roughly ${formatPace(easyLowPerKm)}-${formatPace(easyHighPerKm)}/km (${formatPace(easyLowPerMile)}-${formatPace(easyHighPerMile)}/mile).`,
-    `Threshold/tempo guardrail: ${formatPace(thresholdLowPerKm)}-${formatPace(thresholdHighPerKm)}/km (${formatPace(thresholdLowPerMile)}-${formatPace(thresholdHighPerMile)}/mile).`,
-    `Interval guardrail (short repeats only): ${formatPace(intervalLowPerKm)}-${formatPace(intervalHighPerKm)}/km (${formatPace(intervalLowPerMile)}-${formatPace(intervalHighPerMile)}/mile).`,
-    `Hard guardrail: continuous efforts longer than 1 mile must not be faster than ${formatPace(continuousMaxFastPerKm)}/km (${formatPace(continuousMaxFastPerMile)}/mile).`,
+    `Target Pace Context: ${km.source === 'fitness' ? 'race pace at current fitness' : 'goal pace'} is about ${formatPace(
+      km.goalSecondsPerUnit
+    )}/km (${formatPace(miles.goalSecondsPerUnit)}/mile).`,
+    ...fitnessLines,
+    `Easy pace guardrail: roughly ${range('easy')}.`,
+    `Threshold/tempo guardrail: ${range('threshold')}.`,
+    `Interval guardrail (short repeats only): ${range('interval')}.`,
+    `Hard guardrail: continuous efforts longer than 1 mile must not be faster than ${formatPace(
+      km.continuousMaxFastSecondsPerUnit
+    )}/km (${formatPace(miles.continuousMaxFastSecondsPerUnit)}/mile).`,
     'Validation rule: if any prescribed pace breaks these bounds, rewrite the session before returning the final table.',
     'Safety guardrail: keep pace prescriptions realistic for current goal and injury prevention.',
   ];
@@ -151,7 +150,8 @@ const buildBasePrompt = (input: AdaptiveRunningCoachPromptInput): string => {
     `Goal: Improve ${input.selectedGoal} speed while staying injury-free.`,
     `Running Level: ${input.runningLevel}`,
     input.targetTime ? `Target Time: ${input.targetTime}` : 'Target Time: not specified',
-    'Current Phase: Base Building.',
+    ...(input.raceDate ? [`Race Date: ${input.raceDate}${input.raceDay ? ` (${input.raceDay}, final day of the plan)` : ''}.`] : []),
+    input.phase ? `Current Phase: ${phaseLabel(input.phase)} (Week ${input.phase.week}).` : 'Current Phase: Base Building.',
     `Schedule Constraints: I can run ${input.runDaysPerWeek} days per week. Long runs are on ${input.longRunDay}.`,
     `Distance Unit Preference: ${input.distanceUnit}.`,
     '',
@@ -161,11 +161,13 @@ const buildBasePrompt = (input: AdaptiveRunningCoachPromptInput): string => {
     `Resting HR: ${input.restingHrTrend}`,
     `Sleep: ${input.sleepTrend}`,
     `HRV: ${input.hrvTrend}`,
+    ...(input.heartRateZonesContext ? [input.heartRateZonesContext] : []),
     '',
     'Workload:',
     `VO2 Max: ${input.vo2Trend}`,
     `Distance: ${input.distanceTrend}`,
     `Steps: ${input.stepTrend}`,
+    ...(input.trainingLoadContext ? [input.trainingLoadContext] : []),
     '',
     'Recent Workouts:',
     ...input.workoutNarrative.map((line) => `- ${line}`),
@@ -175,13 +177,20 @@ const buildBasePrompt = (input: AdaptiveRunningCoachPromptInput): string => {
     'Your Task: Based on my Recovery Trends (HRV/RHR), prior plan context, and schedule constraints, determine progression and write the next week schedule.',
     '',
     'Global Constraints:',
-    'Constraint: Ensure easy runs are actually easy (Zone 2).',
+    input.heartRateZonesContext
+      ? 'Constraint: Ensure easy runs are actually easy (Zone 2 of the heart-rate zones above); use hrZone targets from those zones.'
+      : 'Constraint: Ensure easy runs are actually easy (Zone 2).',
     'Constraint: If Push week, include one speed session (Intervals or Tempo).',
     'Constraint: If Deload week, remove all speed work and focus on Zone 1/2.',
     'Constraint: Keep Details and Rationale concise (max 12 words each).',
     `Constraint: Use ${input.distanceUnit} for all distance prescriptions.`,
+    ...(input.phase ? phaseRules(input.phase, input.raceDay ?? input.longRunDay).map((line) => `Constraint: ${line}`) : []),
     'Constraint: Do not prescribe more run days than schedule allows.',
     'Constraint: Weekly load progression should be conservative (roughly <=10% increase vs prior week when context exists).',
+    'Constraint: Long run should stay at or below about 35% of weekly distance; never schedule two hard days (quality or long run) back-to-back.',
+    ...(input.trainingLoadContext
+      ? ['Constraint: Treat the training load ACWR as an injury-risk signal: above 1.3 hold volume flat, above 1.5 cut it back.']
+      : []),
     ...paceGuardrails.map((line) => `Constraint: ${line}`),
     '',
   ].join('\n');
@@ -189,6 +198,7 @@ const buildBasePrompt = (input: AdaptiveRunningCoachPromptInput): string => {
 
 export const buildAdaptiveRunningCoachPrompt = (input: AdaptiveRunningCoachPromptInput, part: PromptPart): string => {
   const basePrompt = buildBasePrompt(input);
+  const paceUnit = input.distanceUnit === 'miles' ? 'mi' : 'km';
   const week = PART_WEEK_MAP[part];
   const assumption = week === 1 ? 'No prior weeks planned yet.' : `Assume Weeks 1-${week - 1} are already planned. Continue progression appropriately.`;
 
@@ -205,9 +215,18 @@ export const buildAdaptiveRunningCoachPrompt = (input: AdaptiveRunningCoachPromp
     '  "verdict": "Push|Maintenance|Deload",',
     '  "reasoning": "one sentence",',
     '  "days": [',
-    '    { "day": "Monday", "workoutType": "...", "details": "...", "rationale": "..." }',
+    `    { "day": "Monday", "workoutType": "Easy Run", "distance": 8, "pace": "5:45-6:15/${paceUnit}", "details": "...", "rationale": "..." },`,
+    `    { "day": "Tuesday", "workoutType": "Intervals", "distance": 9, "pace": "4:10-4:20/${paceUnit}", "details": "...", "rationale": "...",`,
+    '      "segments": [',
+    '        { "kind": "warmup", "repeats": 1, "steps": [{ "kind": "work", "distance": 2, "target": { "hrZone": 2 } }] },',
+    `        { "kind": "main", "repeats": 6, "steps": [{ "kind": "work", "distance": 0.8, "target": { "pace": "4:10-4:20/${paceUnit}" } }, { "kind": "recovery", "durationMinutes": 1.5 }] },`,
+    '        { "kind": "cooldown", "repeats": 1, "steps": [{ "kind": "work", "distance": 2, "target": { "hrZone": 1 } }] }',
+    '      ] }',
     '  ]',
     '}',
     'JSON Rules: include exactly 7 day objects; keep non-running days as Rest Day; use only day names Monday..Sunday.',
+    `JSON Rules: workoutType must be one of: ${WORKOUT_TYPES.join(', ')}.`,
+    `JSON Rules: distance is a number in ${input.distanceUnit} (null for Rest Day, Cross-Training, Strength); pace is "m:ss/${paceUnit}" or "m:ss-m:ss/${paceUnit}", or null.`,
+    `JSON Rules: segments is required for quality sessions (warmup/main/cooldown; step kind work|recovery; step distance in ${input.distanceUnit} or durationMinutes; target is {"pace"} or {"hrZone": 1-5}); omit it for steady runs and rest days.`,
   ].join('\n');
 };
@@ -0,0 +1,169 @@
+import ExpoAppleIntelligence from '../modules/expo-apple-intelligence';
+
+export const COACH_MODEL_PROVIDER_IDS = ['foundation-models', 'openai-compatible', 'scripted'] as const;
+export type CoachModelProviderId = (typeof COACH_MODEL_PROVIDER_IDS)[number];
+
+export type CoachModelProvider = {
+  id: CoachModelProviderId;
+  label: string;
+  query: (prompt: string) => Promise<string>;
+};
+
+export type OpenAiCompatibleConfig = {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  temperature?: number;
+  fetchImpl?: typeof fetch;
+};
+
+export type ScriptedResponder = string[] | ((prompt: string, callIndex: number) => string);
+
+export const COACH_MODEL_PROVIDER_LABELS: Record<CoachModelProviderId, string> = {
+  'foundation-models': 'Apple Intelligence',
+  'openai-compatible': 'Local Server',
+  scripted: 'Scripted',
+};
+
+export const DEFAULT_OPENAI_COMPATIBLE_CONFIG: OpenAiCompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  model: 'llama3.1',
+};
+
+export const createFoundationModelsProvider = (): CoachModelProvider => ({
+  id: 'foundation-models',
+  label: COACH_MODEL_PROVIDER_LABELS['foundation-models'],
+  query: async (prompt) => {
+    const result = await ExpoAppleIntelligence.queryAsync(prompt);
+    return result.text;
+  },
+});
+
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): CoachModelProvider => {
+  const baseUrl = config.baseUrl.trim().replace(/\/+$/, '');
+  const fetchImpl = config.fetchImpl ?? fetch;
+
+  return {
+    id: 'openai-compatible',
+    label: COACH_MODEL_PROVIDER_LABELS['openai-compatible'],
+    query: async (prompt) => {
+      if (!baseUrl) {
+        throw new Error('Local model server URL is not configured.');
+      }
+
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (config.apiKey?.trim()) {
+        headers.Authorization = `Bearer ${config.apiKey.trim()}`;
+      }
+
+      const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: config.model,
+          temperature: config.temperature ?? 0.4,
+          messages: [{ role: 'user', content: prompt }],
+        }),
+      });
+
+      const rawBody = await response.text();
+      if (!response.ok) {
+        throw new Error(`Local model server error ${response.status}: ${rawBody.slice(0, 200) || response.statusText}`);
+      }
+
+      try {
+        const parsed = JSON.parse(rawBody) as {
+          choices?: Array<{ message?: { content?: string }; text?: string }>;
+        };
+        const choice = parsed.choices?.[0];
+        const text = choice?.message?.content ?? choice?.text;
+        if (typeof text !== 'string') {
+          throw new Error('missing choices[0].message.content');
+        }
+        return text;
+      } catch (caught) {
+        const reason = caught instanceof Error ? caught.message : 'unreadable body';
+        throw new Error(`Local model server returned an unexpected response (${reason}).`);
+      }
+    },
+  };
+};
+
+export const createScriptedProvider = (responder: ScriptedResponder): CoachModelProvider => {
+  let callIndex = 0;
+
+  return {
+    id: 'scripted',
+    label: COACH_MODEL_PROVIDER_LABELS.scripted,
+    query: async (prompt) => {
+      const index = callIndex;
+      callIndex += 1;
+      if (typeof responder === 'function') {
+        return responder(prompt, index);
+      }
+      if (!responder.length) {
+        throw new Error('Scripted provider has no responses configured.');
+      }
+      return responder[Math.min(index, responder.length - 1)];
+    },
+  };
+};
+
+const SCRIPTED_WEEK_DAYS = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const SCRIPTED_SESSION_ORDER = [1, 3, 5, 6, 4, 2, 0];
+
+export const scriptedWeekResponder = (prompt: string): string => {
+  const weekMatch = prompt.match(/"week":\s*(\d+)/);
+  if (!weekMatch) {
+    return 'Scripted coach: keep easy days easy, protect the long run, and adjust if soreness rises.';
+  }
+
+  const week = Number.parseInt(weekMatch[1], 10);
+  const runDaysMatch = prompt.match(/I can run (\d+) days per week/);
+  const longRunMatch = prompt.match(/Long runs are on (\w+)/);
+  const runDays = Math.min(7, Math.max(1, Number.parseInt(runDaysMatch?.[1] ?? '4', 10) || 4));
+  const longRunIndex = Math.max(0, SCRIPTED_WEEK_DAYS.indexOf(longRunMatch?.[1] ?? 'Sunday'));
+  const isDeload = week % 4 === 0;
+
+  const sessionDays = new Set<number>([longRunIndex]);
+  SCRIPTED_SESSION_ORDER.forEach((dayIndex) => {
+    if (sessionDays.size < runDays) {
+      sessionDays.add(dayIndex);
+    }
+  });
+
+  let qualityAssigned = isDeload;
+  const days = SCRIPTED_WEEK_DAYS.map((day, dayIndex) => {
+    if (!sessionDays.has(dayIndex)) {
+      return { day, workoutType: 'Rest Day', distance: null, pace: null, details: 'Recovery / mobility', rationale: 'Absorb training load' };
+    }
+    if (dayIndex === longRunIndex) {
+      return { day, workoutType: 'Long Run', distance: 8 + week, pace: null, details: 'Easy, Zone 2', rationale: 'Aerobic endurance' };
+    }
+    if (!qualityAssigned) {
+      qualityAssigned = true;
+      return { day, workoutType: 'Tempo Run', distance: 6, pace: null, details: '20 min steady at threshold effort', rationale: 'Lactate threshold' };
+    }
+    return { day, workoutType: 'Easy Run', distance: 5, pace: null, details: 'Conversational, Zone 2', rationale: 'Aerobic base' };
+  });
+
+  return JSON.stringify({
+    week,
+    verdict: isDeload ? 'Deload' : 'Push',
+    reasoning: 'Scripted stand-in plan for development and tests.',
+    days,
+  });
+};
+
+export const createCoachModelProvider = (
+  id: CoachModelProviderId,
+  openAiConfig: OpenAiCompatibleConfig = DEFAULT_OPENAI_COMPATIBLE_CONFIG
+): CoachModelProvider => {
+  if (id === 'openai-compatible') {
+    return createOpenAiCompatibleProvider(openAiConfig);
+  }
+  if (id === 'scripted') {
+    return createScriptedProvider(scriptedWeekResponder);
+  }
+  return createFoundationModelsProvider();
+};
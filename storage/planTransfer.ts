@@ -0,0 +1,119 @@
+import { isRecord, StorageValidation } from './versionedStorage';
+
+export const PLAN_EXPORT_FORMAT = 'frunna-plan';
+export const PLAN_EXPORT_VERSION = 1;
+
+// Portable plan file. Check-in keys drop the plan id prefix (`week-3:tuesday`) so they survive an id change on import.
+export type PlanExportFile<TPlan, TCheckin> = {
+  format: typeof PLAN_EXPORT_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  app: string;
+  plan: TPlan;
+  checkins: Record<string, TCheckin>;
+};
+
+export type TransferablePlan = {
+  id: string;
+};
+
+export type PlanImportCheckers = {
+  planProblem: (plan: unknown) => string | null;
+  checkinProblem: (checkin: unknown) => string | null;
+};
+
+export type ImportedPlan<TPlan, TCheckin> = {
+  plan: TPlan;
+  completions: Record<string, TCheckin>;
+  renamedFrom: string | null;
+};
+
+const CHECKIN_KEY_PATTERN = /^week-\d+:[a-z]+$/;
+
+const planPrefix = (planId: string): string => `${planId}:`;
+
+export const planExportFileName = (plan: TransferablePlan & { goal?: string }, exportedAt: Date = new Date()): string =>
+  `frunna-${(plan.goal ?? 'plan').toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${exportedAt.toISOString().slice(0, 10)}.json`;
+
+export const buildPlanExport = <TPlan extends TransferablePlan, TCheckin>(
+  plan: TPlan,
+  completions: Record<string, TCheckin>,
+  exportedAt: Date = new Date()
+): PlanExportFile<TPlan, TCheckin> => {
+  const prefix = planPrefix(plan.id);
+  const checkins = Object.fromEntries(
+    Object.entries(completions)
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, checkin]) => [key.slice(prefix.length), checkin])
+  );
+  return {
+    format: PLAN_EXPORT_FORMAT,
+    formatVersion: PLAN_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    app: 'Frunna',
+    plan,
+    checkins,
+  };
+};
+
+export const parsePlanExport = <TPlan extends TransferablePlan, TCheckin>(
+  raw: string,
+  checkers: PlanImportCheckers
+): StorageValidation<PlanExportFile<TPlan, TCheckin>> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'The file is not valid JSON.' };
+  }
+  if (!isRecord(parsed) || parsed.format !== PLAN_EXPORT_FORMAT) {
+    return { ok: false, error: 'The file is not a Frunna plan export.' };
+  }
+  if (typeof parsed.formatVersion !== 'number' || parsed.formatVersion > PLAN_EXPORT_VERSION) {
+    return { ok: false, error: `Unsupported plan export version (${String(parsed.formatVersion)}). Update the app and try again.` };
+  }
+  const planProblem = checkers.planProblem(parsed.plan);
+  if (planProblem) {
+    return { ok: false, error: `The plan in this file is invalid: ${planProblem}.` };
+  }
+  const checkins = parsed.checkins ?? {};
+  if (!isRecord(checkins)) {
+    return { ok: false, error: 'The check-ins in this file are invalid.' };
+  }
+  const invalidKey = Object.keys(checkins).find(
+    (key) => !CHECKIN_KEY_PATTERN.test(key) || checkers.checkinProblem(checkins[key]) !== null
+  );
+  if (invalidKey !== undefined) {
+    return { ok: false, error: `Check-in ${invalidKey} in this file is invalid.` };
+  }
+  return {
+    ok: true,
+    value: {
+      format: PLAN_EXPORT_FORMAT,
+      formatVersion: parsed.formatVersion,
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : '',
+      app: typeof parsed.app === 'string' ? parsed.app : '',
+      plan: parsed.plan as TPlan,
+      checkins: checkins as Record<string, TCheckin>,
+    },
+  };
+};
+
+// A plan whose id is already saved gets a fresh id; its check-ins are re-keyed to match.
+export const preparePlanImport = <TPlan extends TransferablePlan, TCheckin>(
+  file: PlanExportFile<TPlan, TCheckin>,
+  existingIds: string[],
+  importedAt: Date = new Date()
+): ImportedPlan<TPlan, TCheckin> => {
+  const taken = new Set(existingIds);
+  let id = file.plan.id;
+  for (let attempt = 1; taken.has(id); attempt += 1) {
+    id = `${file.plan.id}-import-${importedAt.getTime()}${attempt > 1 ? `-${attempt}` : ''}`;
+  }
+  const prefix = planPrefix(id);
+  return {
+    plan: { ...file.plan, id },
+    completions: Object.fromEntries(Object.entries(file.checkins).map(([key, checkin]) => [`${prefix}${key}`, checkin])),
+    renamedFrom: id === file.plan.id ? null : file.plan.id,
+  };
+};
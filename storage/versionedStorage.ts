@@ -0,0 +1,169 @@
+import ExpoAppleIntelligence from '../modules/expo-apple-intelligence';
+
+// Blobs written before versioning were bare JSON; they load as this version and run every migration.
+export const LEGACY_SCHEMA_VERSION = 1;
+
+const MAX_QUARANTINE_ENTRIES = 3;
+
+// Entries a validator drops from an otherwise valid value; they are quarantined and the rest still loads.
+export type StorageRejection = {
+  reason: string;
+  data: unknown;
+};
+
+export type StorageValidation<T> = { ok: true; value: T; rejected?: StorageRejection[] } | { ok: false; error: string };
+
+export type StorageMigration = {
+  fromVersion: number;
+  migrate: (data: unknown) => unknown;
+};
+
+export type StorageSchema<T> = {
+  label: string;
+  key: string;
+  legacyKey?: string;
+  version: number;
+  migrations: StorageMigration[];
+  validate: (data: unknown) => StorageValidation<T>;
+};
+
+export type StorageLoadResult<T> =
+  | { status: 'empty' }
+  | { status: 'loaded'; value: T; migratedFrom: number | null; rejected: string[] }
+  | { status: 'quarantined'; reason: string };
+
+type StoredEnvelope = {
+  schemaVersion: number;
+  savedAt: string;
+  data: unknown;
+};
+
+type QuarantineEntry = {
+  sourceKey: string;
+  reason: string;
+  quarantinedAt: string;
+  raw: string;
+};
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const quarantineKeyFor = (key: string): string => `${key}_quarantine`;
+
+const readEnvelope = (raw: string, isLegacy: boolean): StorageValidation<StoredEnvelope> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: 'stored data is not valid JSON' };
+  }
+  if (isLegacy) {
+    return { ok: true, value: { schemaVersion: LEGACY_SCHEMA_VERSION, savedAt: '', data: parsed } };
+  }
+  if (!isRecord(parsed) || typeof parsed.schemaVersion !== 'number' || !('data' in parsed)) {
+    return { ok: false, error: 'stored data has no schema version' };
+  }
+  return {
+    ok: true,
+    value: {
+      schemaVersion: parsed.schemaVersion,
+      savedAt: typeof parsed.savedAt === 'string' ? parsed.savedAt : '',
+      data: parsed.data,
+    },
+  };
+};
+
+const migrateData = <T>(schema: StorageSchema<T>, envelope: StoredEnvelope): StorageValidation<unknown> => {
+  if (envelope.schemaVersion > schema.version) {
+    return { ok: false, error: `written by a newer app version (schema v${envelope.schemaVersion})` };
+  }
+  let data = envelope.data;
+  for (let version = envelope.schemaVersion; version < schema.version; version += 1) {
+    const migration = schema.migrations.find((entry) => entry.fromVersion === version);
+    if (!migration) {
+      return { ok: false, error: `no migration from schema v${version}` };
+    }
+    try {
+      data = migration.migrate(data);
+    } catch (caught) {
+      const reason = caught instanceof Error ? caught.message : 'unknown error';
+      return { ok: false, error: `migration from schema v${version} failed (${reason})` };
+    }
+  }
+  return { ok: true, value: data };
+};
+
+const addToQuarantine = async (sourceKey: string, raw: string, reason: string): Promise<void> => {
+  const quarantineKey = quarantineKeyFor(sourceKey);
+  const existingRaw = await ExpoAppleIntelligence.getStoredValueAsync(quarantineKey);
+  let existing: QuarantineEntry[] = [];
+  try {
+    const parsed: unknown = existingRaw ? JSON.parse(existingRaw) : [];
+    existing = Array.isArray(parsed) ? (parsed as QuarantineEntry[]) : [];
+  } catch {
+    existing = [];
+  }
+  const entry: QuarantineEntry = { sourceKey, reason, quarantinedAt: new Date().toISOString(), raw };
+  await ExpoAppleIntelligence.setStoredValueAsync(
+    quarantineKey,
+    JSON.stringify([entry, ...existing].slice(0, MAX_QUARANTINE_ENTRIES))
+  );
+};
+
+const quarantine = async (sourceKey: string, raw: string, reason: string): Promise<void> => {
+  await addToQuarantine(sourceKey, raw, reason);
+  await ExpoAppleIntelligence.removeStoredValueAsync(sourceKey);
+};
+
+export const saveVersioned = async <T>(schema: StorageSchema<T>, value: T): Promise<void> => {
+  const envelope: StoredEnvelope = { schemaVersion: schema.version, savedAt: new Date().toISOString(), data: value };
+  await ExpoAppleIntelligence.setStoredValueAsync(schema.key, JSON.stringify(envelope));
+};
+
+export const loadVersioned = async <T>(schema: StorageSchema<T>): Promise<StorageLoadResult<T>> => {
+  const current = await ExpoAppleIntelligence.getStoredValueAsync(schema.key);
+  const legacy = current === null && schema.legacyKey ? await ExpoAppleIntelligence.getStoredValueAsync(schema.legacyKey) : null;
+  const sourceKey = current !== null ? schema.key : schema.legacyKey;
+  const raw = current ?? legacy;
+  if (raw === null || !sourceKey) {
+    return { status: 'empty' };
+  }
+
+  const envelope = readEnvelope(raw, current === null);
+  const migrated = envelope.ok ? migrateData(schema, envelope.value) : envelope;
+  const validated = migrated.ok ? schema.validate(migrated.value) : migrated;
+  if (!validated.ok) {
+    await quarantine(sourceKey, raw, validated.error);
+    return { status: 'quarantined', reason: validated.error };
+  }
+
+  const rejected = validated.rejected ?? [];
+  if (rejected.length) {
+    // All entries dropped in one load share a quarantine entry so the cap never discards any of them.
+    await addToQuarantine(
+      sourceKey,
+      JSON.stringify(rejected.map((entry) => entry.data)),
+      rejected.map((entry) => entry.reason).join('; ')
+    );
+  }
+
+  const fromVersion = envelope.ok ? envelope.value.schemaVersion : schema.version;
+  if (fromVersion !== schema.version || sourceKey !== schema.key || rejected.length) {
+    await saveVersioned(schema, validated.value);
+    if (sourceKey !== schema.key) {
+      await ExpoAppleIntelligence.removeStoredValueAsync(sourceKey);
+    }
+  }
+  return {
+    status: 'loaded',
+    value: validated.value,
+    migratedFrom: fromVersion !== schema.version ? fromVersion : null,
+    rejected: rejected.map((entry) => entry.reason),
+  };
+};
+
+export const describeStorageProblem = <T>(schema: StorageSchema<T>, reason: string): string =>
+  `Saved ${schema.label} could not be read (${reason}). The original data was kept aside and ${schema.label} start empty.`;
+
+export const describeStorageRejections = <T>(schema: StorageSchema<T>, reasons: string[]): string =>
+  `Some saved ${schema.label} could not be read (${reasons.join('; ')}). They were kept aside and the rest loaded.`;